@@ -1,183 +1,572 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   AppView, 
   User, 
   Expense, 
-  ExpenseItem 
+  ExpenseDraft,
+  Category,
+  RecurringRule,
+  BudgetCycle,
+  BudgetPeriodRecord,
+  SavingsGoal,
+  UserPreferences,
+  PaymentAccount,
+  AccountTransfer
 } from './types';
-import { auth, db } from './services/firebase';
-import { onAuthStateChanged, signOut, getRedirectResult } from 'firebase/auth';
-import { 
-  collection, 
-  query, 
-  orderBy, 
-  onSnapshot, 
-  setDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc,
-  getDoc
-} from 'firebase/firestore';
+import { ExpenseUpdate, InvalidDocument, Repository, defaultRepository, watchInvalidDocuments } from './services/repository';
+import { mergeCategories } from './services/categories';
+import { defaultAccount } from './services/accounts';
 import Layout from './components/Layout';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Welcome from './pages/Welcome';
 import Dashboard from './pages/Dashboard';
 import Report from './pages/Report';
-import ExpenseForm from './pages/ExpenseForm';
+import ExpenseForm, { ExpenseFormDraft } from './pages/ExpenseForm';
+import Categories from './pages/Categories';
+import DataTransfer from './pages/DataTransfer';
+import Recurring from './pages/Recurring';
+import Goals from './pages/Goals';
+import Trash from './pages/Trash';
+import Settings from './pages/Settings';
+import Accounts from './pages/Accounts';
+import UndoSnackbar from './components/UndoSnackbar';
+import UpdatePrompt from './components/UpdatePrompt';
+import { ImportedExpense } from './services/csv';
+import { useExpenses } from './hooks/useExpenses';
+import { useSyncQueue } from './hooks/useSyncQueue';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { useRoute } from './hooks/useRoute';
+import { isPublicView, routeAfterLogin, routePath } from './services/router';
+import { dueOccurrences, ruleToExpense } from './services/recurring';
+import { DEFAULT_BUDGET_CYCLE, cyclePeriodOf, shiftCyclePeriod } from './services/period';
+import { periodsToClose, rolloverHistory } from './services/rollover';
+import { allocateSurplus, surplusRecipients } from './services/goals';
+import { summarizePeriod } from './services/stats';
+import { isTrashExpired, isTrashed } from './services/trash';
+import { currencyCode, setCurrency } from './services/currency';
+import { getLocale, setLocale, t } from './services/i18n';
+import { MessageKey } from './services/locales/zh-TW';
+import { PendingWrite, pendingWriteIds, savePendingWrites } from './services/localStorageService';
+
+const VIEW_TITLES: Partial<Record<AppView, MessageKey>> = {
+  ADD_EXPENSE: 'title.addExpense',
+  EDIT_EXPENSE: 'title.editExpense',
+  REPORT: 'title.report',
+  CATEGORIES: 'title.categories',
+  DATA: 'title.data',
+  RECURRING: 'title.recurring',
+  GOALS: 'title.goals',
+  TRASH: 'title.trash',
+  SETTINGS: 'title.settings',
+  ACCOUNTS: 'title.accounts',
+};
 
-const App: React.FC = () => {
-  const [view, setView] = useState<AppView>('LOGIN');
+interface AppProps {
+  repository?: Repository;
+}
+
+const App: React.FC<AppProps> = ({ repository = defaultRepository }) => {
+  const { route, navigate, goBack } = useRoute();
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorker();
+  const view = route.view;
   const [user, setUser] = useState<User | null>(null);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [storedCategories, setStoredCategories] = useState<Category[]>([]);
   const [budget, setBudget] = useState<number>(10000);
+  const [categoryBudgets, setCategoryBudgets] = useState<Record<string, number>>({});
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [budgetCycle, setBudgetCycle] = useState<BudgetCycle>(DEFAULT_BUDGET_CYCLE);
+  const [rolloverSince, setRolloverSince] = useState<number | undefined>(undefined);
+  const [periodRecords, setPeriodRecords] = useState<BudgetPeriodRecord[] | null>(null);
+  const [goals, setGoals] = useState<SavingsGoal[] | null>(null);
+  const [accounts, setAccounts] = useState<PaymentAccount[]>([]);
+  const [transfers, setTransfers] = useState<AccountTransfer[]>([]);
+  const [preferences, setPreferences] = useState<UserPreferences>({});
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  // 從表單前往新增帳戶時保留已填寫的內容，expenseId 為編輯中的紀錄 (新增時未設定)
+  const [formDraft, setFormDraft] = useState<{ expenseId?: string; draft: ExpenseFormDraft } | null>(null);
+  // 最近刪除的紀錄，可從提示列一次復原 (批次刪除時為多筆)
+  const [undoExpenses, setUndoExpenses] = useState<Expense[] | null>(null);
+  // 讀取時驗證失敗而未顯示的文件
+  const [invalidDocuments, setInvalidDocuments] = useState<InvalidDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [dbError, setDbError] = useState<string | null>(null);
   const [indexUrl, setIndexUrl] = useState<string | null>(null);
 
+  // 偏好設定變更後套用使用者的語言與幣別，再以 state 觸發重新繪製，文字與金額顯示統一經由 t / formatMoney
+  const [display, setDisplay] = useState(() => ({ locale: getLocale(), currency: currencyCode() }));
+  useEffect(() => {
+    setLocale(preferences.language);
+    setCurrency(preferences.currency);
+    const next = { locale: getLocale(), currency: currencyCode() };
+    setDisplay(prev => prev.locale === next.locale && prev.currency === next.currency ? prev : next);
+  }, [preferences.language, preferences.currency]);
+  const { locale } = display;
+  // 內建分類的名稱隨語言切換
+  const categories = useMemo(() => mergeCategories(storedCategories), [storedCategories, locale]);
+  useEffect(() => { document.documentElement.lang = locale === 'zh-TW' ? 'zh-Hant' : locale; }, [locale]);
+
+  // 在登入與註冊頁之間切換時保留登入後要回到的路徑
   const handleNavigate = useCallback((newView: AppView) => {
-    if (newView !== 'EDIT_EXPENSE') setEditingExpense(null);
-    setView(newView);
-  }, []);
+    navigate(isPublicView(newView) ? { view: newView, next: route.next } : { view: newView });
+  }, [navigate, route.next]);
 
   useEffect(() => {
     console.log("[App] 初始化 Auth 監聽器...");
-    
-    // 雖然主推 Popup，但仍檢查是否有 Redirect 遺留結果
-    getRedirectResult(auth).catch(() => {});
 
-    const unsubscribeAuth = onAuthStateChanged(auth, async (fbUser) => {
-      console.log("[App] Auth 狀態:", fbUser ? `已登入 (${fbUser.email})` : "未登入");
+    const unsubscribeAuth = repository.auth.watch((currentUser) => {
+      console.log("[App] Auth 狀態:", currentUser ? `已登入 (${currentUser.email})` : "未登入");
       
-      if (fbUser) {
-        const currentUser: User = {
-          uid: fbUser.uid,
-          email: fbUser.email || '',
-          displayName: fbUser.displayName || undefined,
-          photoURL: fbUser.photoURL || undefined,
-        };
+      if (currentUser) {
         setUser(currentUser);
         
-        try {
-          const userDocRef = doc(db, 'users', fbUser.uid);
-          const userDoc = await getDoc(userDocRef);
-          if (!userDoc.exists()) {
-            await setDoc(userDocRef, {
-              email: fbUser.email,
-              displayName: fbUser.displayName,
-              photoURL: fbUser.photoURL,
-              createdAt: Date.now(),
-              lastLogin: Date.now(),
-              monthlyBudget: 10000
-            });
-          } else {
-            await updateDoc(userDocRef, { lastLogin: Date.now() });
-          }
-        } catch (e) {
-          console.error("[App] Firestore 同步失敗:", e);
-        }
-
-        setView(current => (current === 'LOGIN' || current === 'REGISTER' ? 'WELCOME' : current));
+        // 不等待寫入完成，離線時才不會卡在載入畫面
+        repository.users.ensureProfile(currentUser).catch(e => console.error("[App] Firestore 同步失敗:", e));
       } else {
         setUser(null);
-        setExpenses([]);
-        setView('LOGIN');
+        setStoredCategories([]);
+        setCategoryBudgets({});
+        setRecurringRules([]);
+        setBudgetCycle(DEFAULT_BUDGET_CYCLE);
+        setRolloverSince(undefined);
+        setPeriodRecords(null);
+        setGoals(null);
+        setAccounts([]);
+        setTransfers([]);
+        setFormDraft(null);
+        setPreferences({});
+        setUndoExpenses(null);
       }
       setLoading(false);
     });
 
     return () => unsubscribeAuth();
+  }, [repository]);
+
+  // 未登入時導向登入頁並記住原本的網址，登入後再回到該頁；主動登出則不記住
+  const signedOutRef = useRef(false);
+  useEffect(() => {
+    if (loading) return;
+    if (!user && !isPublicView(view)) {
+      const next = signedOutRef.current || view === 'WELCOME' ? undefined : routePath(route);
+      signedOutRef.current = false;
+      navigate({ view: 'LOGIN', next }, { replace: true });
+    } else if (user && isPublicView(view)) {
+      navigate(routeAfterLogin(route.next), { replace: true });
+    }
+  }, [loading, user, view, route, navigate]);
+
+  const handleFirestoreError = useCallback((error: Error) => {
+    console.error("[App] Firestore 報錯:", error);
+    if (error.message.includes('https://console.firebase.google.com')) {
+      const urlMatch = error.message.match(/https:\/\/console\.firebase\.google\.com[^\s]*/);
+      if (urlMatch) { setIndexUrl(urlMatch[0]); setDbError("INDEX_REQUIRED"); }
+    }
   }, []);
 
+  const { expenses, hasMore, loadingMore, loadMore, ensureRange, applyLocal } = useExpenses(repository.expenses, user?.uid ?? null, handleFirestoreError);
+  // 寫入被拒 (例如權限不足) 時，重新讀取雲端上的紀錄取代先套用到畫面的內容；讀不到時新增的紀錄直接移除
+  const handleSyncFailure = (error: Error, write: PendingWrite, ownerUid: string) => {
+    alert(t('app.errorSync', { message: error.message }));
+    pendingWriteIds(write).forEach(id => {
+      repository.expenses.get(ownerUid, id)
+        .then(stored => applyLocal(stored ? { upsert: stored } : { removeId: id }))
+        .catch(err => {
+          console.error("[App] 無法重新讀取紀錄:", err);
+          if (write.op === 'set') applyLocal({ removeId: id });
+        });
+    });
+  };
+  const { enqueue, enqueueBatch, pendingIds, status: syncStatus } = useSyncQueue(repository.expenses, user?.uid ?? null, handleSyncFailure);
+
   useEffect(() => {
     if (!user) return;
     setDbError(null);
     
-    const userDocRef = doc(db, 'users', user.uid);
-    const unsubscribeUser = onSnapshot(userDocRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const userData = snapshot.data();
-        if (userData.monthlyBudget !== undefined) setBudget(userData.monthlyBudget);
-      }
+    const unsubscribeUser = repository.users.watchProfile(user.uid, (profile) => {
+      if (profile.monthlyBudget !== undefined) setBudget(profile.monthlyBudget);
+      setCategoryBudgets(profile.categoryBudgets);
+      setBudgetCycle(profile.budgetCycle || DEFAULT_BUDGET_CYCLE);
+      setRolloverSince(profile.rolloverSince);
+      setPreferences(profile.preferences);
     });
 
-    const userExpensesRef = collection(db, 'users', user.uid, 'expenses');
-    const q = query(userExpensesRef, orderBy('timestamp', 'desc'));
+    const unsubscribeCategories = repository.categories.watch(user.uid, setStoredCategories);
+
+    const unsubscribeRecurring = repository.recurring.watch(user.uid, setRecurringRules, handleFirestoreError);
+    const unsubscribePeriods = repository.budgets.watchPeriodRecords(user.uid, setPeriodRecords, handleFirestoreError);
+    const unsubscribeGoals = repository.goals.watch(user.uid, setGoals, handleFirestoreError);
+    const unsubscribeAccounts = repository.accounts.watch(user.uid, setAccounts, handleFirestoreError);
+    const unsubscribeTransfers = repository.transfers.watch(user.uid, setTransfers, handleFirestoreError);
+    repository.accounts.seedDefault(user.uid, defaultAccount()).catch(e => console.error("[App] 預設帳戶建立失敗:", e));
+
+    return () => { unsubscribeUser(); unsubscribeCategories(); unsubscribeRecurring(); unsubscribePeriods(); unsubscribeGoals(); unsubscribeAccounts(); unsubscribeTransfers(); };
+  }, [repository, user, handleFirestoreError]);
+
+  useEffect(() => watchInvalidDocuments(setInvalidDocuments), []);
+  const userInvalidDocuments = useMemo(
+    () => (user ? invalidDocuments.filter(d => d.path === `users/${user.uid}` || d.path.startsWith(`users/${user.uid}/`)) : []),
+    [invalidDocuments, user]
+  );
+
+  // 本期可能早於本月 1 日 (例如每月 5 日起算)，預先載入供紀錄頁與表單的預算提醒使用
+  useEffect(() => {
+    if (!user) return;
+    const { start, end } = cyclePeriodOf(budgetCycle);
+    ensureRange(start, end);
+  }, [user, budgetCycle, ensureRange]);
+
+  // 結轉模式下，週期結束後保存當時的預算，之後修改預算不影響過去的結轉
+  useEffect(() => {
+    if (!user || rolloverSince === undefined || periodRecords === null) return;
+    const rows = rolloverHistory(budgetCycle, [], periodRecords, budget, rolloverSince, cyclePeriodOf(budgetCycle));
+    periodsToClose(rows, periodRecords).forEach(record => {
+      repository.budgets.savePeriodRecord(user.uid, record).catch(err => console.error("[App] 週期快照儲存失敗:", err));
+    });
+  }, [repository, user, rolloverSince, periodRecords, budgetCycle, budget]);
 
-    const unsubscribeExpenses = onSnapshot(q, (snapshot) => {
-      const expenseData: Expense[] = snapshot.docs.map(fbDoc => {
-        const data = fbDoc.data();
-        let ts = data.timestamp;
-        if (ts && typeof ts === 'object' && 'seconds' in ts) ts = ts.seconds * 1000;
-        return { ...data, id: fbDoc.id, timestamp: ts || Date.now() } as Expense;
+  // 新的週期開始後，將上一期沒花完的預算存入開啟自動存入的儲蓄目標；
+  // 只處理上一期，存入紀錄的編號以週期為準，重複執行也只會記一次
+  const allocatingRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || goals === null || periodRecords === null) return;
+    const previous = shiftCyclePeriod(budgetCycle, cyclePeriodOf(budgetCycle), -1);
+    if (!previous || allocatingRef.current === previous.key) return;
+    if (surplusRecipients(goals, previous.key, previous.end).length === 0) return;
+    allocatingRef.current = previous.key;
+    const periodBudget = periodRecords.find(r => r.key === previous.key)?.budget ?? previous.budget ?? budget;
+    repository.expenses.listRange(user.uid, previous.start, previous.end)
+      .then(list => {
+        const surplus = periodBudget - summarizePeriod(list.filter(e => !isTrashed(e)), previous.start, previous.end).total;
+        return Promise.all(allocateSurplus(goals, previous.key, previous.end, surplus)
+          .map(({ goalId, contribution }) => repository.goals.addContribution(user.uid, goalId, contribution)));
+      })
+      .catch(err => {
+        console.error("[App] 結餘存入儲蓄目標失敗:", err);
+        allocatingRef.current = null;
       });
-      setExpenses(expenseData);
-    }, (error) => {
-      console.error("[App] Firestore 報錯:", error);
-      if (error.message.includes('https://console.firebase.google.com')) {
-        const urlMatch = error.message.match(/https:\/\/console\.firebase\.google\.com[^\s]*/);
-        if (urlMatch) { setIndexUrl(urlMatch[0]); setDbError("INDEX_REQUIRED"); }
-      }
+  }, [repository, user, goals, periodRecords, budgetCycle, budget]);
+
+  // 登入後永久刪除在垃圾桶中超過保留期限的紀錄
+  useEffect(() => {
+    if (!user) return;
+    repository.expenses.listTrashed(user.uid)
+      .then(trashed => {
+        const expired = trashed.filter(e => isTrashExpired(e)).map(e => e.id);
+        if (expired.length > 0) return repository.expenses.removeMany(user.uid, expired);
+      })
+      .catch(err => console.error("[App] 垃圾桶清理失敗:", err));
+  }, [repository, user]);
+
+  // 開啟 App 或規則變動時補上到期的固定收支；編號固定，多個裝置同時執行也不會重複
+  const generatingRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!user) return;
+    const now = Date.now();
+    recurringRules.forEach(rule => {
+      if (generatingRef.current.has(rule.id)) return;
+      const due = dueOccurrences(rule, now);
+      if (due.length === 0) return;
+      // 單一批次有筆數上限，超過時分次補上
+      const batch = due.slice(0, 400);
+      const through = batch.length < due.length ? batch[batch.length - 1] : now;
+      const generated = batch.map(ts => ruleToExpense(rule, ts, user.uid));
+      generatingRef.current.add(rule.id);
+      generated.forEach(expense => applyLocal({ upsert: expense }));
+      repository.recurring.materialize(user.uid, rule.id, generated, through)
+        .catch(err => console.error("[App] 固定收支產生失敗:", err))
+        .finally(() => generatingRef.current.delete(rule.id));
     });
+  }, [repository, user, recurringRules, applyLocal]);
+
+  const handleUpdateBudget = (newBudget: number) => {
+    if (!user) return;
+    setBudget(newBudget);
+    repository.budgets.setMonthlyBudget(user.uid, newBudget).catch(err => console.error(err));
+  };
+
+  const handleUpdateCategoryBudget = (item: string, limit: number | null) => {
+    if (!user) return;
+    repository.budgets.setCategoryBudget(user.uid, item, limit).catch(err => console.error(err));
+  };
+
+  const handleUpdateBudgetCycle = (cycle: BudgetCycle) => {
+    if (!user) return;
+    setBudgetCycle(cycle);
+    // 週期設定變更後回到目前所在的週期
+    navigate({ view: 'REPORT' }, { replace: true });
+    repository.budgets.setBudgetCycle(user.uid, cycle).catch(err => alert(t('app.errorSaveCycle', { message: err.message })));
+  };
+
+  // 從目前週期開始結轉，不回溯過去的結餘
+  const handleToggleRollover = (enabled: boolean) => {
+    if (!user) return;
+    const since = enabled ? cyclePeriodOf(budgetCycle).start : null;
+    setRolloverSince(since ?? undefined);
+    repository.budgets.setRolloverSince(user.uid, since).catch(err => alert(t('app.errorSaveRollover', { message: err.message })));
+  };
+
+  // 檔案中的編號可能對應到尚未載入 (較早期間或垃圾桶中) 的紀錄，寫入前逐筆確認，已存在的略過不覆蓋
+  const handleImportExpenses = async (records: ImportedExpense[]) => {
+    if (!user) return 0;
+    const existing = await Promise.all(records.map(record => (record.id ? repository.expenses.get(user.uid, record.id) : null)));
+    const newExpenses: Expense[] = records.filter((_, idx) => !existing[idx]).map(record => ({
+      ...record,
+      id: record.id || repository.expenses.newId(user.uid),
+      userId: user.uid,
+    }));
+    await repository.expenses.saveMany(user.uid, newExpenses);
+    newExpenses.forEach(expense => applyLocal({ upsert: expense }));
+    return newExpenses.length;
+  };
+
+  const handleSaveCategory = async (category: Omit<Category, 'id'> & { id?: string }) => {
+    if (!user) return;
+    try {
+      await repository.categories.save(user.uid, category);
+    } catch (err: any) { alert(t('app.errorSaveCategory', { message: err.message })); }
+  };
+
+  const handleReorderCategories = async (ordered: Category[]) => {
+    if (!user) return;
+    try {
+      await repository.categories.reorder(user.uid, ordered);
+    } catch (err: any) { alert(t('app.errorReorder', { message: err.message })); }
+  };
+
+  const handleSaveRecurring = async (rule: Omit<RecurringRule, 'id'> & { id?: string }) => {
+    if (!user) return;
+    try {
+      await repository.recurring.save(user.uid, rule);
+    } catch (err: any) { alert(t('app.errorSaveRecurring', { message: err.message })); }
+  };
+
+  const handleDeleteRecurring = async (id: string) => {
+    if (!user) return;
+    try {
+      await repository.recurring.remove(user.uid, id);
+    } catch (err: any) { alert(t('app.errorDelete', { message: err.message })); }
+  };
 
-    return () => { unsubscribeExpenses(); unsubscribeUser(); };
-  }, [user]);
+  const handleSaveGoal = async (goal: Omit<SavingsGoal, 'id'> & { id?: string }) => {
+    if (!user) return;
+    try {
+      await repository.goals.save(user.uid, goal);
+    } catch (err: any) { alert(t('app.errorSaveGoal', { message: err.message })); }
+  };
 
-  const handleUpdateBudget = async (newBudget: number) => {
+  const handleDeleteGoal = async (id: string) => {
     if (!user) return;
     try {
-      await updateDoc(doc(db, 'users', user.uid), { monthlyBudget: newBudget });
-      setBudget(newBudget);
-    } catch (err) { console.error(err); }
+      await repository.goals.remove(user.uid, id);
+    } catch (err: any) { alert(t('app.errorDelete', { message: err.message })); }
+  };
+
+  const handleContributeGoal = async (goalId: string, amount: number) => {
+    if (!user) return;
+    const now = Date.now();
+    try {
+      await repository.goals.addContribution(user.uid, goalId, { id: `manual-${now.toString(36)}`, amount, timestamp: now, source: 'manual' });
+    } catch (err: any) { alert(t('app.errorContribute', { message: err.message })); }
+  };
+
+  const handleSaveAccount = async (account: Omit<PaymentAccount, 'id'> & { id?: string }) => {
+    if (!user) return;
+    try {
+      await repository.accounts.save(user.uid, account);
+    } catch (err: any) { alert(t('app.errorSaveAccount', { message: err.message })); }
+  };
+
+  const handleSaveTransfer = async (transfer: Omit<AccountTransfer, 'id'>) => {
+    if (!user) return;
+    try {
+      await repository.transfers.save(user.uid, transfer);
+    } catch (err: any) { alert(t('app.errorSaveTransfer', { message: err.message })); }
+  };
+
+  const handleDeleteTransfer = async (id: string) => {
+    if (!user) return;
+    try {
+      await repository.transfers.remove(user.uid, id);
+    } catch (err: any) { alert(t('app.errorDelete', { message: err.message })); }
+  };
+
+  const handleUpdateProfile = async (changes: { displayName?: string; photoURL?: string }) => {
+    if (!user) return;
+    await repository.auth.updateProfile(changes);
+    await repository.users.updateProfile(user.uid, changes);
+    setUser({ ...user, ...changes });
+  };
+
+  const handleUpdatePreferences = (next: UserPreferences) => {
+    if (!user) return;
+    setPreferences(next);
+    repository.users.setPreferences(user.uid, next).catch(err => alert(t('app.errorSavePreferences', { message: err.message })));
+  };
+
+  const handleMigrateData = async () => {
+    if (!user) throw new Error(t('common.notSignedIn'));
+    return repository.expenses.migrateAll(user.uid);
+  };
+
+  // 先停止所有訂閱與自動寫入 (結轉快照、固定收支等)，刪除資料後再刪除登入帳號
+  const handleDeleteAccount = async () => {
+    if (!user) return;
+    const current = user;
+    setLoading(true);
+    signedOutRef.current = true;
+    setUser(null);
+    // 資料須在帳號仍存在時刪除 (安全規則需要登入)，設定頁已在呼叫前重新驗證，降低刪除帳號失敗的機會
+    let dataDeleted = false;
+    try {
+      await repository.users.deleteAllData(current.uid);
+      dataDeleted = true;
+      savePendingWrites(current.uid, []);
+      await repository.auth.deleteUser();
+    } catch (err: any) {
+      console.error("[App] 刪除帳號失敗:", err);
+      if (dataDeleted) {
+        // 帳號仍在但資料已清除：重建使用者文件，預設帳戶由登入後的監聽流程補上
+        repository.users.ensureProfile(current).catch(e => console.error("[App] Firestore 同步失敗:", e));
+        alert(t('app.errorDeleteAccountDataRemoved', { message: err.message }));
+      } else {
+        alert(t('app.errorDeleteAccount', { message: err.message }));
+      }
+      signedOutRef.current = false;
+      setUser(current);
+      setLoading(false);
+    }
   };
 
   const handleLogin = (loggedInUser: User) => {
     setUser(loggedInUser);
-    setView('WELCOME');
   };
 
   const handleLogout = async () => {
     try {
       setLoading(true);
-      await signOut(auth);
+      signedOutRef.current = true;
+      await repository.auth.signOut();
     } catch (err) {
       console.error(err);
+      signedOutRef.current = false;
       setLoading(false);
     }
   };
 
-  const handleAddExpense = async (amount: number, item: ExpenseItem, description: string) => {
+  // 編輯頁的紀錄依網址載入；尚未載入到本地時向資料庫查詢
+  const expensesRef = useRef(expenses);
+  expensesRef.current = expenses;
+  useEffect(() => {
+    if (!user || view !== 'EDIT_EXPENSE' || !route.expenseId) {
+      setEditingExpense(null);
+      return;
+    }
+    const id = route.expenseId;
+    const loaded = expensesRef.current.find(e => e.id === id);
+    if (loaded) {
+      setEditingExpense(current => (current?.id === id ? current : loaded));
+      return;
+    }
+    let active = true;
+    repository.expenses.get(user.uid, id)
+      .then(found => {
+        if (!active) return;
+        if (found && !isTrashed(found)) {
+          setEditingExpense(found);
+        } else {
+          alert(t('app.expenseNotFound'));
+          navigate({ view: 'DASHBOARD' }, { replace: true });
+        }
+      })
+      .catch(err => console.error("[App] 紀錄載入失敗:", err));
+    return () => { active = false; };
+  }, [repository, user, view, route.expenseId, navigate]);
+
+  // 紀錄的寫入經由同步佇列送出，不等待網路，直接回到紀錄頁
+  const handleAddExpense = ({ type, amount, item, description, timestamp, tags, account }: ExpenseDraft) => {
     if (!user) return;
-    try {
-      const userExpensesRef = collection(db, 'users', user.uid, 'expenses');
-      const newRef = doc(userExpensesRef);
-      await setDoc(newRef, { id: newRef.id, userId: user.uid, amount, item, description, timestamp: Date.now() });
-      setView('DASHBOARD');
-    } catch (err: any) { alert('儲存失敗：' + err.message); }
+    const newExpense: Expense = { id: repository.expenses.newId(user.uid), userId: user.uid, type, amount, item, description, timestamp, account };
+    if (tags.length > 0) newExpense.tags = tags;
+    enqueue('set', newExpense.id, newExpense);
+    applyLocal({ upsert: newExpense });
+    setFormDraft(null);
+    goBack();
   };
 
-  const handleUpdateExpense = async (amount: number, item: ExpenseItem, description: string) => {
+  const handleUpdateExpense = ({ type, amount, item, description, timestamp, tags, account }: ExpenseDraft) => {
     if (!user || !editingExpense) return;
-    try {
-      await updateDoc(doc(db, 'users', user.uid, 'expenses', editingExpense.id), { amount, item, description });
-      setEditingExpense(null);
-      setView('DASHBOARD');
-    } catch (err: any) { alert('更新失敗：' + err.message); }
+    enqueue('update', editingExpense.id, { type, amount, item, description, timestamp, tags, account });
+    applyLocal({ upsert: { ...editingExpense, type, amount, item, description, timestamp, tags, account } });
+    setFormDraft(null);
+    goBack();
+  };
+
+  // 刪除只移到垃圾桶，可從提示列復原或到垃圾桶還原
+  const handleDeleteExpense = (id: string) => {
+    const expense = expenses.find(e => e.id === id);
+    if (!user || !expense) return;
+    const deletedAt = Date.now();
+    enqueue('update', id, { deletedAt });
+    applyLocal({ upsert: { ...expense, deletedAt } });
+    setUndoExpenses([expense]);
+  };
+
+  const handleRestoreExpense = (expense: Expense) => {
+    if (!user) return;
+    const { deletedAt, ...restored } = expense;
+    enqueue('restore', expense.id);
+    applyLocal({ upsert: restored });
   };
 
-  const handleDeleteExpense = async (id: string) => {
-    if (!user || !confirm('確定刪除？')) return;
-    try { await deleteDoc(doc(db, 'users', user.uid, 'expenses', id)); } 
-    catch (err: any) { alert('刪除失敗'); }
+  const handleUndoDelete = () => {
+    undoExpenses?.forEach(handleRestoreExpense);
+    setUndoExpenses(null);
+  };
+
+  const dismissUndo = useCallback(() => setUndoExpenses(null), []);
+
+  // 批次修改先套用到畫面，再以單一批次寫入排入同步佇列；離線時不必等待伺服器確認
+  const handleBulkUpdate = async (updates: ExpenseUpdate[]) => {
+    if (!user) return;
+    enqueueBatch(updates);
+    const byId = new Map<string, Expense>(expenses.map(e => [e.id, e]));
+    updates.forEach(({ id, changes }) => {
+      const current = byId.get(id);
+      if (current) applyLocal({ upsert: { ...current, ...changes } });
+    });
+  };
+
+  const handleBulkDelete = async (ids: string[]) => {
+    const deletedAt = Date.now();
+    const deleted = expenses.filter(e => ids.includes(e.id));
+    await handleBulkUpdate(deleted.map(e => ({ id: e.id, changes: { deletedAt } })));
+    setUndoExpenses(deleted);
+  };
+
+  const handleLoadTrash = useCallback(
+    () => (user ? repository.expenses.listTrashed(user.uid) : Promise.resolve([])),
+    [repository, user]
+  );
+
+  const handlePurgeExpense = (id: string) => {
+    if (!user) return;
+    enqueue('delete', id);
+    applyLocal({ removeId: id });
+  };
+
+  const handleEmptyTrash = async (ids: string[]) => {
+    if (!user) return;
+    await repository.expenses.removeMany(user.uid, ids);
+    ids.forEach(id => applyLocal({ removeId: id }));
   };
 
   if (loading) {
     return (
       <div className="flex h-screen w-full flex-col items-center justify-center bg-background p-10">
         <div className="w-16 h-16 border-4 border-primary/20 border-t-primary rounded-full animate-spin"></div>
-        <p className="mt-4 text-primary font-bold animate-pulse">正在同步帳戶狀態...</p>
+        <p className="mt-4 text-primary font-bold animate-pulse">{t('app.loading')}</p>
       </div>
     );
   }
@@ -187,26 +576,44 @@ const App: React.FC = () => {
       return (
         <div className="flex-1 flex flex-col items-center justify-center p-8 text-center bg-white m-6 rounded-[32px]">
           <span className="material-symbols-outlined text-4xl text-primary mb-4">settings</span>
-          <h2 className="font-bold text-xl mb-2">需要建立資料庫索引</h2>
-          <a href={indexUrl} target="_blank" rel="noopener noreferrer" className="bg-primary text-white p-4 rounded-xl">前往設定</a>
+          <h2 className="font-bold text-xl mb-2">{t('app.indexRequired')}</h2>
+          <a href={indexUrl} target="_blank" rel="noopener noreferrer" className="bg-primary text-white p-4 rounded-xl">{t('app.openIndexSettings')}</a>
         </div>
       );
     }
     switch (view) {
       case 'LOGIN': return <Login onLogin={handleLogin} onNavigate={handleNavigate} />;
       case 'REGISTER': return <Register onRegister={handleLogin} onNavigate={handleNavigate} />;
-      case 'WELCOME': return <Welcome user={user} onConfirm={() => setView('DASHBOARD')} />;
-      case 'DASHBOARD': return <Dashboard user={user} expenses={expenses} onDelete={handleDeleteExpense} onEdit={(ex) => {setEditingExpense(ex); setView('EDIT_EXPENSE');}} onNavigateToAdd={() => setView('ADD_EXPENSE')} />;
-      case 'REPORT': return <Report expenses={expenses} budget={budget} onUpdateBudget={handleUpdateBudget} />;
-      case 'ADD_EXPENSE': return <ExpenseForm title="新增支出" onSave={handleAddExpense} />;
-      case 'EDIT_EXPENSE': return editingExpense ? <ExpenseForm title="編輯支出" initialExpense={editingExpense} onSave={handleUpdateExpense} /> : null;
+      case 'WELCOME': return <Welcome user={user} onConfirm={() => navigate({ view: 'DASHBOARD' }, { replace: true })} />;
+      case 'DASHBOARD': return <Dashboard user={user} expenses={expenses} categories={categories} categoryBudgets={categoryBudgets} onDelete={handleDeleteExpense} onOpenTrash={() => navigate({ view: 'TRASH' })} onOpenAccounts={() => navigate({ view: 'ACCOUNTS' })} accounts={accounts} onBulkUpdate={handleBulkUpdate} onBulkDelete={handleBulkDelete} onEdit={(ex) => {setEditingExpense(ex); navigate({ view: 'EDIT_EXPENSE', expenseId: ex.id });}} onNavigateToAdd={() => navigate({ view: 'ADD_EXPENSE' })} hasMore={hasMore} loadingMore={loadingMore} onLoadMore={loadMore} onRequestRange={ensureRange} pendingIds={pendingIds} syncStatus={syncStatus} budgetCycle={budgetCycle} invalidCount={userInvalidDocuments.length} onReviewInvalid={() => navigate({ view: 'SETTINGS' })} />;
+      case 'REPORT': return <Report expenses={expenses} categories={categories} budget={budget} categoryBudgets={categoryBudgets} onUpdateBudget={handleUpdateBudget} onUpdateCategoryBudget={handleUpdateCategoryBudget} onRequestRange={ensureRange} recurringRules={recurringRules} onManageRecurring={() => navigate({ view: 'RECURRING' })} budgetCycle={budgetCycle} onUpdateBudgetCycle={handleUpdateBudgetCycle} rolloverSince={rolloverSince} periodRecords={periodRecords ?? []} onToggleRollover={handleToggleRollover} goals={goals ?? []} onManageGoals={() => navigate({ view: 'GOALS' })} periodKey={route.periodKey} onPeriodChange={(periodKey) => navigate({ view: 'REPORT', periodKey }, { replace: true })} />;
+      case 'ADD_EXPENSE': return <ExpenseForm title={t('title.addExpense')} categories={categories} expenses={expenses} categoryBudgets={categoryBudgets} budgetCycle={budgetCycle} defaultCategory={preferences.defaultCategory} accounts={accounts} savedDraft={formDraft && !formDraft.expenseId ? formDraft.draft : undefined} onManageAccounts={(draft) => { setFormDraft({ draft }); navigate({ view: 'ACCOUNTS' }); }} onSave={handleAddExpense} />;
+      case 'EDIT_EXPENSE': return editingExpense ? <ExpenseForm title={t('title.editExpense')} categories={categories} expenses={expenses} categoryBudgets={categoryBudgets} budgetCycle={budgetCycle} initialExpense={editingExpense} accounts={accounts} savedDraft={formDraft?.expenseId === editingExpense.id ? formDraft.draft : undefined} onManageAccounts={(draft) => { setFormDraft({ expenseId: editingExpense.id, draft }); navigate({ view: 'ACCOUNTS' }); }} onSave={handleUpdateExpense} /> : null;
+      case 'CATEGORIES': return <Categories categories={categories} onSave={handleSaveCategory} onReorder={handleReorderCategories} />;
+      case 'RECURRING': return <Recurring rules={recurringRules} categories={categories} accounts={accounts} onSave={handleSaveRecurring} onDelete={handleDeleteRecurring} />;
+      case 'GOALS': return <Goals goals={goals ?? []} onSave={handleSaveGoal} onDelete={handleDeleteGoal} onContribute={handleContributeGoal} />;
+      case 'TRASH': return <Trash categories={categories} onLoad={handleLoadTrash} onRestore={handleRestoreExpense} onPurge={handlePurgeExpense} onEmpty={handleEmptyTrash} />;
+      case 'ACCOUNTS': return <Accounts accounts={accounts} transfers={transfers} expenses={expenses} onSaveAccount={handleSaveAccount} onSaveTransfer={handleSaveTransfer} onDeleteTransfer={handleDeleteTransfer} onRequestRange={ensureRange} />;
+      case 'SETTINGS': return user ? <Settings user={user} categories={categories} preferences={preferences} onUpdateProfile={handleUpdateProfile} onUpdatePreferences={handleUpdatePreferences} onDeleteAccount={handleDeleteAccount} invalidDocuments={userInvalidDocuments} onMigrateData={handleMigrateData} /> : null;
+      case 'DATA': return <DataTransfer expenses={expenses} categories={categories} accounts={accounts} onImport={handleImportExpenses} onRequestRange={ensureRange} />;
       default: return null;
     }
   };
 
+  const titleKey = VIEW_TITLES[view];
+
   return (
-    <Layout user={user} currentView={view} onNavigate={handleNavigate} onLogout={handleLogout} title={view.includes('EXPENSE') ? '編輯支出' : view === 'REPORT' ? '支出分析' : undefined} showBack={view.includes('EXPENSE')}>
+    <Layout user={user} currentView={view} onNavigate={handleNavigate} onLogout={handleLogout} onBack={goBack} title={titleKey && t(titleKey)} showBack={view.includes('EXPENSE')}>
       {renderContent()}
+      {undoExpenses && undoExpenses.length > 0 && (
+        <UndoSnackbar
+          key={undoExpenses.map(e => e.id).join()}
+          message={undoExpenses.length === 1 ? t('common.deleted', { description: undoExpenses[0].description }) : t('bulk.deleted', { count: undoExpenses.length })}
+          onUndo={handleUndoDelete}
+          onDismiss={dismissUndo}
+        />
+      )}
+      {updateAvailable && <UpdatePrompt onReload={applyUpdate} onDismiss={dismissUpdate} />}
     </Layout>
   );
 };
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { BudgetCycle, CustomCycleRange } from '../types';
+import { formatMoney } from '../services/currency';
+import { MessageKey } from '../services/locales/zh-TW';
+import { t } from '../services/i18n';
+
+interface BudgetCycleSettingsProps {
+  cycle: BudgetCycle;
+  onSave: (cycle: BudgetCycle) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+const CYCLE_KINDS: Array<{ kind: BudgetCycle['kind']; label: MessageKey; hint: MessageKey }> = [
+  { kind: 'calendar', label: 'period.cycleCalendar', hint: 'cycle.calendarHint' },
+  { kind: 'startDay', label: 'cycle.startDay', hint: 'cycle.startDayHint' },
+  { kind: 'custom', label: 'cycle.custom', hint: 'cycle.customHint' },
+];
+
+const BudgetCycleSettings: React.FC<BudgetCycleSettingsProps> = ({ cycle, onSave, onClose }) => {
+  const [kind, setKind] = useState<BudgetCycle['kind']>(cycle.kind);
+  const [day, setDay] = useState(cycle.kind === 'startDay' ? cycle.day : 5);
+  const [ranges, setRanges] = useState<CustomCycleRange[]>(cycle.kind === 'custom' ? cycle.ranges : []);
+  const [newLabel, setNewLabel] = useState('');
+  const [newStart, setNewStart] = useState('');
+  const [newEnd, setNewEnd] = useState('');
+  const [newBudget, setNewBudget] = useState('');
+
+  const handleAddRange = () => {
+    const label = newLabel.trim();
+    if (!label || !newStart || !newEnd) { alert(t('cycle.errorRangeMissing')); return; }
+    const start = fromDateInput(newStart);
+    const end = fromDateInput(newEnd) + DAY_MS;
+    if (end <= start) { alert(t('cycle.errorRangeOrder')); return; }
+    if (ranges.some(r => start < r.end && r.start < end)) { alert(t('cycle.errorRangeOverlap')); return; }
+    const budget = parseFloat(newBudget);
+    const range: CustomCycleRange = { id: Date.now().toString(36), label, start, end };
+    if (budget > 0) range.budget = budget;
+    setRanges([...ranges, range].sort((a, b) => a.start - b.start));
+    setNewLabel('');
+    setNewStart('');
+    setNewEnd('');
+    setNewBudget('');
+  };
+
+  const handleSave = () => {
+    if (kind === 'custom' && ranges.length === 0) { alert(t('cycle.errorNoRanges')); return; }
+    onSave(kind === 'startDay' ? { kind, day } : kind === 'custom' ? { kind, ranges } : { kind: 'calendar' });
+    onClose();
+  };
+
+  return (
+    <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 mb-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-text-main text-base font-bold tracking-tight">{t('cycle.title')}</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-primary">
+          <span className="material-symbols-outlined text-lg">close</span>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {CYCLE_KINDS.map(option => (
+          <label key={option.kind} className={`flex items-start gap-3 p-3 rounded-2xl border cursor-pointer ${kind === option.kind ? 'border-primary bg-primary-light/30' : 'border-slate-100'}`}>
+            <input type="radio" checked={kind === option.kind} onChange={() => setKind(option.kind)} className="mt-1 accent-primary" />
+            <div>
+              <p className="text-text-main text-sm font-bold">{t(option.label)}</p>
+              <p className="text-slate-400 text-xs">{t(option.hint)}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {kind === 'startDay' && (
+        <div className="flex items-center gap-2 text-sm text-text-main">
+          {t('cycle.startDayPrefix')}
+          <select
+            value={day}
+            onChange={(e) => setDay(Number(e.target.value))}
+            className="bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 outline-none"
+          >
+            {Array.from({ length: 31 }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}</option>)}
+          </select>
+          {t('cycle.startDaySuffix')}
+        </div>
+      )}
+
+      {kind === 'custom' && (
+        <div className="space-y-3">
+          {ranges.map(range => (
+            <div key={range.id} className="flex items-center justify-between bg-slate-50 rounded-2xl p-3 text-sm">
+              <div>
+                <p className="text-text-main font-bold">{range.label}</p>
+                <p className="text-slate-400 text-xs">
+                  {toDateInput(range.start)} ~ {toDateInput(range.end - DAY_MS)}
+                  {range.budget ? t('cycle.rangeBudget', { amount: formatMoney(range.budget) }) : ''}
+                </p>
+              </div>
+              <button onClick={() => setRanges(ranges.filter(r => r.id !== range.id))} className="text-slate-300 hover:text-red-400 p-1" title={t('common.remove')}>
+                <span className="material-symbols-outlined text-[20px]">delete_outline</span>
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              className="col-span-2 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm outline-none"
+              placeholder={t('cycle.rangeName')}
+            />
+            <input type="date" value={newStart} onChange={(e) => setNewStart(e.target.value)} className="bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm outline-none" />
+            <input type="date" value={newEnd} onChange={(e) => setNewEnd(e.target.value)} className="bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm outline-none" />
+            <input
+              type="number"
+              value={newBudget}
+              onChange={(e) => setNewBudget(e.target.value)}
+              className="bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm outline-none"
+              placeholder={t('cycle.rangeBudgetPlaceholder')}
+            />
+            <button onClick={handleAddRange} className="bg-primary-light text-primary font-bold rounded-xl py-2 text-sm flex items-center justify-center gap-1">
+              <span className="material-symbols-outlined text-base">add</span>
+              {t('cycle.addRange')}
+            </button>
+          </div>
+          <p className="text-slate-400 text-xs">{t('cycle.uncoveredHint')}</p>
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 active:scale-[0.98] transition-all"
+      >
+        {t('common.save')}
+      </button>
+    </div>
+  );
+};
+
+export default BudgetCycleSettings;
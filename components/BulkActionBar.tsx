@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { t } from '../services/i18n';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  filteredCount: number; // 目前篩選結果的筆數，用於全選
+  categories: Category[];
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onRecategorise: (item: string) => void;
+  onChangeDate: (date: string) => void; // YYYY-MM-DD
+  onDelete: () => void;
+  onExport: () => void;
+}
+
+type Panel = 'category' | 'date' | null;
+
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedCount, filteredCount, categories, busy, onSelectAll, onClear, onRecategorise, onChangeDate, onDelete, onExport }) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [item, setItem] = useState('');
+  const [date, setDate] = useState('');
+
+  const disabled = busy || selectedCount === 0;
+  const usable = categories.filter(c => !c.archived);
+
+  const togglePanel = (next: Panel) => setPanel(current => (current === next ? null : next));
+
+  const actionBase = 'flex flex-col items-center gap-0.5 text-[10px] font-bold disabled:opacity-40 transition-colors';
+  const actionClass = `${actionBase} text-white/80 hover:text-white`;
+  const inputClass = 'flex-1 min-w-0 bg-white/10 border border-white/20 rounded-xl py-2 px-3 text-sm text-white outline-none focus:border-white';
+
+  return (
+    <div className="fixed bottom-28 left-0 right-0 max-w-[480px] mx-auto px-6 z-40 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="bg-text-main text-white rounded-[24px] shadow-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between text-xs font-bold">
+          <span>{t('bulk.selectedCount', { count: selectedCount })}</span>
+          <div className="flex items-center gap-3">
+            <button onClick={onSelectAll} disabled={busy || filteredCount === 0} className="text-primary-soft disabled:opacity-40">{t('bulk.selectAll', { count: filteredCount })}</button>
+            {selectedCount > 0 && <button onClick={onClear} disabled={busy} className="text-white/60 disabled:opacity-40">{t('bulk.clear')}</button>}
+          </div>
+        </div>
+
+        {panel === 'category' && (
+          <div className="flex gap-2">
+            <select value={item} onChange={(e) => setItem(e.target.value)} className={inputClass}>
+              <option value="" className="text-text-main">{t('form.pickItem')}</option>
+              {usable.map(c => (
+                <option key={c.id} value={c.id} className="text-text-main">{c.kind === 'income' ? t('dashboard.incomePrefix') : ''}{c.label}</option>
+              ))}
+            </select>
+            <button onClick={() => { if (item) { onRecategorise(item); setPanel(null); } }} disabled={disabled || !item} className="bg-primary text-white font-bold rounded-xl px-4 text-sm disabled:opacity-40">{t('bulk.apply')}</button>
+          </div>
+        )}
+        {panel === 'date' && (
+          <div className="flex gap-2">
+            <input type="date" value={date} max={toDateInput(Date.now())} onChange={(e) => setDate(e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+            <button onClick={() => { if (date) { onChangeDate(date); setPanel(null); } }} disabled={disabled || !date} className="bg-primary text-white font-bold rounded-xl px-4 text-sm disabled:opacity-40">{t('bulk.apply')}</button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-4 gap-2 pt-1">
+          <button onClick={() => togglePanel('category')} disabled={disabled} className={actionClass}>
+            <span className="material-symbols-outlined text-xl">category</span>
+            {t('bulk.recategorise')}
+          </button>
+          <button onClick={() => togglePanel('date')} disabled={disabled} className={actionClass}>
+            <span className="material-symbols-outlined text-xl">event</span>
+            {t('bulk.changeDate')}
+          </button>
+          <button onClick={onExport} disabled={disabled} className={actionClass}>
+            <span className="material-symbols-outlined text-xl">download</span>
+            {t('bulk.export')}
+          </button>
+          <button onClick={onDelete} disabled={disabled} className={`${actionBase} text-red-300 hover:text-red-200`}>
+            <span className="material-symbols-outlined text-xl">delete</span>
+            {t('common.delete')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionBar;
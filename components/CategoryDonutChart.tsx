@@ -0,0 +1,61 @@
+import React from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { formatMoney } from '../services/currency';
+import { t } from '../services/i18n';
+
+interface DonutSlice {
+  name: string;
+  label: string;
+  color: string;
+  value: number;
+}
+
+interface CategoryDonutChartProps {
+  data: DonutSlice[];
+  total: number;
+  selected: string | null;
+  onSelect: (name: string | null) => void;
+}
+
+const CategoryDonutChart: React.FC<CategoryDonutChartProps> = ({ data, total, selected, onSelect }) => {
+  const slices = data.filter(d => d.value > 0);
+
+  return (
+    <div className="relative h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie
+            data={slices}
+            dataKey="value"
+            nameKey="label"
+            innerRadius="60%"
+            outerRadius="90%"
+            paddingAngle={2}
+            stroke="none"
+            onClick={(_, idx) => onSelect(slices[idx].name === selected ? null : slices[idx].name)}
+          >
+            {slices.map(slice => (
+              <Cell
+                key={slice.name}
+                fill={slice.color}
+                opacity={selected && selected !== slice.name ? 0.25 : 1}
+                className="cursor-pointer outline-none"
+              />
+            ))}
+          </Pie>
+          <Tooltip formatter={(value: number) => `${formatMoney(value)}`} />
+        </PieChart>
+      </ResponsiveContainer>
+      <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+        <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider">
+          {selected ? slices.find(s => s.name === selected)?.label : t('chart.totalSpent')}
+        </p>
+        <p className="text-text-main text-2xl font-black">
+          {formatMoney(selected ? slices.find(s => s.name === selected)?.value || 0 : total)}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryDonutChart;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Category, Expense, PaymentAccount } from '../types';
+import { resolveCategory } from '../services/categories';
+import { isIncome } from '../services/stats';
+import { accountName } from '../services/accounts';
+import { currencySymbol } from '../services/currency';
+import { formatNumber, formatTime, t } from '../services/i18n';
+
+interface ExpenseRowProps {
+  expense: Expense;
+  categories: Category[];
+  accounts?: PaymentAccount[];
+  onEdit: (expense: Expense) => void;
+  onDelete: (id: string) => void;
+  pending?: boolean; // 尚未同步到雲端
+  onSelectTag?: (tag: string) => void;
+  // 選取模式：點整列切換選取，隱藏編輯與刪除按鈕
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void;
+}
+
+const ExpenseRow: React.FC<ExpenseRowProps> = ({ expense, categories, accounts, onEdit, onDelete, pending, onSelectTag, selected, onToggleSelect }) => {
+  const category = resolveCategory(categories, expense.item);
+  const income = isIncome(expense);
+  const account = expense.account ? accounts?.find(a => a.id === expense.account) : undefined;
+
+  return (
+    <div
+      onClick={onToggleSelect && (() => onToggleSelect(expense.id))}
+      className={`group bg-white rounded-[24px] p-4 flex items-center justify-between shadow-sm border transition-all hover:shadow-md ${onToggleSelect ? 'cursor-pointer' : ''} ${selected ? 'border-primary ring-2 ring-primary/20' : income ? 'border-emerald-100 hover:border-emerald-200' : 'border-transparent hover:border-primary/10'}`}
+    >
+      <div className="flex items-center gap-4 min-w-0">
+        <div
+          className="flex items-center justify-center rounded-2xl size-12 shrink-0 transition-all group-hover:scale-110"
+          style={{ backgroundColor: `${category.color}15`, color: category.color }}
+        >
+          <span className="material-symbols-outlined text-xl">{category.icon}</span>
+        </div>
+        <div className="min-w-0">
+          <div className={`flex items-baseline gap-1 ${income ? 'text-emerald-500' : 'text-text-main'}`}>
+            <span className="text-xs font-bold">{income ? '+' : ''}{currencySymbol()}</span>
+            <p className="text-xl font-extrabold leading-none">{formatNumber(expense.amount)}</p>
+          </div>
+          <p className="text-slate-500 text-xs font-medium mt-1 truncate">
+            <span className={`font-bold ${income ? 'text-emerald-500/80' : 'text-primary/70'}`}>{category.label}</span>
+            <span className="mx-1.5 opacity-20">•</span>
+            {expense.description}
+          </p>
+          {expense.tags && expense.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {expense.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={(e) => { e.stopPropagation(); onSelectTag?.(tag); }}
+                  disabled={!onSelectTag || !!onToggleSelect}
+                  className="bg-primary-light text-primary text-[10px] font-bold px-2 py-0.5 rounded-full hover:bg-primary-soft transition-colors disabled:hover:bg-primary-light"
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2 mt-0.5">
+            <p className="text-slate-300 text-[10px] font-medium">
+              {formatTime(expense.timestamp, { hour: '2-digit', minute: '2-digit' })}
+              {account && <span className="ml-1.5">・{accountName(account)}</span>}
+            </p>
+            <p className="text-slate-200 text-[9px] font-mono tracking-tighter">ID: {expense.id.slice(-6).toUpperCase()}</p>
+            {pending && (
+              <span className="flex items-center gap-0.5 text-amber-500 text-[10px] font-bold" title={t('sync.pendingHint')}>
+                <span className="material-symbols-outlined text-[12px]">cloud_upload</span>
+                {t('sync.pending')}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+      {onToggleSelect ? (
+        <span className={`material-symbols-outlined text-2xl shrink-0 ${selected ? 'text-primary' : 'text-slate-200'}`} style={{ fontVariationSettings: selected ? "'FILL' 1" : '' }}>
+          {selected ? 'check_circle' : 'radio_button_unchecked'}
+        </span>
+      ) : (
+      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={() => onEdit(expense)}
+          className="text-slate-300 hover:text-primary p-2 transition-colors"
+          title={t('common.edit')}
+        >
+          <span className="material-symbols-outlined text-[20px]">edit_note</span>
+        </button>
+        <button
+          onClick={() => onDelete(expense.id)}
+          className="text-slate-300 hover:text-red-400 p-2 transition-colors"
+          title={t('common.delete')}
+        >
+          <span className="material-symbols-outlined text-[20px]">delete_outline</span>
+        </button>
+      </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpenseRow;
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { User, AppView } from '../types';
+import { t } from '../services/i18n';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -8,6 +9,7 @@ interface LayoutProps {
   currentView: AppView;
   onNavigate: (view: AppView) => void;
   onLogout: () => void;
+  onBack: () => void;
   title?: string;
   showBack?: boolean;
 }
@@ -18,6 +20,7 @@ const Layout: React.FC<LayoutProps> = ({
   currentView, 
   onNavigate, 
   onLogout, 
+  onBack,
   title, 
   showBack 
 }) => {
@@ -31,14 +34,14 @@ const Layout: React.FC<LayoutProps> = ({
           <div className="flex items-center p-4 px-6 justify-between">
             {showBack ? (
               <button 
-                onClick={() => onNavigate('DASHBOARD')}
+                onClick={onBack}
                 className="text-primary flex size-10 items-center justify-start"
               >
                 <span className="material-symbols-outlined text-2xl font-bold">arrow_back_ios_new</span>
               </button>
             ) : (
-              <div className="flex flex-col">
-                <p className="text-[9px] text-primary/50 font-black uppercase tracking-[0.2em] mb-1">極簡化記帳系統</p>
+              <button onClick={() => onNavigate('SETTINGS')} className="flex flex-col text-left" title={t('title.settings')}>
+                <p className="text-[9px] text-primary/50 font-black uppercase tracking-[0.2em] mb-1">{t('app.name')}</p>
                 <div className="flex items-center gap-2">
                   <div className="flex items-center justify-center rounded-full size-8 bg-primary-light text-primary border border-primary-soft overflow-hidden shadow-sm">
                     {user?.photoURL ? (
@@ -53,7 +56,7 @@ const Layout: React.FC<LayoutProps> = ({
                     {user?.displayName || user?.email.split('@')[0]}
                   </h2>
                 </div>
-              </div>
+              </button>
             )}
             
             {title && <h2 className="text-text-main text-lg font-bold leading-tight absolute left-1/2 -translate-x-1/2">{title}</h2>}
@@ -64,7 +67,7 @@ const Layout: React.FC<LayoutProps> = ({
                 className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-blue-50 text-primary hover:bg-blue-100 transition-colors"
               >
                 <span className="material-symbols-outlined text-lg">logout</span>
-                <span className="text-xs font-bold">登出</span>
+                <span className="text-xs font-bold">{t('nav.logout')}</span>
               </button>
             )}
             {showBack && <div className="size-10"></div>}
@@ -79,20 +82,41 @@ const Layout: React.FC<LayoutProps> = ({
 
       {/* Footer Navigation */}
       {!isAuthPage && currentView !== 'ADD_EXPENSE' && currentView !== 'EDIT_EXPENSE' && (
-        <nav className="fixed bottom-0 left-0 right-0 max-w-[480px] mx-auto ios-blur bg-white/90 border-t border-blue-50 px-12 pt-3 pb-8 flex items-center justify-around z-40">
+        <nav className="fixed bottom-0 left-0 right-0 max-w-[480px] mx-auto ios-blur bg-white/90 border-t border-blue-50 px-6 pt-3 pb-8 flex items-center justify-around z-40">
           <button 
             onClick={() => onNavigate('DASHBOARD')}
-            className={`flex flex-col items-center gap-1 w-20 transition-colors ${currentView === 'DASHBOARD' ? 'text-primary' : 'text-slate-300'}`}
+            className={`flex flex-col items-center gap-1 w-16 transition-colors ${currentView === 'DASHBOARD' ? 'text-primary' : 'text-slate-300'}`}
           >
             <span className={`material-symbols-outlined`} style={{ fontVariationSettings: currentView === 'DASHBOARD' ? "'FILL' 1" : "" }}>history</span>
-            <span className="text-[10px] font-bold">紀錄</span>
+            <span className="text-[10px] font-bold">{t('nav.dashboard')}</span>
           </button>
           <button 
             onClick={() => onNavigate('REPORT')}
-            className={`flex flex-col items-center gap-1 w-20 transition-colors ${currentView === 'REPORT' ? 'text-primary' : 'text-slate-300'}`}
+            className={`flex flex-col items-center gap-1 w-16 transition-colors ${currentView === 'REPORT' ? 'text-primary' : 'text-slate-300'}`}
           >
             <span className="material-symbols-outlined" style={{ fontVariationSettings: currentView === 'REPORT' ? "'FILL' 1" : "" }}>bar_chart</span>
-            <span className="text-[10px] font-bold">報表</span>
+            <span className="text-[10px] font-bold">{t('nav.report')}</span>
+          </button>
+          <button 
+            onClick={() => onNavigate('GOALS')}
+            className={`flex flex-col items-center gap-1 w-16 transition-colors ${currentView === 'GOALS' ? 'text-primary' : 'text-slate-300'}`}
+          >
+            <span className="material-symbols-outlined" style={{ fontVariationSettings: currentView === 'GOALS' ? "'FILL' 1" : "" }}>savings</span>
+            <span className="text-[10px] font-bold">{t('nav.goals')}</span>
+          </button>
+          <button 
+            onClick={() => onNavigate('CATEGORIES')}
+            className={`flex flex-col items-center gap-1 w-16 transition-colors ${currentView === 'CATEGORIES' ? 'text-primary' : 'text-slate-300'}`}
+          >
+            <span className="material-symbols-outlined" style={{ fontVariationSettings: currentView === 'CATEGORIES' ? "'FILL' 1" : "" }}>category</span>
+            <span className="text-[10px] font-bold">{t('nav.categories')}</span>
+          </button>
+          <button 
+            onClick={() => onNavigate('DATA')}
+            className={`flex flex-col items-center gap-1 w-16 transition-colors ${currentView === 'DATA' ? 'text-primary' : 'text-slate-300'}`}
+          >
+            <span className="material-symbols-outlined" style={{ fontVariationSettings: currentView === 'DATA' ? "'FILL' 1" : "" }}>import_export</span>
+            <span className="text-[10px] font-bold">{t('nav.data')}</span>
           </button>
         </nav>
       )}
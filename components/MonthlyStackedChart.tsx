@@ -0,0 +1,42 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Category } from '../types';
+import { formatMoney } from '../services/currency';
+
+interface MonthlyStackedChartProps {
+  data: Array<{ key: string; label: string } & Record<string, number | string>>;
+  categories: Category[]; // 出現在資料中的分類，決定堆疊順序與顏色
+  onSelectMonth: (key: string) => void;
+}
+
+const MonthlyStackedChart: React.FC<MonthlyStackedChartProps> = ({ data, categories, onSelectMonth }) => (
+  <div className="h-64">
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart
+        data={data}
+        margin={{ top: 8, right: 8, left: -16, bottom: 0 }}
+        onClick={(state) => {
+          const idx = state?.activeTooltipIndex;
+          if (typeof idx === 'number' && data[idx]) onSelectMonth(data[idx].key);
+        }}
+      >
+        <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} tickLine={false} axisLine={false} />
+        <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} tickLine={false} axisLine={false} />
+        <Tooltip formatter={(value: number) => `${formatMoney(value)}`} cursor={{ fill: '#EFF6FF' }} />
+        {categories.map((category, idx) => (
+          <Bar
+            key={category.id}
+            dataKey={category.id}
+            name={category.label}
+            stackId="total"
+            fill={category.color}
+            radius={idx === categories.length - 1 ? [6, 6, 0, 0] : undefined}
+            className="cursor-pointer"
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export default MonthlyStackedChart;
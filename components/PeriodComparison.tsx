@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { PeriodSummary } from '../services/stats';
+import { resolveCategory } from '../services/categories';
+import { formatMoney } from '../services/currency';
+import { t } from '../services/i18n';
+
+interface ComparisonTarget {
+  label: string;
+  summary: PeriodSummary;
+}
+
+interface PeriodComparisonProps {
+  current: PeriodSummary;
+  targets: ComparisonTarget[];
+  categories: Category[];
+}
+
+// 支出增加以橘色標示，減少以綠色標示
+const ChangeBadge: React.FC<{ current: number; base: number }> = ({ current, base }) => {
+  const diff = current - base;
+  if (diff === 0) return <span className="text-slate-400 text-xs font-bold">{t('comparison.unchanged')}</span>;
+  const percent = base > 0 ? ` (${diff > 0 ? '+' : ''}${Math.round((diff / base) * 100)}%)` : '';
+  return (
+    <span className={`text-xs font-bold ${diff > 0 ? 'text-orange-500' : 'text-emerald-500'}`}>
+      {diff > 0 ? '+' : '-'}{formatMoney(Math.abs(diff))}{percent}
+    </span>
+  );
+};
+
+const PeriodComparison: React.FC<PeriodComparisonProps> = ({ current, targets, categories }) => {
+  const [activeIdx, setActiveIdx] = useState(0);
+  const target = targets[activeIdx];
+
+  const items = Array.from(new Set([...Object.keys(current.byCategory), ...Object.keys(target.summary.byCategory)]))
+    .map(item => ({
+      item,
+      category: resolveCategory(categories, item),
+      current: current.byCategory[item] || 0,
+      base: target.summary.byCategory[item] || 0,
+    }))
+    .sort((a, b) => Math.abs(b.current - b.base) - Math.abs(a.current - a.base));
+
+  return (
+    <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-text-main text-xl font-black tracking-tight">{t('comparison.title')}</h3>
+        <div className="flex bg-slate-50 p-1 rounded-full">
+          {targets.map((option, idx) => (
+            <button
+              key={option.label}
+              onClick={() => setActiveIdx(idx)}
+              className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${activeIdx === idx ? 'bg-primary text-white shadow' : 'text-slate-400'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-end justify-between border-b border-slate-50 pb-5 mb-5">
+        <div>
+          <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('comparison.totalChange')}</p>
+          <ChangeBadge current={current.total} base={target.summary.total} />
+        </div>
+        <p className="text-slate-400 text-xs font-medium">
+          {formatMoney(target.summary.total)} → {formatMoney(current.total)}
+        </p>
+      </div>
+
+      {items.length > 0 ? (
+        <div className="space-y-4">
+          {items.map(({ item, category, current: now, base }) => (
+            <div key={item} className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <span className="material-symbols-outlined text-lg" style={{ color: category.color }}>{category.icon}</span>
+                <span className="text-sm font-bold text-text-main">{category.label}</span>
+              </div>
+              <div className="text-right">
+                <ChangeBadge current={now} base={base} />
+                <p className="text-slate-300 text-[10px] font-medium">{formatMoney(base)} → {formatMoney(now)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-slate-400 text-sm text-center py-4">{t('comparison.empty')}</p>
+      )}
+    </div>
+  );
+};
+
+export default PeriodComparison;
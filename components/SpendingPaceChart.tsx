@@ -0,0 +1,29 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { PacePoint } from '../services/stats';
+import { formatMoney } from '../services/currency';
+import { t } from '../services/i18n';
+
+interface SpendingPaceChartProps {
+  data: PacePoint[];
+}
+
+const SpendingPaceChart: React.FC<SpendingPaceChartProps> = ({ data }) => (
+  <div className="h-56">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+        <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} tickLine={false} axisLine={false} interval="preserveStartEnd" />
+        <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} tickLine={false} axisLine={false} />
+        <Tooltip
+          formatter={(value: number) => `${formatMoney(value)}`}
+          labelFormatter={(label) => t('chart.day', { day: label })}
+        />
+        <Legend iconType="plainline" wrapperStyle={{ fontSize: 11 }} />
+        <Line type="monotone" dataKey="spent" name={t('chart.cumulative')} stroke="#135bec" strokeWidth={3} dot={false} connectNulls={false} />
+        <Line type="linear" dataKey="pace" name={t('chart.pace')} stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export default SpendingPaceChart;
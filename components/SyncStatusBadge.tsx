@@ -0,0 +1,32 @@
+import React from 'react';
+import { SyncStatus } from '../hooks/useSyncQueue';
+import { MessageKey } from '../services/locales/zh-TW';
+import { t } from '../services/i18n';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+  pendingCount: number;
+}
+
+const STATUS_STYLE: Record<SyncStatus, { label: MessageKey; icon: string; className: string }> = {
+  online: { label: 'sync.online', icon: 'cloud_done', className: 'bg-primary text-white shadow-primary/20' },
+  syncing: { label: 'sync.syncing', icon: 'cloud_sync', className: 'bg-amber-400 text-white shadow-amber-400/20' },
+  offline: { label: 'sync.offline', icon: 'cloud_off', className: 'bg-slate-400 text-white shadow-slate-400/20' },
+};
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, pendingCount }) => {
+  const style = STATUS_STYLE[status];
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <span className={`flex items-center gap-1 text-[10px] font-black px-3 py-1 rounded-full uppercase tracking-widest shadow-lg ${style.className}`}>
+        <span className={`material-symbols-outlined text-[14px] ${status === 'syncing' ? 'animate-pulse' : ''}`}>{style.icon}</span>
+        {t(style.label)}
+      </span>
+      {pendingCount > 0 && (
+        <span className="text-[10px] font-bold text-slate-400">{t('sync.pendingCount', { count: pendingCount })}</span>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusBadge;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { normalizeTag, normalizeTags } from '../services/tags';
+import { t } from '../services/i18n';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[]; // 用過的標籤，依常用程度排序
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange }) => {
+  const [text, setText] = useState('');
+
+  const addTag = (raw: string) => {
+    if (normalizeTag(raw)) onChange(normalizeTags([...tags, raw]));
+    setText('');
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter(existing => existing !== tag));
+
+  // Enter 或逗號新增標籤，輸入框為空時按刪除鍵移除最後一個
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === 'Enter' || e.key === ',' || e.key === '，') {
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const query = normalizeTag(text).toLowerCase();
+  const selected = new Set(tags.map(tag => tag.toLowerCase()));
+  const matches = suggestions
+    .filter(tag => !selected.has(tag.toLowerCase()) && tag.toLowerCase().includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 bg-primary-light/30 border border-primary-soft rounded-2xl p-3 focus-within:border-primary focus-within:bg-white transition-all">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-0.5 bg-primary text-white text-xs font-bold pl-3 pr-1.5 py-1 rounded-full">
+            #{tag}
+            <button type="button" onClick={() => removeTag(tag)} className="flex items-center opacity-70 hover:opacity-100" title={t('common.remove')}>
+              <span className="material-symbols-outlined text-[14px]">close</span>
+            </button>
+          </span>
+        ))}
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => { if (text.trim()) addTag(text); }}
+          className="flex-1 min-w-[8rem] bg-transparent border-none p-1 text-sm text-text-main placeholder:text-blue-300 focus:ring-0 outline-none"
+          placeholder={t('form.tagPlaceholder')}
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {matches.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              // 避免輸入框先失去焦點而把尚未完成的文字加成標籤
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="bg-white text-primary border border-primary-soft text-xs font-bold px-3 py-1 rounded-full hover:bg-primary-light transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
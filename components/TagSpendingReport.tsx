@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Expense } from '../types';
+import { Period } from '../services/period';
+import { spendingByTag } from '../services/tags';
+import { formatMoney } from '../services/currency';
+import { t } from '../services/i18n';
+
+interface TagSpendingReportProps {
+  expenses: Expense[];
+  period: Period; // 預設的統計區間，切換期間時重設
+  onRequestRange: (start: number, end: number) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const TagSpendingReport: React.FC<TagSpendingReportProps> = ({ expenses, period, onRequestRange }) => {
+  const [fromDate, setFromDate] = useState(toDateInput(period.start));
+  const [toDate, setToDate] = useState(toDateInput(period.end - DAY_MS));
+
+  useEffect(() => {
+    setFromDate(toDateInput(period.start));
+    setToDate(toDateInput(period.end - DAY_MS));
+  }, [period.start, period.end]);
+
+  // 結束日期含當天
+  const start = new Date(`${fromDate}T00:00:00`).getTime();
+  const end = new Date(`${toDate}T00:00:00`).getTime() + DAY_MS;
+  const validRange = !isNaN(start) && !isNaN(end) && start < end;
+
+  useEffect(() => {
+    if (validRange) onRequestRange(start, end);
+  }, [validRange, start, end, onRequestRange]);
+
+  const rows = useMemo(() => (validRange ? spendingByTag(expenses, start, end) : []), [expenses, validRange, start, end]);
+  const maxTotal = rows[0]?.total || 1;
+
+  const inputClass = 'flex-1 min-w-0 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm text-text-main outline-none focus:border-primary focus:bg-white';
+
+  return (
+    <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+      <h3 className="text-text-main text-xl font-black tracking-tight mb-1">{t('tags.title')}</h3>
+      <p className="text-slate-400 text-xs font-medium mb-6">{t('tags.hint')}</p>
+
+      <div className="flex items-center gap-2 mb-6">
+        <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+        <span className="text-slate-300">—</span>
+        <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+      </div>
+
+      {rows.length > 0 ? (
+        <div className="space-y-4">
+          {rows.map(({ tag, total, count }) => (
+            <div key={tag}>
+              <div className="flex items-baseline justify-between mb-1.5">
+                <span className="text-sm font-bold text-primary">#{tag}</span>
+                <span className="text-sm font-bold text-text-main">
+                  {formatMoney(total)}
+                  <span className="text-slate-300 text-[10px] font-medium ml-2">{t('tags.count', { count })}</span>
+                </span>
+              </div>
+              <div className="h-2 bg-slate-50 rounded-full overflow-hidden">
+                <div className="h-full bg-primary rounded-full transition-all" style={{ width: `${(total / maxTotal) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-slate-400 text-sm text-center py-4">{t(validRange ? 'tags.empty' : 'tags.invalidRange')}</p>
+      )}
+    </div>
+  );
+};
+
+export default TagSpendingReport;
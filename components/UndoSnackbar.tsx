@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+import { t } from '../services/i18n';
+
+interface UndoSnackbarProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+// 固定在底部導覽列上方，逾時後自動關閉
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ message, onUndo, onDismiss, duration = 5000 }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div className="fixed bottom-28 left-0 right-0 max-w-[480px] mx-auto px-6 z-50 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="bg-text-main text-white rounded-2xl shadow-2xl px-5 py-3 flex items-center justify-between gap-4">
+        <span className="text-sm font-medium truncate">{message}</span>
+        <button onClick={onUndo} className="text-primary-soft font-black text-sm shrink-0 uppercase tracking-wider">{t('common.undo')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoSnackbar;
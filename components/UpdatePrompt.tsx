@@ -0,0 +1,23 @@
+import React from 'react';
+import { t } from '../services/i18n';
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+// 部署新版本後顯示在畫面頂端，重新載入才會切換到新版本
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => (
+  <div className="fixed top-20 left-0 right-0 max-w-[480px] mx-auto px-6 z-50 animate-in fade-in slide-in-from-top-4 duration-300">
+    <div className="bg-primary text-white rounded-2xl shadow-2xl shadow-primary/30 px-5 py-3 flex items-center gap-3">
+      <span className="material-symbols-outlined text-xl">system_update</span>
+      <span className="text-sm font-medium flex-1">{t('pwa.updateAvailable')}</span>
+      <button onClick={onReload} className="bg-white text-primary font-black text-xs rounded-full px-3 py-1.5 shrink-0">{t('pwa.reload')}</button>
+      <button onClick={onDismiss} className="text-white/70 hover:text-white shrink-0" title={t('pwa.later')}>
+        <span className="material-symbols-outlined text-lg">close</span>
+      </button>
+    </div>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ExpenseRepository, PageCursor } from '../services/repository';
+import { periodOf } from '../services/period';
+import { isTrashed } from '../services/trash';
+import { Expense } from '../types';
+
+const PAGE_SIZE = 50;
+// setTimeout 的上限約 24.8 天，較長的等待分段進行
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface LoadedRange {
+  start: number;
+  end: number;
+}
+
+// 本期 (當月) 的紀錄即時訂閱，較舊的紀錄以游標分頁或依區間按需載入
+export const useExpenses = (repository: ExpenseRepository, uid: string | null, onError?: (error: Error) => void) => {
+  const [liveExpenses, setLiveExpenses] = useState<Expense[]>([]);
+  const [loaded, setLoaded] = useState<Map<string, Expense>>(new Map());
+  const [hasMore, setHasMore] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const [liveStart, setLiveStart] = useState(() => periodOf().start);
+  const cursorRef = useRef<PageCursor | null>(null);
+  const rangesRef = useRef<LoadedRange[]>([]);
+  const pagingRef = useRef(false);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // 跨月時改訂閱新的一期；休眠後計時器可能延遲，回到畫面時也重新檢查
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const check = () => {
+      clearTimeout(timer);
+      const period = periodOf();
+      setLiveStart(period.start);
+      timer = setTimeout(check, Math.min(period.end - Date.now(), MAX_TIMER_MS));
+    };
+    const handleVisibility = () => { if (document.visibilityState === 'visible') check(); };
+    check();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [uid]);
+
+  useEffect(() => {
+    setLiveExpenses([]);
+    setLoaded(new Map());
+    setHasMore(true);
+    cursorRef.current = null;
+    rangesRef.current = [{ start: liveStart, end: Infinity }];
+    if (!uid) return;
+
+    return repository.watchSince(uid, liveStart, setLiveExpenses, (error) => onErrorRef.current?.(error));
+  }, [repository, uid, liveStart]);
+
+  const mergeLoaded = (docs: Expense[]) => {
+    setLoaded(current => {
+      const next = new Map(current);
+      docs.forEach(e => next.set(e.id, e));
+      return next;
+    });
+  };
+
+  // 往前載入一頁較舊的紀錄 (無限捲動)
+  const loadMore = useCallback(async () => {
+    if (!uid || pagingRef.current || !hasMore) return;
+    pagingRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await repository.listBefore(uid, liveStart, PAGE_SIZE, cursorRef.current);
+      const docs = page.expenses;
+      mergeLoaded(docs);
+      if (docs.length > 0) {
+        cursorRef.current = page.cursor;
+        rangesRef.current.push({ start: docs[docs.length - 1].timestamp, end: liveStart });
+      }
+      if (docs.length < PAGE_SIZE) {
+        setHasMore(false);
+        rangesRef.current.push({ start: -Infinity, end: liveStart });
+      }
+    } catch (error: any) {
+      onErrorRef.current?.(error);
+    } finally {
+      pagingRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [repository, uid, liveStart, hasMore]);
+
+  // 確保 [start, end) 區間的紀錄已載入，供報表等頁面使用
+  const ensureRange = useCallback(async (start: number, rangeEnd: number) => {
+    if (!uid) return;
+    // 本期的紀錄已由即時訂閱涵蓋
+    const end = Math.min(rangeEnd, liveStart);
+    if (start >= end) return;
+    const covered = rangesRef.current.some(r => r.start <= start && r.end >= end);
+    if (covered) return;
+    rangesRef.current.push({ start, end });
+    try {
+      mergeLoaded(await repository.listRange(uid, start, end));
+    } catch (error: any) {
+      rangesRef.current = rangesRef.current.filter(r => r.start !== start || r.end !== end);
+      onErrorRef.current?.(error);
+    }
+  }, [repository, uid, liveStart]);
+
+  // 較舊的紀錄沒有即時訂閱，寫入後同步更新本地快取
+  const applyLocal = useCallback((change: { upsert?: Expense; removeId?: string }) => {
+    setLoaded(current => {
+      const next = new Map(current);
+      if (change.upsert) next.set(change.upsert.id, change.upsert);
+      if (change.removeId) next.delete(change.removeId);
+      return next;
+    });
+  }, []);
+
+  const expenses = useMemo(() => {
+    // 本期的紀錄以即時訂閱為準，本地快取只補上較舊的部分
+    const byId = new Map<string, Expense>();
+    loaded.forEach((e, id) => { if (e.timestamp < liveStart) byId.set(id, e); });
+    liveExpenses.forEach(e => byId.set(e.id, e));
+    // 垃圾桶中的紀錄不列出，也不計入統計
+    return [...byId.values()].filter(e => !isTrashed(e)).sort((a, b) => b.timestamp - a.timestamp);
+  }, [liveExpenses, loaded, liveStart]);
+
+  return { expenses, hasMore, loadingMore, loadMore, ensureRange, applyLocal };
+};
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Route, parseRoute, routePath } from '../services/router';
+
+// history.state.idx 記錄在 App 內的第幾頁，用來判斷返回時是否仍在 App 內
+interface HistoryState {
+  idx: number;
+}
+
+const currentIdx = () => (window.history.state as HistoryState | null)?.idx ?? 0;
+
+const readLocation = (): Route =>
+  parseRoute(window.location.pathname, window.location.search) ?? { view: 'DASHBOARD' };
+
+// 以瀏覽器 History API 同步網址與畫面，支援重新整理、深層連結與返回鍵
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(readLocation);
+
+  useEffect(() => {
+    // 首次開啟或網址無法辨識時，改寫成標準路徑並標記為第一頁
+    const initial = readLocation();
+    const path = routePath(initial);
+    if (window.history.state?.idx === undefined || path !== window.location.pathname + window.location.search) {
+      window.history.replaceState({ idx: currentIdx() }, '', path);
+    }
+
+    const handlePopState = () => setRoute(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const path = routePath(next);
+    if (options.replace) {
+      window.history.replaceState({ idx: currentIdx() }, '', path);
+    } else if (path !== window.location.pathname + window.location.search) {
+      window.history.pushState({ idx: currentIdx() + 1 }, '', path);
+    }
+    setRoute(parseRoute(window.location.pathname, window.location.search) ?? next);
+  }, []);
+
+  // 有 App 內的上一頁時返回，否則 (例如直接開啟深層連結) 回到首頁
+  const goBack = useCallback(() => {
+    if (currentIdx() > 0) window.history.back();
+    else navigate({ view: 'DASHBOARD' }, { replace: true });
+  }, [navigate]);
+
+  return { route, navigate, goBack };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// 長時間開著的分頁每小時檢查一次是否有新版本
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// 註冊 service worker；已有舊版本在運作時，新版本安裝完成即回報可更新 (首次安裝不提示)
+export const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const updatingRef = useRef(false);
+
+  useEffect(() => {
+    // 開發模式不註冊，避免快取住開發伺服器的模組
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    // 新版本接手後重新載入，只在使用者按下更新時才處理
+    const handleControllerChange = () => {
+      if (updatingRef.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+    const track = (worker: ServiceWorker | null) => {
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+      });
+    };
+
+    navigator.serviceWorker.register('/sw.js')
+      .then(registration => {
+        if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+        track(registration.installing);
+        registration.addEventListener('updatefound', () => track(registration.installing));
+        timer = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+      })
+      .catch(err => console.error('[App] Service worker 註冊失敗:', err));
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+      if (timer) clearInterval(timer);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waiting) return;
+    updatingRef.current = true;
+    waiting.postMessage('SKIP_WAITING');
+  }, [waiting]);
+
+  const dismissUpdate = useCallback(() => setWaiting(null), []);
+
+  return { updateAvailable: waiting !== null, applyUpdate, dismissUpdate };
+};
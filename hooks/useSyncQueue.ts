@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  PendingWrite,
+  createPendingBatch,
+  createPendingWrite,
+  executePendingWrite,
+  loadPendingWrites,
+  pendingWriteIds,
+  savePendingWrites
+} from '../services/localStorageService';
+import { Expense } from '../types';
+import { ExpenseChanges, ExpenseRepository, ExpenseUpdate } from '../services/repository';
+
+export type SyncStatus = 'online' | 'syncing' | 'offline';
+
+// 紀錄的寫入先進佇列再送出，畫面不必等待網路；成功後才從佇列移除
+// 無法重送的失敗交給 onError，由呼叫端回報並復原已先套用到畫面的變更
+export const useSyncQueue = (repository: ExpenseRepository, uid: string | null, onError?: (error: Error, write: PendingWrite, ownerUid: string) => void) => {
+  const [pending, setPending] = useState<PendingWrite[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const inFlightRef = useRef<Set<string>>(new Set());
+  // 同一筆紀錄的寫入依序送出，避免重送時編輯比新增先到達
+  const chainsRef = useRef<Map<string, Promise<void>>>(new Map());
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const finish = useCallback((ownerUid: string, writeId: string) => {
+    setPending(current => {
+      const next = current.filter(w => w.id !== writeId);
+      savePendingWrites(ownerUid, next);
+      return next;
+    });
+  }, []);
+
+  const send = useCallback((ownerUid: string, write: PendingWrite) => {
+    if (inFlightRef.current.has(write.id)) return;
+    inFlightRef.current.add(write.id);
+    const chains = chainsRef.current;
+    const ids = pendingWriteIds(write);
+    // 批次寫入等到所有相關紀錄先前的寫入都完成
+    const previous = Promise.all(ids.map(id => chains.get(id)));
+    const chain: Promise<void> = previous
+      .then(() => executePendingWrite(repository, ownerUid, write))
+      .then(() => finish(ownerUid, write.id))
+      .catch((error: any) => {
+        // 重送也不會成功的錯誤 (如權限不足、紀錄已在其他裝置刪除) 從佇列移除並回報，由呼叫端復原畫面
+        console.error('[Queue] 同步失敗:', error);
+        onErrorRef.current?.(error, write, ownerUid);
+        finish(ownerUid, write.id);
+      })
+      .finally(() => {
+        inFlightRef.current.delete(write.id);
+        ids.forEach(id => { if (chains.get(id) === chain) chains.delete(id); });
+      });
+    ids.forEach(id => chains.set(id, chain));
+  }, [repository, finish]);
+
+  // 開啟 App 時重送上次未完成的寫入
+  useEffect(() => {
+    inFlightRef.current = new Set();
+    chainsRef.current = new Map();
+    if (!uid) {
+      setPending([]);
+      return;
+    }
+    const stored = loadPendingWrites(uid);
+    setPending(stored);
+    stored.forEach(write => send(uid, write));
+  }, [uid, send]);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // 恢復連線時補送尚未送出的寫入 (已送出的由 Firestore 自行重試)
+  useEffect(() => {
+    if (!uid || !online) return;
+    loadPendingWrites(uid).forEach(write => send(uid, write));
+  }, [uid, online, send]);
+
+  const queue = useCallback((write: PendingWrite) => {
+    if (!uid) return;
+    setPending(current => {
+      const next = [...current, write];
+      savePendingWrites(uid, next);
+      return next;
+    });
+    send(uid, write);
+  }, [uid, send]);
+
+  const enqueue = useCallback((op: PendingWrite['op'], expenseId: string, data?: Expense | ExpenseChanges) =>
+    queue(createPendingWrite(op, expenseId, data)), [queue]);
+
+  const enqueueBatch = useCallback((updates: ExpenseUpdate[]) => {
+    if (updates.length > 0) queue(createPendingBatch(updates));
+  }, [queue]);
+
+  const pendingIds = useMemo(() => new Set(pending.flatMap(pendingWriteIds)), [pending]);
+  const status: SyncStatus = !online ? 'offline' : pending.length > 0 ? 'syncing' : 'online';
+
+  return { enqueue, enqueueBatch, pendingIds, pendingCount: pending.length, status };
+};
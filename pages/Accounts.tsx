@@ -0,0 +1,347 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AccountKind, AccountTransfer, Expense, PaymentAccount } from '../types';
+import { ACCOUNT_KINDS, AccountBalance, accountBalances, accountKindOf, accountName, activeAccounts, earliestOpeningDate } from '../services/accounts';
+import { formatMoney } from '../services/currency';
+import { formatDate, t } from '../services/i18n';
+
+interface AccountsProps {
+  accounts: PaymentAccount[];
+  transfers: AccountTransfer[];
+  expenses: Expense[];
+  onSaveAccount: (account: Omit<PaymentAccount, 'id'> & { id?: string }) => void;
+  onSaveTransfer: (transfer: Omit<AccountTransfer, 'id'>) => void;
+  onDeleteTransfer: (id: string) => void;
+  onRequestRange: (start: number, end: number) => void;
+}
+
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+const signedMoney = (amount: number) => `${amount < 0 ? '-' : '+'}${formatMoney(Math.abs(amount))}`;
+
+const inputClass = 'w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-sm text-text-main outline-none focus:border-primary';
+const labelClass = 'text-slate-400 text-[10px] font-black uppercase tracking-wider';
+
+const Accounts: React.FC<AccountsProps> = ({ accounts, transfers, expenses, onSaveAccount, onSaveTransfer, onDeleteTransfer, onRequestRange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('cash');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [openingDate, setOpeningDate] = useState(() => toDateInput(Date.now()));
+  // 原本就沒有名稱的帳戶 (自動建立的現金帳戶) 可以維持空白，繼續以類型名稱顯示
+  const editingUnnamed = !!editingId && !accounts.find(a => a.id === editingId)?.name;
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [transferAmount, setTransferAmount] = useState('');
+  const [transferDate, setTransferDate] = useState(() => toDateInput(Date.now()));
+  const [note, setNote] = useState('');
+  const [reconcilingId, setReconcilingId] = useState<string | null>(null);
+  const [actualBalance, setActualBalance] = useState('');
+
+  // 餘額需要期初日期之後的所有紀錄
+  const since = earliestOpeningDate(accounts);
+  useEffect(() => {
+    if (since !== undefined) onRequestRange(since, Date.now() + 1);
+  }, [since, onRequestRange]);
+
+  const balances = useMemo(() => accountBalances(accounts, expenses, transfers), [accounts, expenses, transfers]);
+  const active = balances.filter(b => !b.account.archived);
+  const archived = balances.filter(b => b.account.archived);
+  const selectable = activeAccounts(accounts);
+  const nameOf = (id: string) => {
+    const account = accounts.find(a => a.id === id);
+    return account ? accountName(account) : t('accounts.unknown');
+  };
+  const recentTransfers = [...transfers].sort((a, b) => b.timestamp - a.timestamp);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setName('');
+    setKind('cash');
+    setOpeningBalance('');
+    setOpeningDate(toDateInput(Date.now()));
+  };
+
+  const handleEdit = (account: PaymentAccount) => {
+    setEditingId(account.id);
+    setShowForm(true);
+    setName(account.name);
+    setKind(account.kind);
+    setOpeningBalance(account.openingBalance.toString());
+    setOpeningDate(toDateInput(account.openingDate));
+  };
+
+  const handleSubmit = () => {
+    const numBalance = openingBalance.trim() === '' ? 0 : parseFloat(openingBalance);
+    const existing = accounts.find(a => a.id === editingId);
+    if (!name.trim() && !editingUnnamed) { alert(t('accounts.errorName')); return; }
+    if (isNaN(numBalance)) { alert(t('accounts.errorOpeningBalance')); return; }
+    if (!openingDate) { alert(t('accounts.errorOpeningDate')); return; }
+    onSaveAccount({
+      order: accounts.length,
+      ...existing,
+      name: name.trim(),
+      kind,
+      openingBalance: numBalance,
+      openingDate: fromDateInput(openingDate),
+    });
+    resetForm();
+  };
+
+  // 儲值預設從現金轉入，一般轉帳則由選取的帳戶轉出
+  const openTransfer = (account: PaymentAccount, topUp: boolean) => {
+    const cash = selectable.find(a => a.kind === 'cash' && a.id !== account.id);
+    const other = selectable.find(a => a.id !== account.id);
+    setFrom(topUp ? (cash || other)?.id || '' : account.id);
+    setTo(topUp ? account.id : other?.id || '');
+    setTransferAmount('');
+    setTransferDate(toDateInput(Date.now()));
+    setNote('');
+    setShowTransfer(true);
+  };
+
+  const handleTransfer = () => {
+    const amount = parseFloat(transferAmount);
+    if (!from || !to) { alert(t('accounts.errorPickAccounts')); return; }
+    if (from === to) { alert(t('accounts.errorSameAccount')); return; }
+    if (isNaN(amount) || amount <= 0) { alert(t('common.invalidAmount')); return; }
+    // 選今天時記錄目前時間，其他日期記在當天中午
+    const today = transferDate === toDateInput(Date.now());
+    const timestamp = today ? Date.now() : fromDateInput(transferDate) + 12 * 60 * 60 * 1000;
+    onSaveTransfer({ from, to, amount, timestamp, note: note.trim() || undefined });
+    setShowTransfer(false);
+  };
+
+  // 差額調整到期初餘額，讓帳面餘額等於實際餘額
+  const handleReconcile = ({ account, balance }: AccountBalance) => {
+    const actual = parseFloat(actualBalance);
+    if (isNaN(actual)) { alert(t('common.invalidAmount')); return; }
+    const diff = actual - balance;
+    if (diff !== 0 && !confirm(t('accounts.reconcileConfirm', { diff: signedMoney(diff), actual: formatMoney(actual) }))) return;
+    if (diff !== 0) onSaveAccount({ ...account, openingBalance: account.openingBalance + diff });
+    setReconcilingId(null);
+    setActualBalance('');
+  };
+
+  const handleDeleteTransfer = (transfer: AccountTransfer) => {
+    if (!confirm(t('accounts.deleteTransferConfirm', { from: nameOf(transfer.from), to: nameOf(transfer.to), amount: formatMoney(transfer.amount) }))) return;
+    onDeleteTransfer(transfer.id);
+  };
+
+  const renderAccount = (row: AccountBalance) => {
+    const { account, balance, income, spent, transferIn, transferOut } = row;
+    const kindInfo = accountKindOf(account.kind);
+    const actual = parseFloat(actualBalance);
+    return (
+      <div key={account.id} className={`bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 ${account.archived ? 'opacity-60' : ''}`}>
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="flex items-center justify-center rounded-2xl size-12 shrink-0 bg-primary-light text-primary">
+              <span className="material-symbols-outlined text-xl">{kindInfo.icon}</span>
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-text-main text-base font-bold tracking-tight truncate">{accountName(account)}</h3>
+              <p className="text-slate-400 text-[10px] font-bold">
+                {t(kindInfo.label)}{account.archived ? `・${t('accounts.archived')}` : ''}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center shrink-0">
+            <button onClick={() => handleEdit(account)} className="text-slate-300 hover:text-primary p-1" title={t('common.edit')}>
+              <span className="material-symbols-outlined text-[20px]">edit</span>
+            </button>
+            <button
+              onClick={() => onSaveAccount({ ...account, archived: !account.archived })}
+              className="text-slate-300 hover:text-primary p-1"
+              title={account.archived ? t('accounts.unarchive') : t('accounts.archive')}
+            >
+              <span className="material-symbols-outlined text-[20px]">{account.archived ? 'unarchive' : 'archive'}</span>
+            </button>
+          </div>
+        </div>
+
+        <p className={`text-2xl font-black ${balance < 0 ? 'text-orange-400' : 'text-text-main'}`}>{balance < 0 ? '-' : ''}{formatMoney(Math.abs(balance))}</p>
+        <p className="text-slate-400 text-[10px] font-medium mt-1">
+          {t('accounts.opening', { amount: formatMoney(account.openingBalance), date: formatDate(account.openingDate) })}
+        </p>
+        <p className="text-slate-400 text-[10px] font-medium">
+          {t('accounts.flows', { income: formatMoney(income), spent: formatMoney(spent), transfer: signedMoney(transferIn - transferOut) })}
+        </p>
+
+        {!account.archived && (
+          reconcilingId === account.id ? (
+            <div className="border-t border-slate-50 pt-4 mt-4 space-y-3">
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={actualBalance}
+                  onChange={(e) => setActualBalance(e.target.value)}
+                  className="flex-1 min-w-0 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm outline-none focus:border-primary"
+                  placeholder={t('accounts.reconcileActual')}
+                  autoFocus
+                />
+                <button onClick={() => handleReconcile(row)} className="bg-primary text-white font-bold rounded-xl px-4 text-sm">{t('accounts.reconcileApply')}</button>
+                <button onClick={() => { setReconcilingId(null); setActualBalance(''); }} className="text-slate-300 hover:text-primary p-1">
+                  <span className="material-symbols-outlined text-lg">close</span>
+                </button>
+              </div>
+              {!isNaN(actual) && (
+                <p className={`text-xs font-bold ${actual === balance ? 'text-emerald-500' : 'text-orange-400'}`}>
+                  {actual === balance ? t('accounts.reconcileMatch') : t('accounts.reconcileDiff', { diff: signedMoney(actual - balance) })}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2 mt-4">
+              <button
+                onClick={() => openTransfer(account, account.kind === 'stored_value')}
+                disabled={selectable.length < 2}
+                className="bg-primary-light text-primary font-bold rounded-2xl py-2 text-sm flex items-center justify-center gap-1 disabled:opacity-40"
+              >
+                <span className="material-symbols-outlined text-base">{account.kind === 'stored_value' ? 'add_card' : 'swap_horiz'}</span>
+                {account.kind === 'stored_value' ? t('accounts.topUp') : t('accounts.transfer')}
+              </button>
+              <button
+                onClick={() => { setReconcilingId(account.id); setActualBalance(''); }}
+                className="bg-slate-50 text-slate-500 font-bold rounded-2xl py-2 text-sm flex items-center justify-center gap-1"
+              >
+                <span className="material-symbols-outlined text-base">fact_check</span>
+                {t('accounts.reconcile')}
+              </button>
+            </div>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500">
+      <div className="mb-6">
+        <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('accounts.title')}</h1>
+        <p className="text-sm text-slate-400 mt-1">{t('accounts.subtitle')}</p>
+      </div>
+
+      {active.length > 0 && (
+        <div className="bg-primary text-white rounded-[32px] p-6 shadow-2xl shadow-primary/20 mb-6">
+          <p className="text-white/70 text-[10px] font-black uppercase tracking-wider mb-1">{t('accounts.total')}</p>
+          <p className="text-3xl font-black">{formatMoney(active.reduce((sum, b) => sum + b.balance, 0))}</p>
+        </div>
+      )}
+
+      <div className="space-y-4 mb-8">
+        {accounts.length === 0 && (
+          <p className="text-slate-400 text-sm text-center py-10">{t('accounts.empty')}</p>
+        )}
+        {active.map(renderAccount)}
+        {archived.map(renderAccount)}
+      </div>
+
+      {showTransfer && (
+        <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4 mb-8">
+          <h3 className="text-text-main text-base font-bold tracking-tight">{t('accounts.transferTitle')}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <label className={labelClass}>
+              {t('accounts.from')}
+              <select value={from} onChange={(e) => setFrom(e.target.value)} className={`mt-1 ${inputClass}`}>
+                {selectable.map(a => <option key={a.id} value={a.id}>{accountName(a)}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              {t('accounts.to')}
+              <select value={to} onChange={(e) => setTo(e.target.value)} className={`mt-1 ${inputClass}`}>
+                {selectable.map(a => <option key={a.id} value={a.id}>{accountName(a)}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <input type="number" value={transferAmount} onChange={(e) => setTransferAmount(e.target.value)} className={inputClass} placeholder={t('report.amountPlaceholder')} autoFocus />
+            <input type="date" value={transferDate} max={toDateInput(Date.now())} onChange={(e) => setTransferDate(e.target.value)} className={inputClass} />
+          </div>
+          <input value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} placeholder={t('accounts.notePlaceholder')} />
+          <div className="flex gap-3">
+            <button onClick={() => setShowTransfer(false)} className="flex-1 bg-slate-100 text-slate-500 font-bold py-3 rounded-2xl">{t('common.cancel')}</button>
+            <button onClick={handleTransfer} className="flex-1 bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20">{t('common.save')}</button>
+          </div>
+        </div>
+      )}
+
+      {showForm ? (
+        <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4 mb-8">
+          <h3 className="text-text-main text-base font-bold tracking-tight">{editingId ? t('accounts.edit') : t('accounts.add')}</h3>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder={editingUnnamed ? t(accountKindOf(kind).label) : t('accounts.namePlaceholder')} />
+          <div className="grid grid-cols-2 gap-2">
+            {ACCOUNT_KINDS.map(option => (
+              <button
+                key={option.kind}
+                type="button"
+                onClick={() => setKind(option.kind)}
+                className={`flex items-center gap-2 p-3 rounded-2xl border text-sm font-bold transition-all ${kind === option.kind ? 'bg-primary text-white border-primary' : 'bg-white text-slate-500 border-slate-100'}`}
+              >
+                <span className="material-symbols-outlined text-lg">{option.icon}</span>
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className={labelClass}>
+              {t('accounts.openingBalance')}
+              <input type="number" value={openingBalance} onChange={(e) => setOpeningBalance(e.target.value)} className={`mt-1 ${inputClass}`} placeholder="0" />
+            </label>
+            <label className={labelClass}>
+              {t('accounts.openingDate')}
+              <input type="date" value={openingDate} onChange={(e) => setOpeningDate(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+          </div>
+          <p className="text-slate-400 text-xs">{t('accounts.openingHint')}</p>
+          <div className="flex gap-3">
+            <button onClick={resetForm} className="flex-1 bg-slate-100 text-slate-500 font-bold py-3 rounded-2xl">{t('common.cancel')}</button>
+            <button onClick={handleSubmit} className="flex-1 bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20">{t('common.save')}</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all mb-8"
+        >
+          <span className="material-symbols-outlined">add</span>
+          {t('accounts.add')}
+        </button>
+      )}
+
+      {recentTransfers.length > 0 && (
+        <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50">
+          <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{t('accounts.transfers')}</h3>
+          <div className="space-y-3">
+            {recentTransfers.map(transfer => (
+              <div key={transfer.id} className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-text-main truncate">{nameOf(transfer.from)} → {nameOf(transfer.to)}</p>
+                  <p className="text-slate-400 text-[10px] font-medium truncate">
+                    {formatDate(transfer.timestamp, { month: 'numeric', day: 'numeric' })}
+                    {transfer.note ? `・${transfer.note}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="text-sm font-bold text-text-main">{formatMoney(transfer.amount)}</span>
+                  <button onClick={() => handleDeleteTransfer(transfer)} className="text-slate-300 hover:text-red-400 p-1" title={t('common.delete')}>
+                    <span className="material-symbols-outlined text-[18px]">delete_outline</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Accounts;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Category, TransactionType } from '../types';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '../services/categories';
+import { t } from '../services/i18n';
+
+interface CategoriesProps {
+  categories: Category[];
+  onSave: (category: Omit<Category, 'id'> & { id?: string }) => void;
+  onReorder: (ordered: Category[]) => void;
+}
+
+const Categories: React.FC<CategoriesProps> = ({ categories, onSave, onReorder }) => {
+  const [kind, setKind] = useState<TransactionType>('expense');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tempLabel, setTempLabel] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [newIcon, setNewIcon] = useState(CATEGORY_ICONS[0]);
+  const [newColor, setNewColor] = useState(CATEGORY_COLORS[0]);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const kindCategories = categories.filter(c => c.kind === kind);
+  const activeList = kindCategories.filter(c => !c.archived);
+  const archivedList = kindCategories.filter(c => c.archived);
+
+  const handleRename = (category: Category) => {
+    const label = tempLabel.trim();
+    if (!label) { alert(t('categories.errorName')); return; }
+    onSave({ ...category, label });
+    setEditingId(null);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= activeList.length) return;
+    const reordered = [...activeList];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onReorder([...reordered, ...archivedList]);
+  };
+
+  const handleAdd = () => {
+    const label = newLabel.trim();
+    if (!label) { alert(t('categories.errorName')); return; }
+    if (kindCategories.some(c => c.label === label)) { alert(t('categories.errorDuplicate')); return; }
+    onSave({ kind, label, icon: newIcon, color: newColor, order: kindCategories.length });
+    setNewLabel('');
+  };
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('title.categories')}</h1>
+          <p className="text-sm text-slate-400 mt-1">{t('categories.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="flex bg-white p-1 rounded-full border border-primary-soft shadow-sm mb-6 self-start">
+        {(['expense', 'income'] as TransactionType[]).map(k => (
+          <button
+            key={k}
+            onClick={() => { setKind(k); setEditingId(null); }}
+            className={`px-6 py-2 rounded-full text-sm font-bold transition-all ${kind === k ? 'bg-primary text-white shadow-md' : 'text-slate-400'}`}
+          >
+            {k === 'income' ? t('categories.income') : t('categories.expense')}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3 mb-8">
+        {activeList.map((category, idx) => (
+          <div key={category.id} className="bg-white rounded-[24px] p-4 flex items-center justify-between shadow-sm">
+            <div className="flex items-center gap-4 flex-1 min-w-0">
+              <div
+                className="flex items-center justify-center rounded-2xl size-12 shrink-0"
+                style={{ backgroundColor: `${category.color}15`, color: category.color }}
+              >
+                <span className="material-symbols-outlined text-xl">{category.icon}</span>
+              </div>
+              {editingId === category.id ? (
+                <div className="flex items-center gap-2 flex-1">
+                  <input
+                    autoFocus
+                    value={tempLabel}
+                    onChange={(e) => setTempLabel(e.target.value)}
+                    className="flex-1 min-w-0 border-b-2 border-primary bg-transparent text-base font-bold text-primary outline-none focus:ring-0 p-0"
+                  />
+                  <button onClick={() => handleRename(category)} className="text-primary">
+                    <span className="material-symbols-outlined text-xl">done</span>
+                  </button>
+                </div>
+              ) : (
+                <span className="text-text-main font-bold truncate">{category.label}</span>
+              )}
+            </div>
+            {editingId !== category.id && (
+              <div className="flex items-center">
+                <button onClick={() => handleMove(idx, -1)} disabled={idx === 0} className="text-slate-300 hover:text-primary p-1 disabled:opacity-30" title={t('categories.moveUp')}>
+                  <span className="material-symbols-outlined text-[20px]">arrow_upward</span>
+                </button>
+                <button onClick={() => handleMove(idx, 1)} disabled={idx === activeList.length - 1} className="text-slate-300 hover:text-primary p-1 disabled:opacity-30" title={t('categories.moveDown')}>
+                  <span className="material-symbols-outlined text-[20px]">arrow_downward</span>
+                </button>
+                <button onClick={() => { setEditingId(category.id); setTempLabel(category.label); }} className="text-slate-300 hover:text-primary p-1" title={t('categories.rename')}>
+                  <span className="material-symbols-outlined text-[20px]">edit</span>
+                </button>
+                <button onClick={() => onSave({ ...category, archived: true })} className="text-slate-300 hover:text-orange-400 p-1" title={t('categories.archive')}>
+                  <span className="material-symbols-outlined text-[20px]">archive</span>
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {archivedList.length > 0 && (
+        <div className="mb-8">
+          <button onClick={() => setShowArchived(!showArchived)} className="text-slate-400 text-sm font-bold flex items-center gap-1 mb-3">
+            <span className="material-symbols-outlined text-base">{showArchived ? 'expand_less' : 'expand_more'}</span>
+            {t('categories.archived', { count: archivedList.length })}
+          </button>
+          {showArchived && (
+            <div className="space-y-3">
+              {archivedList.map(category => (
+                <div key={category.id} className="bg-slate-50 rounded-[24px] p-4 flex items-center justify-between opacity-70">
+                  <div className="flex items-center gap-4">
+                    <span className="material-symbols-outlined text-xl" style={{ color: category.color }}>{category.icon}</span>
+                    <span className="text-slate-500 font-bold">{category.label}</span>
+                  </div>
+                  <button onClick={() => onSave({ ...category, archived: false, order: activeList.length })} className="text-slate-400 hover:text-primary p-1" title={t('categories.unarchive')}>
+                    <span className="material-symbols-outlined text-[20px]">unarchive</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50">
+        <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{kind === 'income' ? t('categories.addIncome') : t('categories.addExpense')}</h3>
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          className="w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-4 text-text-main placeholder:text-blue-300 focus:border-primary focus:bg-white transition-all outline-none mb-4"
+          placeholder={t('categories.namePlaceholder')}
+        />
+        <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-2">{t('categories.icon')}</p>
+        <div className="grid grid-cols-8 gap-2 mb-4">
+          {CATEGORY_ICONS.map(icon => (
+            <button
+              key={icon}
+              onClick={() => setNewIcon(icon)}
+              className={`size-9 rounded-xl flex items-center justify-center transition-all ${newIcon === icon ? 'bg-primary text-white' : 'bg-slate-50 text-slate-400'}`}
+            >
+              <span className="material-symbols-outlined text-lg">{icon}</span>
+            </button>
+          ))}
+        </div>
+        <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-2">{t('categories.color')}</p>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {CATEGORY_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => setNewColor(color)}
+              className={`size-8 rounded-full transition-all ${newColor === color ? 'ring-4 ring-offset-2 ring-primary/30' : ''}`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+        <button
+          onClick={handleAdd}
+          className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all"
+        >
+          <span className="material-symbols-outlined">add</span>
+          {t('categories.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Categories;
@@ -1,66 +1,168 @@
 
-import React, { useMemo } from 'react';
-import { Expense, ExpenseItem, User } from '../types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BudgetCycle, Category, Expense, PaymentAccount, User } from '../types';
+import { ExpenseUpdate } from '../services/repository';
+import { resolveCategory } from '../services/categories';
+import { findOverBudget, isIncome, spendingByCategory } from '../services/stats';
+import { cyclePeriodOf, cycleUnit } from '../services/period';
+import { collectTags } from '../services/tags';
+import { accountName, sortAccounts } from '../services/accounts';
+import { downloadText, expensesToCsv } from '../services/csv';
+import { EMPTY_FILTER, ExpenseFilter, applyExpenseFilter, groupByDay, isFilterActive } from '../services/expenseFilter';
+import ExpenseRow from '../components/ExpenseRow';
+import BulkActionBar from '../components/BulkActionBar';
+import SyncStatusBadge from '../components/SyncStatusBadge';
+import { SyncStatus } from '../hooks/useSyncQueue';
+import { formatMoney } from '../services/currency';
+import { formatDate, t } from '../services/i18n';
 
 interface DashboardProps {
   user: User | null;
   expenses: Expense[];
+  categories: Category[];
+  categoryBudgets: Record<string, number>;
   onDelete: (id: string) => void;
+  onOpenTrash: () => void;
+  onOpenAccounts: () => void;
+  accounts: PaymentAccount[];
+  onBulkUpdate: (updates: ExpenseUpdate[]) => Promise<void>;
+  onBulkDelete: (ids: string[]) => Promise<void>;
   onEdit: (expense: Expense) => void;
   onNavigateToAdd: () => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  onRequestRange: (start: number, end: number) => void;
+  pendingIds: Set<string>;
+  syncStatus: SyncStatus;
+  budgetCycle: BudgetCycle;
+  invalidCount: number; // 格式錯誤而未顯示的紀錄數
+  onReviewInvalid: () => void;
 }
 
-// 項目中文名稱映射
-export const ItemLabels: Record<ExpenseItem, string> = {
-  [ExpenseItem.FOOD]: '餐飲',
-  [ExpenseItem.TRANSPORT]: '交通',
-  [ExpenseItem.HOUSING]: '居住',
-  [ExpenseItem.SHOPPING]: '購物',
-  [ExpenseItem.ENTERTAINMENT]: '娛樂',
-  [ExpenseItem.CLOTHING]: '服飾',
-  [ExpenseItem.HEALTH]: '健康',
-  [ExpenseItem.OTHER]: '其他',
-};
+const Dashboard: React.FC<DashboardProps> = ({ user, expenses, categories, categoryBudgets, onDelete, onOpenTrash, onOpenAccounts, accounts, onBulkUpdate, onBulkDelete, onEdit, onNavigateToAdd, hasMore, loadingMore, onLoadMore, onRequestRange, pendingIds, syncStatus, budgetCycle, invalidCount, onReviewInvalid }) => {
+  const [filter, setFilter] = useState<ExpenseFilter>(EMPTY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
 
-// 適當且美觀的圖示映射
-export const ItemIcons: Record<ExpenseItem, string> = {
-  [ExpenseItem.FOOD]: 'restaurant',
-  [ExpenseItem.TRANSPORT]: 'directions_bus',
-  [ExpenseItem.HOUSING]: 'home',
-  [ExpenseItem.SHOPPING]: 'shopping_bag',
-  [ExpenseItem.ENTERTAINMENT]: 'movie',
-  [ExpenseItem.CLOTHING]: 'checkroom',
-  [ExpenseItem.HEALTH]: 'health_and_safety',
-  [ExpenseItem.OTHER]: 'category',
-};
+  const filteredExpenses = useMemo(() => applyExpenseFilter(expenses, filter), [expenses, filter]);
+  const dayGroups = useMemo(() => groupByDay(filteredExpenses), [filteredExpenses]);
+  const knownTags = useMemo(() => collectTags(expenses), [expenses]);
 
-const Dashboard: React.FC<DashboardProps> = ({ user, expenses, onDelete, onEdit, onNavigateToAdd }) => {
-  // 過濾並排序消費紀錄：從最近到最早 (降序排列)
-  const sortedExpenses = useMemo(() => {
-    // 雖然 Firebase 已經排序，但前端再次排序可確保資料一致性
-    // 目前保留 7 天內的過濾，如果不足 5 筆則顯示全部，增加實用性
-    const oneWeekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-    const filtered = expenses.filter(expense => expense.timestamp >= oneWeekAgo);
-    
-    // 如果最近一週沒資料，就顯示全部紀錄中的前 20 筆
-    const displayList = filtered.length > 0 ? filtered : expenses.slice(0, 20);
-    
-    return [...displayList].sort((a, b) => b.timestamp - a.timestamp);
-  }, [expenses]);
-
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp);
-    const now = new Date();
-    const isToday = date.toDateString() === now.toDateString();
-    
-    if (isToday) {
-      return `今天, ${date.toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })}`;
+  const filteredTotals = useMemo(() => ({
+    spent: filteredExpenses.filter(e => !isIncome(e)).reduce((sum, e) => sum + e.amount, 0),
+    income: filteredExpenses.filter(isIncome).reduce((sum, e) => sum + e.amount, 0),
+  }), [filteredExpenses]);
+
+  // 有指定日期區間時，直接載入該區間而不必一路往下捲動
+  useEffect(() => {
+    if (!filter.fromDate) return;
+    const start = new Date(`${filter.fromDate}T00:00:00`).getTime();
+    const end = filter.toDate ? new Date(`${filter.toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000 : Date.now() + 1;
+    if (!isNaN(start) && !isNaN(end) && start < end) onRequestRange(start, end);
+  }, [filter.fromDate, filter.toDate, onRequestRange]);
+
+  // 捲動到列表底部時載入下一頁
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
+  const selectedExpenses = useMemo(() => expenses.filter(e => selectedIds.has(e.id)), [expenses, selectedIds]);
+
+  const toggleSelect = useCallback((id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const exitSelection = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  // 批次操作完成後顯示一次結果並離開選取模式
+  const runBulk = async (action: () => Promise<string | undefined>) => {
+    setBulkBusy(true);
+    try {
+      const summary = await action();
+      if (summary) alert(summary);
+      exitSelection();
+    } catch (err: any) {
+      alert(t('bulk.failed', { message: err.message }));
+    } finally {
+      setBulkBusy(false);
     }
-    return `${date.toLocaleDateString('zh-TW', { month: 'long', day: 'numeric' })}, ${date.toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })}`;
   };
 
+  // 只改到收支類型與新分類相同的紀錄，其餘略過
+  const handleBulkRecategorise = (item: string) => runBulk(async () => {
+    const kind = resolveCategory(categories, item).kind;
+    const matching = selectedExpenses.filter(e => (isIncome(e) ? 'income' : 'expense') === kind);
+    const skipped = selectedExpenses.length - matching.length;
+    await onBulkUpdate(matching.map(e => ({ id: e.id, changes: { item } })));
+    return t('bulk.updated', { count: matching.length }) + (skipped > 0 ? t('bulk.skippedKind', { count: skipped }) : '');
+  });
+
+  // 改到指定日期，保留每筆原本的時間
+  const handleBulkChangeDate = (date: string) => runBulk(async () => {
+    await onBulkUpdate(selectedExpenses.map(e => {
+      const original = new Date(e.timestamp);
+      const target = new Date(`${date}T00:00:00`);
+      target.setHours(original.getHours(), original.getMinutes(), original.getSeconds(), original.getMilliseconds());
+      return { id: e.id, changes: { timestamp: target.getTime() } };
+    }));
+    return t('bulk.updated', { count: selectedExpenses.length });
+  });
+
+  // 刪除的結果由復原提示列顯示
+  const handleBulkDelete = () => {
+    if (!confirm(t('bulk.deleteConfirm', { count: selectedExpenses.length }))) return;
+    runBulk(async () => {
+      await onBulkDelete(selectedExpenses.map(e => e.id));
+      return undefined;
+    });
+  };
+
+  const handleBulkExport = () => {
+    const sorted = [...selectedExpenses].sort((a, b) => a.timestamp - b.timestamp);
+    downloadText(`expenses_selected_${sorted.length}.csv`, expensesToCsv(sorted, categories, accounts));
+  };
+
+  const updateFilter = (patch: Partial<ExpenseFilter>) => setFilter(current => ({ ...current, ...patch }));
+
+  const overBudget = useMemo(() => {
+    const { start, end } = cyclePeriodOf(budgetCycle);
+    return findOverBudget(spendingByCategory(expenses, start, end), categoryBudgets);
+  }, [expenses, categoryBudgets, budgetCycle]);
+
+  const formatDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const otherYear = date.getFullYear() !== new Date().getFullYear();
+    const label = formatDate(date, { year: otherYear ? 'numeric' : undefined, month: 'long', day: 'numeric', weekday: 'short' });
+
+    if (date.toDateString() === new Date().toDateString()) return t('dashboard.today', { date: label });
+    if (date.toDateString() === yesterday.toDateString()) return t('dashboard.yesterday', { date: label });
+    return label;
+  };
+
+  const inputClass = "w-full bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm text-text-main outline-none focus:border-primary focus:bg-white";
+
   return (
-    <div className="flex flex-col px-6 pt-6 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-10">
+    <div className={`flex flex-col px-6 pt-6 animate-in fade-in slide-in-from-bottom-4 duration-500 ${selecting ? 'pb-56' : 'pb-10'}`}>
       
       {/* 歡迎區塊 */}
       <div className="flex items-center gap-4 mb-8 bg-white p-5 rounded-[28px] shadow-sm border border-blue-50/50">
@@ -75,83 +177,198 @@ const Dashboard: React.FC<DashboardProps> = ({ user, expenses, onDelete, onEdit,
         </div>
         <div>
           <h2 className="text-text-main text-lg font-black italic tracking-tight">
-            你好，{user?.displayName || user?.email.split('@')[0]}！
+            {t('dashboard.greeting', { name: user?.displayName || user?.email.split('@')[0] || '' })}
           </h2>
-          <p className="text-slate-400 text-xs font-medium">今天想記錄點什麼呢？</p>
+          <p className="text-slate-400 text-xs font-medium">{t('dashboard.prompt')}</p>
         </div>
       </div>
 
+      {invalidCount > 0 && (
+        <button onClick={onReviewInvalid} className="flex items-center gap-3 mb-8 bg-orange-50 text-orange-600 p-4 rounded-[24px] border border-orange-100 text-left">
+          <span className="material-symbols-outlined">report</span>
+          <span className="flex-1 text-sm font-bold">{t('dashboard.invalidRecords', { count: invalidCount })}</span>
+          <span className="material-symbols-outlined text-lg">chevron_right</span>
+        </button>
+      )}
+
       <div className="flex items-center justify-between mb-8">
         <div>
-          <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">消費紀錄</h1>
-          <p className="text-sm text-slate-400 mt-1">目前顯示最近 {sortedExpenses.length} 筆支出</p>
+          <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('dashboard.title')}</h1>
+          <p className="text-sm text-slate-400 mt-1">{t('dashboard.loaded', { count: expenses.length })}</p>
         </div>
-        <div className="flex flex-col items-end">
-           <span className="text-[10px] font-black px-3 py-1 bg-primary text-white rounded-full uppercase tracking-widest shadow-lg shadow-primary/20">
-            即時同步
-          </span>
+        <div className="flex items-start gap-2">
+          <button onClick={onOpenAccounts} className="text-slate-300 hover:text-primary p-1 transition-colors" title={t('title.accounts')}>
+            <span className="material-symbols-outlined text-[22px]">account_balance_wallet</span>
+          </button>
+          <button onClick={onOpenTrash} className="text-slate-300 hover:text-primary p-1 transition-colors" title={t('title.trash')}>
+            <span className="material-symbols-outlined text-[22px]">delete</span>
+          </button>
+          <SyncStatusBadge status={syncStatus} pendingCount={pendingIds.size} />
         </div>
       </div>
 
-      <div className="space-y-4">
-        {sortedExpenses.length === 0 ? (
+      {overBudget.length > 0 && (
+        <div className="bg-orange-50 border border-orange-100 rounded-[24px] p-4 mb-6 flex items-start gap-3">
+          <span className="material-symbols-outlined text-orange-500">warning</span>
+          <div className="space-y-1">
+            <p className="text-orange-700 text-sm font-bold">{t('dashboard.overBudget', { unit: cycleUnit(budgetCycle) })}</p>
+            {overBudget.map(({ item, spent, limit }) => (
+              <p key={item} className="text-orange-600 text-xs font-medium">
+                {t('dashboard.overBudgetItem', { label: resolveCategory(categories, item).label, spent: formatMoney(spent), limit: formatMoney(limit), over: formatMoney(spent - limit) })}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 搜尋與篩選 */}
+      <div className="flex items-center gap-2 mb-4">
+        <div className="relative flex-1">
+          <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-primary/40 text-xl">search</span>
+          <input
+            value={filter.text}
+            onChange={(e) => updateFilter({ text: e.target.value })}
+            className="w-full bg-white border border-blue-50 rounded-2xl py-3 pl-10 pr-4 text-sm text-text-main shadow-sm outline-none focus:border-primary"
+            placeholder={t('dashboard.search')}
+          />
+        </div>
+        <button
+          onClick={() => (selecting ? exitSelection() : setSelecting(true))}
+          className={`h-12 px-3 rounded-2xl flex items-center justify-center shadow-sm text-xs font-bold transition-colors ${selecting ? 'bg-primary text-white' : 'bg-white text-primary border border-blue-50'}`}
+          title={t('bulk.select')}
+        >
+          {selecting ? t('bulk.done') : <span className="material-symbols-outlined">checklist</span>}
+        </button>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`size-12 rounded-2xl flex items-center justify-center shadow-sm transition-colors ${isFilterActive({ ...filter, text: '' }) ? 'bg-primary text-white' : 'bg-white text-primary border border-blue-50'}`}
+          title={t('dashboard.filter')}
+        >
+          <span className="material-symbols-outlined">tune</span>
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="bg-white rounded-[24px] p-5 shadow-sm border border-blue-50 mb-4 space-y-3 animate-in fade-in duration-300">
+          <select value={filter.item} onChange={(e) => updateFilter({ item: e.target.value })} className={inputClass}>
+            <option value="">{t('dashboard.allCategories')}</option>
+            {categories.map(c => (
+              <option key={c.id} value={c.id}>{c.kind === 'income' ? t('dashboard.incomePrefix') : ''}{c.label}{c.archived ? t('dashboard.archived') : ''}</option>
+            ))}
+          </select>
+          {accounts.length > 0 && (
+            <select value={filter.account} onChange={(e) => updateFilter({ account: e.target.value })} className={inputClass}>
+              <option value="">{t('dashboard.allAccounts')}</option>
+              {sortAccounts(accounts).map(a => (
+                <option key={a.id} value={a.id}>{accountName(a)}{a.archived ? t('dashboard.archived') : ''}</option>
+              ))}
+            </select>
+          )}
+          {knownTags.length > 0 && (
+            <select value={filter.tag} onChange={(e) => updateFilter({ tag: e.target.value })} className={inputClass}>
+              <option value="">{t('dashboard.allTags')}</option>
+              {knownTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+          )}
+          <div className="flex items-center gap-2">
+            <input type="number" value={filter.minAmount} onChange={(e) => updateFilter({ minAmount: e.target.value })} className={inputClass} placeholder={t('dashboard.minAmount')} />
+            <span className="text-slate-300">—</span>
+            <input type="number" value={filter.maxAmount} onChange={(e) => updateFilter({ maxAmount: e.target.value })} className={inputClass} placeholder={t('dashboard.maxAmount')} />
+          </div>
+          <div className="flex items-center gap-2">
+            <input type="date" value={filter.fromDate} onChange={(e) => updateFilter({ fromDate: e.target.value })} className={inputClass} />
+            <span className="text-slate-300">—</span>
+            <input type="date" value={filter.toDate} onChange={(e) => updateFilter({ toDate: e.target.value })} className={inputClass} />
+          </div>
+          <button onClick={() => setFilter(EMPTY_FILTER)} className="text-primary text-xs font-bold underline underline-offset-4">{t('dashboard.clearFilters')}</button>
+        </div>
+      )}
+
+      {isFilterActive(filter) && (
+        <div className="flex items-center justify-between bg-primary-light/60 rounded-2xl px-4 py-3 mb-4 text-xs font-bold">
+          <span className="flex items-center gap-2 text-primary">
+            {t('dashboard.matches', { count: filteredExpenses.length })}
+            {filter.tag && (
+              <button onClick={() => updateFilter({ tag: '' })} className="flex items-center gap-0.5 bg-primary text-white pl-2 pr-1 py-0.5 rounded-full" title={t('common.remove')}>
+                #{filter.tag}
+                <span className="material-symbols-outlined text-[14px]">close</span>
+              </button>
+            )}
+          </span>
+          <span className="text-text-main">
+            {t('dashboard.spentTotal', { amount: formatMoney(filteredTotals.spent) })}
+            {filteredTotals.income > 0 && <span className="text-emerald-500 ml-2">{t('dashboard.incomeTotal', { amount: formatMoney(filteredTotals.income) })}</span>}
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {expenses.length === 0 && !hasMore ? (
           <div className="flex flex-col items-center justify-center py-24 bg-white rounded-[32px] border border-dashed border-slate-200">
             <div className="size-20 bg-slate-50 rounded-full flex items-center justify-center text-slate-200 mb-4">
               <span className="material-symbols-outlined text-4xl">calendar_today</span>
             </div>
-            <p className="text-slate-400 font-bold px-8 text-center">尚無消費紀錄</p>
+            <p className="text-slate-400 font-bold px-8 text-center">{t('dashboard.empty')}</p>
             <button 
               onClick={onNavigateToAdd}
               className="mt-4 text-primary font-bold text-sm underline underline-offset-4"
             >
-              立即新增第一筆
+              {t('dashboard.addFirst')}
             </button>
           </div>
+        ) : dayGroups.length === 0 && isFilterActive(filter) ? (
+          <div className="flex flex-col items-center justify-center py-16 bg-white rounded-[32px] border border-dashed border-slate-200">
+            <span className="material-symbols-outlined text-4xl text-slate-200 mb-2">search_off</span>
+            <p className="text-slate-400 font-bold">{t('dashboard.noMatch')}</p>
+            {hasMore && <p className="text-slate-300 text-xs mt-1">{t('dashboard.loadedOnly')}</p>}
+          </div>
         ) : (
-          sortedExpenses.map((expense) => (
-            <div key={expense.id} className="group bg-white rounded-[24px] p-4 flex items-center justify-between shadow-sm border border-transparent transition-all hover:shadow-md hover:border-primary/10">
-              <div className="flex items-center gap-4">
-                <div className="flex items-center justify-center rounded-2xl bg-primary-light text-primary size-12 shrink-0 transition-all group-hover:scale-110">
-                  <span className="material-symbols-outlined text-xl">{ItemIcons[expense.item] || 'label'}</span>
-                </div>
-                <div>
-                  <div className="flex items-baseline gap-1">
-                    <span className="text-text-main text-xs font-bold">$</span>
-                    <p className="text-text-main text-xl font-extrabold leading-none">{expense.amount.toLocaleString()}</p>
-                  </div>
-                  <p className="text-slate-500 text-xs font-medium mt-1">
-                    <span className="text-primary/70 font-bold">{ItemLabels[expense.item] || expense.item}</span>
-                    <span className="mx-1.5 opacity-20">•</span>
-                    {expense.description}
-                  </p>
-                  <div className="flex items-center gap-2 mt-0.5">
-                    <p className="text-slate-300 text-[10px] font-medium">{formatDate(expense.timestamp)}</p>
-                    <p className="text-slate-200 text-[9px] font-mono tracking-tighter">ID: {expense.id.slice(-6).toUpperCase()}</p>
-                  </div>
-                </div>
+          dayGroups.map(group => (
+            <div key={group.key}>
+              <div className="flex items-center justify-between px-2 mb-2">
+                <p className="text-slate-400 text-xs font-black">{formatDay(group.timestamp)}</p>
+                <p className="text-xs font-bold">
+                  {group.spent > 0 && <span className="text-text-main/70">-{formatMoney(group.spent)}</span>}
+                  {group.income > 0 && <span className="text-emerald-500 ml-2">+{formatMoney(group.income)}</span>}
+                </p>
               </div>
-              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
-                <button 
-                  onClick={() => onEdit(expense)}
-                  className="text-slate-300 hover:text-primary p-2 transition-colors"
-                  title="編輯"
-                >
-                  <span className="material-symbols-outlined text-[20px]">edit_note</span>
-                </button>
-                <button 
-                  onClick={() => onDelete(expense.id)}
-                  className="text-slate-300 hover:text-red-400 p-2 transition-colors"
-                  title="刪除"
-                >
-                  <span className="material-symbols-outlined text-[20px]">delete_outline</span>
-                </button>
+              <div className="space-y-3">
+                {group.expenses.map(expense => (
+                  <ExpenseRow key={expense.id} expense={expense} categories={categories} accounts={accounts} onEdit={onEdit} onDelete={onDelete} pending={pendingIds.has(expense.id)} onSelectTag={(tag) => updateFilter({ tag })} selected={selectedIds.has(expense.id)} onToggleSelect={selecting ? toggleSelect : undefined} />
+                ))}
               </div>
             </div>
           ))
         )}
       </div>
 
+      <div ref={sentinelRef} className="flex justify-center py-6">
+        {loadingMore ? (
+          <div className="w-6 h-6 border-2 border-primary/20 border-t-primary rounded-full animate-spin"></div>
+        ) : hasMore ? (
+          <button onClick={onLoadMore} className="text-primary text-xs font-bold underline underline-offset-4">{t('dashboard.loadMore')}</button>
+        ) : expenses.length > 0 && (
+          <p className="text-slate-300 text-xs font-medium">{t('dashboard.allShown')}</p>
+        )}
+      </div>
+
+      {selecting && (
+        <BulkActionBar
+          selectedCount={selectedExpenses.length}
+          filteredCount={filteredExpenses.length}
+          categories={categories}
+          busy={bulkBusy}
+          onSelectAll={() => setSelectedIds(new Set(filteredExpenses.map(e => e.id)))}
+          onClear={() => setSelectedIds(new Set())}
+          onRecategorise={handleBulkRecategorise}
+          onChangeDate={handleBulkChangeDate}
+          onDelete={handleBulkDelete}
+          onExport={handleBulkExport}
+        />
+      )}
+
       {/* Floating Action Button */}
+      {!selecting && (
       <div className="fixed bottom-28 left-0 right-0 max-w-[480px] mx-auto px-6 flex justify-end pointer-events-none">
         <button 
           onClick={onNavigateToAdd}
@@ -160,6 +377,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, expenses, onDelete, onEdit,
           <span className="material-symbols-outlined text-[32px] font-bold">add</span>
         </button>
       </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Category, Expense, PaymentAccount } from '../types';
+import {
+  CSV_FIELDS,
+  CSV_FIELD_LABELS,
+  REQUIRED_FIELDS,
+  ColumnMapping,
+  ImportedExpense,
+  buildImportRows,
+  downloadText,
+  expensesToCsv,
+  guessMapping,
+  matchCategory,
+  parseCsv,
+  parseCsvDate
+} from '../services/csv';
+import { Invoice, invoiceAmount, invoiceToExpenses, isInvoiceImported, parseCarrierCsv, shortMerchantName, suggestCategory } from '../services/einvoice';
+import { activeCategories } from '../services/categories';
+import { formatMoney } from '../services/currency';
+import { formatDate, t } from '../services/i18n';
+
+interface DataTransferProps {
+  expenses: Expense[];
+  categories: Category[];
+  accounts: PaymentAccount[];
+  onImport: (records: ImportedExpense[]) => Promise<number>; // 回傳實際匯入筆數，已存在的編號會略過
+  onRequestRange: (start: number, end: number) => void;
+}
+
+const toDateInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const DataTransfer: React.FC<DataTransferProps> = ({ expenses, categories, accounts, onImport, onRequestRange }) => {
+  const now = new Date();
+  const [exportStart, setExportStart] = useState(toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)));
+  const [exportEnd, setExportEnd] = useState(toDateInput(now));
+
+  const [fileName, setFileName] = useState('');
+  const [header, setHeader] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [categoryMap, setCategoryMap] = useState<Record<string, string>>({});
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState('');
+
+  const [invoiceFileName, setInvoiceFileName] = useState('');
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoiceCategories, setInvoiceCategories] = useState<Record<string, string>>({});
+  const [splitLines, setSplitLines] = useState(false);
+  const [invoiceResult, setInvoiceResult] = useState('');
+
+  const exportList = useMemo(() => {
+    const start = new Date(`${exportStart}T00:00:00`).getTime();
+    const end = new Date(`${exportEnd}T00:00:00`).getTime() + 24 * 60 * 60 * 1000;
+    return expenses.filter(e => e.timestamp >= start && e.timestamp < end).sort((a, b) => a.timestamp - b.timestamp);
+  }, [expenses, exportStart, exportEnd]);
+
+  useEffect(() => {
+    const start = new Date(`${exportStart}T00:00:00`).getTime();
+    const end = new Date(`${exportEnd}T00:00:00`).getTime() + 24 * 60 * 60 * 1000;
+    if (!isNaN(start) && !isNaN(end) && start < end) onRequestRange(start, end);
+  }, [exportStart, exportEnd, onRequestRange]);
+
+  // 載入檔案涵蓋的期間，重複編號的比對才會完整
+  useEffect(() => {
+    const timestamps = [
+      ...(mapping.date === undefined ? [] : dataRows.map(r => parseCsvDate(r[mapping.date!] ?? ''))),
+      ...invoices.map(inv => inv.timestamp),
+    ].filter((ts): ts is number => ts !== null);
+    if (timestamps.length > 0) onRequestRange(Math.min(...timestamps), Math.max(...timestamps) + 1);
+  }, [dataRows, mapping.date, invoices, onRequestRange]);
+
+  const handleExport = () => {
+    if (exportList.length === 0) { alert(t('data.errorExportEmpty')); return; }
+    downloadText(`expenses_${exportStart}_${exportEnd}.csv`, expensesToCsv(exportList, categories, accounts));
+  };
+
+  const handleFile = async (file: File) => {
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) { alert(t('data.errorNoRows')); return; }
+    const guessed = guessMapping(rows[0]);
+    setFileName(file.name);
+    setHeader(rows[0]);
+    setDataRows(rows.slice(1));
+    setMapping(guessed);
+    setCategoryMap({});
+    setResult('');
+  };
+
+  // 檔案中出現的分類值，預設以名稱或編號自動對應
+  const categoryValues = useMemo(() => {
+    if (mapping.category === undefined) return [];
+    return Array.from(new Set(dataRows.map(r => (r[mapping.category!] ?? '').trim()))).filter(Boolean);
+  }, [dataRows, mapping.category]);
+
+  const effectiveCategoryMap = useMemo(() => {
+    const map: Record<string, string> = {};
+    categoryValues.forEach(v => {
+      const target = categoryMap[v] ?? matchCategory(categories, v)?.id;
+      if (target) map[v] = target;
+    });
+    return map;
+  }, [categoryValues, categoryMap, categories]);
+
+  const existingIds = useMemo(() => new Set(expenses.map(e => e.id)), [expenses]);
+
+  const importRows = useMemo(() => {
+    if (REQUIRED_FIELDS.some(f => mapping[f] === undefined)) return [];
+    return buildImportRows(dataRows, mapping, effectiveCategoryMap, existingIds, accounts);
+  }, [dataRows, mapping, effectiveCategoryMap, existingIds, accounts]);
+
+  const validRows = importRows.filter(r => r.expense && !r.duplicate);
+  const errorRows = importRows.filter(r => r.errors.length > 0);
+  const duplicateRows = importRows.filter(r => r.duplicate);
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    setImporting(true);
+    try {
+      const count = await onImport(validRows.map(r => r.expense!));
+      setResult(t('data.imported', { count, duplicates: duplicateRows.length + validRows.length - count, errors: errorRows.length }));
+      setHeader([]);
+      setDataRows([]);
+    } catch (err: any) {
+      alert(t('data.errorImport', { message: err.message }));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleInvoiceFile = async (file: File) => {
+    const parsed = parseCarrierCsv(await file.text());
+    if (parsed.length === 0) { alert(t('data.errorNoInvoices')); return; }
+    const suggested: Record<string, string> = {};
+    parsed.forEach(inv => { suggested[inv.number] = suggestCategory(inv); });
+    setInvoiceFileName(file.name);
+    setInvoices(parsed);
+    setInvoiceCategories(suggested);
+    setInvoiceResult('');
+  };
+
+  // 作廢、已匯入或金額為 0 的發票略過
+  const isSkipped = (inv: Invoice) => inv.voided || invoiceAmount(inv) <= 0 || isInvoiceImported(inv, existingIds);
+  const pendingInvoices = invoices.filter(inv => !isSkipped(inv));
+
+  const handleImportInvoices = async () => {
+    if (pendingInvoices.length === 0) return;
+    setImporting(true);
+    try {
+      const records = pendingInvoices.flatMap(inv => invoiceToExpenses(inv, invoiceCategories[inv.number], splitLines));
+      const count = await onImport(records);
+      setInvoiceResult(t('data.invoicesImported', { invoices: pendingInvoices.length, count }));
+      setInvoices([]);
+    } catch (err: any) {
+      alert(t('data.errorImport', { message: err.message }));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const selectClass = "flex-1 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm text-text-main outline-none";
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500">
+      <div className="mb-6">
+        <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('title.data')}</h1>
+        <p className="text-sm text-slate-400 mt-1">{t('data.subtitle')}</p>
+      </div>
+
+      {/* 匯出 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 mb-6">
+        <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{t('data.exportTitle')}</h3>
+        <div className="flex items-center gap-2 mb-4">
+          <input type="date" value={exportStart} onChange={(e) => setExportStart(e.target.value)} className={selectClass} />
+          <span className="text-slate-300">—</span>
+          <input type="date" value={exportEnd} onChange={(e) => setExportEnd(e.target.value)} className={selectClass} />
+        </div>
+        <button
+          onClick={handleExport}
+          className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all"
+        >
+          <span className="material-symbols-outlined">download</span>
+          {t('data.exportCount', { count: exportList.length })}
+        </button>
+      </div>
+
+      {/* 匯入 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50">
+        <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{t('data.importTitle')}</h3>
+        <label className="w-full border-2 border-dashed border-primary-soft rounded-2xl py-6 flex flex-col items-center justify-center text-primary cursor-pointer hover:bg-primary-light/30 transition-all">
+          <span className="material-symbols-outlined text-3xl mb-1">upload_file</span>
+          <span className="text-sm font-bold">{fileName || t('data.chooseCsv')}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }}
+          />
+        </label>
+
+        {result && (
+          <div className="mt-4 bg-green-50 border border-green-100 p-4 rounded-2xl flex items-start gap-3">
+            <span className="material-symbols-outlined text-green-500">check_circle</span>
+            <p className="text-green-700 text-xs font-bold">{result}</p>
+          </div>
+        )}
+
+        {header.length > 0 && (
+          <>
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mt-6 mb-2">{t('data.columnMapping')}</p>
+            <div className="space-y-2">
+              {CSV_FIELDS.map(field => (
+                <div key={field} className="flex items-center gap-3">
+                  <span className="w-20 text-sm font-bold text-text-main">
+                    {t(CSV_FIELD_LABELS[field])}{REQUIRED_FIELDS.includes(field) && <span className="text-red-400">*</span>}
+                  </span>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    <option value="">{t('data.skipColumn')}</option>
+                    {header.map((h, idx) => <option key={idx} value={idx}>{h || t('data.columnNumber', { number: idx + 1 })}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {categoryValues.length > 0 && (
+              <>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mt-6 mb-2">{t('data.categoryMapping')}</p>
+                <div className="space-y-2">
+                  {categoryValues.map(value => (
+                    <div key={value} className="flex items-center gap-3">
+                      <span className="w-20 text-sm font-bold text-text-main truncate" title={value}>{value}</span>
+                      <select
+                        value={effectiveCategoryMap[value] ?? ''}
+                        onChange={(e) => setCategoryMap({ ...categoryMap, [value]: e.target.value })}
+                        className={`${selectClass} ${effectiveCategoryMap[value] ? '' : 'border-red-300'}`}
+                      >
+                        <option value="">{t('data.pickCategory')}</option>
+                        {categories.filter(c => !c.archived).map(c => (
+                          <option key={c.id} value={c.id}>{c.kind === 'income' ? t('dashboard.incomePrefix') : ''}{c.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {importRows.length > 0 && (
+              <>
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mt-6 mb-2">
+                  {t('data.preview', { valid: validRows.length, duplicates: duplicateRows.length, errors: errorRows.length })}
+                </p>
+                <div className="max-h-72 overflow-y-auto space-y-2">
+                  {importRows.map(row => (
+                    <div
+                      key={row.rowNumber}
+                      className={`rounded-xl p-3 text-xs ${row.errors.length > 0 ? 'bg-red-50' : row.duplicate ? 'bg-slate-50 opacity-60' : 'bg-primary-light/40'}`}
+                    >
+                      <div className="flex justify-between font-bold text-text-main">
+                        <span>{t('data.rowNumber', { number: row.rowNumber })}{row.expense ? `・${row.expense.description}` : ''}</span>
+                        {row.expense && <span>{formatMoney(row.expense.amount)}</span>}
+                      </div>
+                      {row.errors.length > 0 && <p className="text-red-500 mt-1">{row.errors.join(t('common.listSeparator'))}</p>}
+                      {row.duplicate && <p className="text-slate-400 mt-1">{t('data.duplicateRow')}</p>}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <button
+              onClick={handleImport}
+              disabled={importing || validRows.length === 0}
+              className="w-full mt-6 bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-50"
+            >
+              <span className="material-symbols-outlined">upload</span>
+              {importing ? t('data.importing') : t('data.importCount', { count: validRows.length })}
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* 電子發票 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 mt-6">
+        <h3 className="text-text-main text-base font-bold tracking-tight mb-1">{t('data.invoiceTitle')}</h3>
+        <p className="text-slate-400 text-xs font-medium mb-4">{t('data.invoiceHint')}</p>
+        <label className="w-full border-2 border-dashed border-primary-soft rounded-2xl py-6 flex flex-col items-center justify-center text-primary cursor-pointer hover:bg-primary-light/30 transition-all">
+          <span className="material-symbols-outlined text-3xl mb-1">receipt_long</span>
+          <span className="text-sm font-bold">{invoiceFileName || t('data.chooseInvoiceFile')}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) handleInvoiceFile(f); e.target.value = ''; }}
+          />
+        </label>
+
+        {invoiceResult && (
+          <div className="mt-4 bg-green-50 border border-green-100 p-4 rounded-2xl flex items-start gap-3">
+            <span className="material-symbols-outlined text-green-500">check_circle</span>
+            <p className="text-green-700 text-xs font-bold">{invoiceResult}</p>
+          </div>
+        )}
+
+        {invoices.length > 0 && (
+          <>
+            <label className="flex items-center gap-2 mt-6 text-sm font-bold text-text-main">
+              <input type="checkbox" checked={splitLines} onChange={(e) => setSplitLines(e.target.checked)} className="rounded text-primary" />
+              {t('data.splitLines')}
+            </label>
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mt-4 mb-2">
+              {t('data.invoiceSummary', { total: invoices.length, pending: pendingInvoices.length })}
+            </p>
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {invoices.map(inv => {
+                const imported = isInvoiceImported(inv, existingIds);
+                const skipped = isSkipped(inv);
+                return (
+                  <div key={inv.number} className={`rounded-xl p-3 text-xs ${skipped ? 'bg-slate-50 opacity-60' : 'bg-primary-light/40'}`}>
+                    <div className="flex justify-between font-bold text-text-main">
+                      <span className="truncate">{shortMerchantName(inv.merchant)}</span>
+                      <span className="shrink-0 ml-2">{formatMoney(inv.total)}</span>
+                    </div>
+                    <div className="flex items-center justify-between mt-1 gap-2">
+                      <span className="text-slate-400">
+                        {formatDate(inv.timestamp)}・{inv.number}
+                        {imported && `・${t('data.invoiceImported')}`}
+                        {inv.voided && `・${t('data.invoiceVoided')}`}
+                        {!inv.voided && !imported && invoiceAmount(inv) <= 0 && `・${t('data.invoiceZero')}`}
+                      </span>
+                      {!skipped && (
+                        <select
+                          value={invoiceCategories[inv.number]}
+                          onChange={(e) => setInvoiceCategories({ ...invoiceCategories, [inv.number]: e.target.value })}
+                          className="bg-white border border-primary-soft rounded-lg py-1 px-2 text-xs text-text-main outline-none"
+                        >
+                          {activeCategories(categories, 'expense', invoiceCategories[inv.number]).map(c => (
+                            <option key={c.id} value={c.id}>{c.label}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={handleImportInvoices}
+              disabled={importing || pendingInvoices.length === 0}
+              className="w-full mt-6 bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-50"
+            >
+              <span className="material-symbols-outlined">upload</span>
+              {importing ? t('data.importing') : t('data.importInvoices', { count: pendingInvoices.length })}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataTransfer;
@@ -1,36 +1,137 @@
 
-import React, { useState } from 'react';
-import { Expense, ExpenseItem } from '../types';
-import { ItemLabels } from './Dashboard';
+import React, { useEffect, useMemo, useState } from 'react';
+import { BudgetCycle, Category, Expense, ExpenseDraft, PaymentAccount, TransactionType } from '../types';
+import { activeCategories, resolveCategory } from '../services/categories';
+import { spendingByCategory } from '../services/stats';
+import { cyclePeriodOf, cycleUnit } from '../services/period';
+import { collectTags } from '../services/tags';
+import { accountKindOf, accountName, activeAccounts, lastUsedAccount } from '../services/accounts';
+import { currencyCode, currencySymbol, formatMoney } from '../services/currency';
+import { MessageKey } from '../services/locales/zh-TW';
+import { t } from '../services/i18n';
+import TagInput from '../components/TagInput';
+
+// 填寫到一半的內容，離開表單 (例如先去新增帳戶) 再回來時還原
+export interface ExpenseFormDraft {
+  type: TransactionType;
+  amount: string;
+  item: string;
+  description: string;
+  timestamp: number;
+  tags: string[];
+  account: string;
+}
 
 interface ExpenseFormProps {
   initialExpense?: Expense;
-  onSave: (amount: number, item: ExpenseItem, description: string) => void;
+  savedDraft?: ExpenseFormDraft;
+  categories: Category[];
+  expenses: Expense[];
+  categoryBudgets: Record<string, number>;
+  budgetCycle: BudgetCycle;
+  defaultCategory?: string;
+  accounts: PaymentAccount[];
+  onManageAccounts: (draft: ExpenseFormDraft) => void;
+  onSave: (draft: ExpenseDraft) => void;
   title: string;
 }
 
-const ExpenseForm: React.FC<ExpenseFormProps> = ({ initialExpense, onSave, title }) => {
-  const [amount, setAmount] = useState<string>(initialExpense?.amount.toString() || '');
-  const [item, setItem] = useState<ExpenseItem>(initialExpense?.item || ExpenseItem.FOOD);
-  const [description, setDescription] = useState<string>(initialExpense?.description || '');
+const QUICK_DAYS: Array<{ label: MessageKey; daysAgo: number }> = [
+  { label: 'form.today', daysAgo: 0 },
+  { label: 'form.yesterday', daysAgo: 1 },
+  { label: 'form.dayBeforeYesterday', daysAgo: 2 },
+];
+
+// datetime-local 需要本地時間的 YYYY-MM-DDTHH:mm 格式
+const toDateTimeInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const ExpenseForm: React.FC<ExpenseFormProps> = ({ initialExpense, savedDraft, categories, expenses, categoryBudgets, budgetCycle, defaultCategory, accounts, onManageAccounts, onSave, title }) => {
+  // 支出優先選取使用者設定的預設分類 (已封存或刪除時改用第一個分類)
+  const defaultItemFor = (kind: TransactionType) => {
+    const available = activeCategories(categories, kind);
+    const preferred = kind === 'expense' ? available.find(c => c.id === defaultCategory) : undefined;
+    return (preferred || available[0])?.id || '';
+  };
+  const initialType = savedDraft?.type || initialExpense?.type || 'expense';
+  const [type, setType] = useState<TransactionType>(initialType);
+  const [amount, setAmount] = useState<string>(savedDraft?.amount ?? (initialExpense?.amount.toString() || ''));
+  const [item, setItem] = useState<string>(savedDraft?.item || initialExpense?.item || defaultItemFor(initialType));
+  const [description, setDescription] = useState<string>(savedDraft?.description ?? (initialExpense?.description || ''));
+  const [timestamp, setTimestamp] = useState<number>(savedDraft?.timestamp ?? initialExpense?.timestamp ?? Date.now());
+  const [tags, setTags] = useState<string[]>(savedDraft?.tags ?? initialExpense?.tags ?? []);
+  const [account, setAccount] = useState<string>(savedDraft?.account || initialExpense?.account || '');
+
+  const knownTags = useMemo(() => collectTags(expenses), [expenses]);
 
-  const availableItems = Object.values(ExpenseItem);
+  const availableItems = activeCategories(categories, type, initialExpense?.item);
+  const availableAccounts = activeAccounts(accounts, initialExpense?.account);
+
+  // 帳戶清單載入後，預先選取最近一筆同類型紀錄使用的帳戶
+  useEffect(() => {
+    if (account || availableAccounts.length === 0) return;
+    setAccount(lastUsedAccount(expenses, accounts, type === 'income') || availableAccounts[0].id);
+  }, [account, availableAccounts, expenses, accounts, type]);
+
+  // 快捷日期只調整日期，保留原本選擇的時間
+  const handleQuickDay = (daysAgo: number) => {
+    const current = new Date(timestamp);
+    const target = new Date();
+    target.setDate(target.getDate() - daysAgo);
+    target.setHours(current.getHours(), current.getMinutes(), 0, 0);
+    setTimestamp(target.getTime());
+  };
+
+  const handleTypeChange = (newType: TransactionType) => {
+    if (newType === type) return;
+    setType(newType);
+    setItem(defaultItemFor(newType));
+  };
+
+  // 儲存後若使該分類在所屬週期的支出超過預算，先請使用者確認
+  const confirmBudget = (numAmount: number) => {
+    const limit = categoryBudgets[item];
+    if (type === 'income' || !limit) return true;
+    const { start, end } = cyclePeriodOf(budgetCycle, timestamp);
+    const others = expenses.filter(e => e.id !== initialExpense?.id);
+    const projected = (spendingByCategory(others, start, end)[item] || 0) + numAmount;
+    if (projected <= limit) return true;
+    const label = resolveCategory(categories, item).label;
+    return confirm(t('form.overBudgetConfirm', { label, unit: cycleUnit(budgetCycle), limit: formatMoney(limit), projected: formatMoney(projected), over: formatMoney(projected - limit) }));
+  };
 
   const handleSave = () => {
     const numAmount = parseFloat(amount);
-    if (!isNaN(numAmount) && numAmount > 0 && description) {
-      onSave(numAmount, item, description);
+    if (!isNaN(numAmount) && numAmount > 0 && description && item) {
+      if (!account) { alert(t('form.accountRequired')); return; }
+      if (!confirmBudget(numAmount)) return;
+      onSave({ type, amount: numAmount, item, description, timestamp, tags, account });
     } else {
-      alert('請填寫完整正確的資訊');
+      alert(t('form.invalid'));
     }
   };
 
   return (
     <div className="flex flex-col h-full bg-background animate-in slide-in-from-right-4 duration-300">
       <div className="flex flex-col items-center justify-center py-10 px-6">
-        <p className="text-primary font-bold tracking-[0.2em] mb-3 text-xs uppercase">金額 (NT$)</p>
+        <div className="flex bg-white p-1 rounded-full border border-primary-soft shadow-sm mb-6">
+          {(['expense', 'income'] as TransactionType[]).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => handleTypeChange(kind)}
+              className={`px-6 py-2 rounded-full text-sm font-bold transition-all ${type === kind ? (kind === 'income' ? 'bg-emerald-500 text-white shadow-md' : 'bg-primary text-white shadow-md') : 'text-slate-400'}`}
+            >
+              {kind === 'income' ? t('common.income') : t('common.expense')}
+            </button>
+          ))}
+        </div>
+        <p className={`font-bold tracking-[0.2em] mb-3 text-xs uppercase ${type === 'income' ? 'text-emerald-500' : 'text-primary'}`}>{t('form.amount', { currency: currencyCode() })}</p>
         <div className="flex items-center justify-center w-full">
-          <span className="text-text-main tracking-tighter text-6xl font-extrabold mr-1">$</span>
+          <span className="text-text-main tracking-tighter text-6xl font-extrabold mr-1">{currencySymbol()}</span>
           <input 
             autoFocus
             type="number"
@@ -41,22 +142,43 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ initialExpense, onSave, title
             placeholder="0" 
           />
         </div>
-        <div className="flex items-center gap-1.5 mt-5 text-primary bg-primary-light px-5 py-2 rounded-full border border-primary-soft shadow-sm">
+        <label className="flex items-center gap-1.5 mt-5 text-primary bg-primary-light px-5 py-2 rounded-full border border-primary-soft shadow-sm">
           <span className="material-symbols-outlined text-base">calendar_today</span>
-          <p className="text-sm font-bold tracking-tight">
-            {initialExpense ? new Date(initialExpense.timestamp).toLocaleString() : `今天, ${new Date().toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })}`}
-          </p>
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(timestamp)}
+            max={toDateTimeInput(Date.now())}
+            onChange={(e) => { if (e.target.value) setTimestamp(new Date(e.target.value).getTime()); }}
+            className="bg-transparent border-none p-0 text-sm font-bold tracking-tight text-primary focus:ring-0 outline-none"
+          />
+        </label>
+        <div className="flex items-center gap-2 mt-3">
+          {QUICK_DAYS.map(({ label, daysAgo }) => {
+            const day = new Date();
+            day.setDate(day.getDate() - daysAgo);
+            const isActive = new Date(timestamp).toDateString() === day.toDateString();
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => handleQuickDay(daysAgo)}
+                className={`px-4 py-1 rounded-full text-xs font-bold transition-all ${isActive ? 'bg-primary text-white' : 'bg-white text-slate-400 border border-slate-100'}`}
+              >
+                {t(label)}
+              </button>
+            );
+          })}
         </div>
         {initialExpense && (
-          <p className="mt-2 text-[10px] text-slate-300 font-mono">編號: {initialExpense.id}</p>
+          <p className="mt-2 text-[10px] text-slate-300 font-mono">{t('form.id', { id: initialExpense.id })}</p>
         )}
       </div>
 
       <div className="bg-white rounded-t-[40px] flex-1 p-8 border-t border-blue-50 shadow-inner">
         <div className="mb-8">
           <div className="flex items-center justify-between mb-5">
-            <h3 className="text-text-main text-base font-bold tracking-tight">支出項目</h3>
-            <span className="text-primary text-xs font-bold px-4 py-1.5 bg-primary-light rounded-full border border-primary-soft">選擇項目</span>
+            <h3 className="text-text-main text-base font-bold tracking-tight">{type === 'income' ? t('form.incomeItem') : t('form.expenseItem')}</h3>
+            <span className="text-primary text-xs font-bold px-4 py-1.5 bg-primary-light rounded-full border border-primary-soft">{t('form.pickItem')}</span>
           </div>
           <div className="relative">
             <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-primary">
@@ -64,11 +186,11 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ initialExpense, onSave, title
             </div>
             <select 
               value={item}
-              onChange={(e) => setItem(e.target.value as ExpenseItem)}
+              onChange={(e) => setItem(e.target.value)}
               className="w-full bg-primary-light/30 border border-primary-soft rounded-2xl py-4 pl-12 pr-10 text-text-main font-medium focus:ring-4 focus:ring-primary/5 focus:border-primary focus:bg-white appearance-none transition-all outline-none cursor-pointer"
             >
-              {availableItems.map(itemKey => (
-                <option key={itemKey} value={itemKey}>{ItemLabels[itemKey as ExpenseItem]}</option>
+              {availableItems.map(category => (
+                <option key={category.id} value={category.id}>{category.label}</option>
               ))}
             </select>
             <div className="absolute inset-y-0 right-4 flex items-center pointer-events-none text-slate-400">
@@ -77,15 +199,44 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ initialExpense, onSave, title
           </div>
         </div>
 
+        <div className="mb-8">
+          <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{type === 'income' ? t('form.receivedInto') : t('form.paidWith')}</h3>
+          {availableAccounts.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {availableAccounts.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setAccount(option.id)}
+                  className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-bold border transition-all ${account === option.id ? 'bg-primary text-white border-primary shadow-md' : 'bg-white text-slate-500 border-slate-100'}`}
+                >
+                  <span className="material-symbols-outlined text-base">{accountKindOf(option.kind).icon}</span>
+                  {accountName(option)}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center justify-between bg-orange-50 border border-orange-100 rounded-2xl p-4">
+              <span className="text-orange-600 text-sm font-bold">{t('form.noAccounts')}</span>
+              <button type="button" onClick={() => onManageAccounts({ type, amount, item, description, timestamp, tags, account })} className="text-primary text-xs font-bold underline underline-offset-4">{t('form.addAccount')}</button>
+            </div>
+          )}
+        </div>
+
         <div className="mt-4">
-          <h3 className="text-text-main text-base font-bold tracking-tight mb-4">說明 (備註)</h3>
+          <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{t('form.description')}</h3>
           <textarea 
             value={description}
             onChange={(e) => setDescription(e.target.value)}
             className="w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-4 text-text-main placeholder:text-blue-300 focus:ring-4 focus:ring-primary/5 focus:border-primary focus:bg-white h-28 resize-none transition-all outline-none" 
-            placeholder="這筆錢花在哪裡？"
+            placeholder={type === 'income' ? t('form.incomePlaceholder') : t('form.expensePlaceholder')}
           />
         </div>
+
+        <div className="mt-8">
+          <h3 className="text-text-main text-base font-bold tracking-tight mb-4">{t('form.tags')}</h3>
+          <TagInput tags={tags} suggestions={knownTags} onChange={setTags} />
+        </div>
       </div>
 
       <div className="sticky bottom-0 w-full bg-white border-t border-blue-50 pb-8 px-8 pt-6">
@@ -94,7 +245,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ initialExpense, onSave, title
           className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-4 rounded-2xl shadow-xl shadow-blue-200 flex items-center justify-center gap-2 text-lg active:scale-[0.98] transition-all"
         >
           <span className="material-symbols-outlined font-bold text-2xl">check_circle</span>
-          確認儲存
+          {t('form.save')}
         </button>
       </div>
     </div>
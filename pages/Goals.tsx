@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { SavingsGoal } from '../types';
+import { GOAL_STATUS_LABELS, GoalStatus, goalProgress, goalSaved, goalStatus, monthsUntil, requiredMonthly } from '../services/goals';
+import { formatMoney } from '../services/currency';
+import { formatDate, t } from '../services/i18n';
+
+interface GoalsProps {
+  goals: SavingsGoal[];
+  onSave: (goal: Omit<SavingsGoal, 'id'> & { id?: string }) => void;
+  onDelete: (id: string) => void;
+  onContribute: (goalId: string, amount: number) => void;
+}
+
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// 期限當天也算在內
+const fromDateInput = (value: string) => new Date(`${value}T23:59:59`).getTime();
+
+const STATUS_STYLES: Record<GoalStatus, string> = {
+  done: 'bg-emerald-50 text-emerald-500',
+  overdue: 'bg-red-50 text-red-400',
+  on_track: 'bg-primary-light text-primary',
+  behind: 'bg-orange-50 text-orange-400',
+};
+
+const Goals: React.FC<GoalsProps> = ({ goals, onSave, onDelete, onContribute }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [autoFromSurplus, setAutoFromSurplus] = useState(false);
+  const [contributingId, setContributingId] = useState<string | null>(null);
+  const [contributionAmount, setContributionAmount] = useState('');
+
+  const now = Date.now();
+  const sortedGoals = [...goals].sort((a, b) =>
+    Number(goalStatus(a, now) === 'done') - Number(goalStatus(b, now) === 'done') || a.deadline - b.deadline
+  );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setName('');
+    setTarget('');
+    setDeadline('');
+    setAutoFromSurplus(false);
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditingId(goal.id);
+    setShowForm(true);
+    setName(goal.name);
+    setTarget(goal.target.toString());
+    setDeadline(toDateInput(goal.deadline));
+    setAutoFromSurplus(goal.autoFromSurplus);
+  };
+
+  const handleSubmit = () => {
+    const numTarget = parseFloat(target);
+    if (!name.trim()) { alert(t('goals.errorName')); return; }
+    if (isNaN(numTarget) || numTarget <= 0) { alert(t('goals.errorTarget')); return; }
+    if (!deadline) { alert(t('goals.errorDeadline')); return; }
+    const deadlineTs = fromDateInput(deadline);
+    const existing = goals.find(g => g.id === editingId);
+    if (!existing && deadlineTs <= now) { alert(t('goals.errorDeadlinePast')); return; }
+
+    onSave({
+      createdAt: now,
+      contributions: [],
+      ...existing,
+      name: name.trim(),
+      target: numTarget,
+      deadline: deadlineTs,
+      autoFromSurplus,
+    });
+    resetForm();
+  };
+
+  const handleContribute = (goal: SavingsGoal, sign: 1 | -1) => {
+    const amount = parseFloat(contributionAmount);
+    if (isNaN(amount) || amount <= 0) { alert(t('common.invalidAmount')); return; }
+    if (sign < 0 && amount > goalSaved(goal)) { alert(t('goals.errorWithdraw')); return; }
+    onContribute(goal.id, sign * amount);
+    setContributingId(null);
+    setContributionAmount('');
+  };
+
+  const handleDelete = (goal: SavingsGoal) => {
+    if (!confirm(t('goals.deleteConfirm', { name: goal.name }))) return;
+    onDelete(goal.id);
+  };
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500">
+      <div className="mb-6">
+        <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('title.goals')}</h1>
+        <p className="text-sm text-slate-400 mt-1">{t('goals.subtitle')}</p>
+      </div>
+
+      <div className="space-y-4 mb-8">
+        {sortedGoals.length === 0 && (
+          <p className="text-slate-400 text-sm text-center py-10">{t('goals.empty')}</p>
+        )}
+        {sortedGoals.map(goal => {
+          const saved = goalSaved(goal);
+          const status = goalStatus(goal, now);
+          const months = monthsUntil(goal.deadline, now);
+          const recent = [...goal.contributions].sort((a, b) => b.timestamp - a.timestamp).slice(0, 3);
+          return (
+            <div key={goal.id} className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50">
+              <div className="flex items-start justify-between gap-3 mb-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-text-main text-base font-bold tracking-tight truncate">{goal.name}</h3>
+                    <span className={`text-[10px] font-black px-2 py-0.5 rounded-full shrink-0 ${STATUS_STYLES[status]}`}>{t(GOAL_STATUS_LABELS[status])}</span>
+                  </div>
+                  <p className="text-slate-400 text-[10px] font-bold mt-0.5">
+                    {t('goals.deadlineOn', { date: formatDate(goal.deadline) })}
+                    {goal.autoFromSurplus ? `・${t('goals.autoFromSurplus')}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center shrink-0">
+                  <button onClick={() => handleEdit(goal)} className="text-slate-300 hover:text-primary p-1" title={t('common.edit')}>
+                    <span className="material-symbols-outlined text-[20px]">edit</span>
+                  </button>
+                  <button onClick={() => handleDelete(goal)} className="text-slate-300 hover:text-red-400 p-1" title={t('common.delete')}>
+                    <span className="material-symbols-outlined text-[20px]">delete_outline</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="text-2xl font-black text-text-main">{formatMoney(saved)}</span>
+                <span className="text-slate-400 text-xs font-bold">/ {formatMoney(goal.target)}</span>
+              </div>
+              <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden mb-3">
+                <div
+                  className={`h-full rounded-full transition-all duration-1000 ${status === 'done' ? 'bg-emerald-400' : status === 'on_track' ? 'bg-primary' : 'bg-orange-400'}`}
+                  style={{ width: `${goalProgress(goal) * 100}%` }}
+                />
+              </div>
+              {status !== 'done' && (
+                <p className="text-slate-500 text-xs font-medium mb-4">
+                  {months > 0
+                    ? t('goals.requiredMonthly', { months, amount: formatMoney(requiredMonthly(goal, now)) })
+                    : t('goals.overdueShort', { amount: formatMoney(requiredMonthly(goal, now)) })}
+                </p>
+              )}
+
+              {recent.length > 0 && (
+                <div className="border-t border-slate-50 pt-3 mb-4 space-y-1">
+                  {recent.map(c => (
+                    <div key={c.id} className="flex justify-between text-xs">
+                      <span className="text-slate-400">
+                        {formatDate(c.timestamp, { month: 'numeric', day: 'numeric' })}
+                        {c.source === 'surplus' ? `・${t('goals.surplus')}` : ''}
+                      </span>
+                      <span className={`font-bold ${c.amount < 0 ? 'text-orange-400' : 'text-emerald-500'}`}>
+                        {c.amount < 0 ? '-' : '+'}{formatMoney(Math.abs(c.amount))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {contributingId === goal.id ? (
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    value={contributionAmount}
+                    onChange={(e) => setContributionAmount(e.target.value)}
+                    className="flex-1 min-w-0 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm outline-none focus:border-primary"
+                    placeholder={t('report.amountPlaceholder')}
+                    autoFocus
+                  />
+                  <button onClick={() => handleContribute(goal, 1)} className="bg-primary text-white font-bold rounded-xl px-4 text-sm">{t('goals.deposit')}</button>
+                  <button onClick={() => handleContribute(goal, -1)} className="bg-slate-100 text-slate-500 font-bold rounded-xl px-4 text-sm">{t('goals.withdraw')}</button>
+                  <button onClick={() => { setContributingId(null); setContributionAmount(''); }} className="text-slate-300 hover:text-primary p-1">
+                    <span className="material-symbols-outlined text-lg">close</span>
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => { setContributingId(goal.id); setContributionAmount(''); }}
+                  className="w-full bg-primary-light text-primary font-bold rounded-2xl py-2 text-sm flex items-center justify-center gap-1"
+                >
+                  <span className="material-symbols-outlined text-base">savings</span>
+                  {t('goals.depositOrWithdraw')}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {showForm ? (
+        <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4">
+          <h3 className="text-text-main text-base font-bold tracking-tight">{editingId ? t('goals.edit') : t('goals.add')}</h3>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none focus:border-primary"
+            placeholder={t('goals.namePlaceholder')}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-slate-400 text-[10px] font-black uppercase tracking-wider">
+              {t('goals.target')}
+              <input
+                type="number"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="mt-1 w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-sm text-text-main outline-none"
+                placeholder="15000"
+              />
+            </label>
+            <label className="text-slate-400 text-[10px] font-black uppercase tracking-wider">
+              {t('goals.deadline')}
+              <input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} className="mt-1 w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-sm text-text-main outline-none" />
+            </label>
+          </div>
+          <label className="flex items-start gap-3 p-3 rounded-2xl border border-slate-100 cursor-pointer">
+            <input type="checkbox" checked={autoFromSurplus} onChange={(e) => setAutoFromSurplus(e.target.checked)} className="mt-1 accent-primary" />
+            <div>
+              <p className="text-text-main text-sm font-bold">{t('goals.autoFromSurplus')}</p>
+              <p className="text-slate-400 text-xs">{t('goals.autoFromSurplusHint')}</p>
+            </div>
+          </label>
+          <div className="flex gap-3">
+            <button onClick={resetForm} className="flex-1 bg-slate-100 text-slate-500 font-bold py-3 rounded-2xl">{t('common.cancel')}</button>
+            <button onClick={handleSubmit} className="flex-1 bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20">{t('common.save')}</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all"
+        >
+          <span className="material-symbols-outlined">add</span>
+          {t('goals.add')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Goals;
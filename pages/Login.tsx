@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { AppView, User } from '../types';
 import { auth, googleProvider, firebaseConfig } from '../services/firebase';
+import { t } from '../services/i18n';
 import { 
   signInWithEmailAndPassword, 
   signInWithPopup, 
@@ -39,7 +40,7 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
       } catch (err: any) {
         if (err.code === 'auth/unauthorized-domain') {
           setIsUnauthorizedDomain(true);
-          setError('登入失敗：此網域未經 Firebase 授權。');
+          setError(t('login.errorRedirectDomain'));
         }
       }
     };
@@ -53,7 +54,7 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
-      setError('請輸入電子郵件和密碼');
+      setError(t('login.errorMissing'));
       return;
     }
     
@@ -71,7 +72,7 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
         photoURL: fbUser.photoURL || undefined,
       });
     } catch (err: any) {
-      setError(err.code === 'auth/invalid-credential' ? '帳號或密碼不正確。' : '登入錯誤：' + err.code);
+      setError(err.code === 'auth/invalid-credential' ? t('login.errorInvalidCredential') : t('login.errorGeneric', { code: err.code }));
       setLoading(false);
     }
   };
@@ -98,13 +99,13 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
       console.error("[Login] Popup 報錯:", err.code);
       if (err.code === 'auth/unauthorized-domain') {
         setIsUnauthorizedDomain(true);
-        setError('此網域未經 Firebase 授權。');
+        setError(t('login.errorUnauthorizedDomain'));
       } else if (err.code === 'auth/popup-blocked') {
-        setError('彈窗被瀏覽器封鎖了，請允許此網站開啟彈窗。');
+        setError(t('login.errorPopupBlocked'));
       } else if (err.code === 'auth/cancelled-popup-request') {
         // 使用者關閉了視窗，不顯示錯誤
       } else {
-        setError('無法啟動 Google 登入：' + err.message);
+        setError(t('login.errorGoogle', { message: err.message }));
       }
       setLoading(false);
     }
@@ -117,13 +118,13 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
   };
 
   const handleForgotPassword = async () => {
-    if (!email) { setError('請先輸入您的電子郵件地址。'); return; }
+    if (!email) { setError(t('login.errorResetEmail')); return; }
     setLoading(true);
     try {
       await sendPasswordResetEmail(auth, email);
-      setSuccess('重設密碼信件已寄出。');
+      setSuccess(t('login.resetSent'));
     } catch (err: any) {
-      setError('重設密碼失敗：' + err.message);
+      setError(t('login.errorReset', { message: err.message }));
     } finally { setLoading(false); }
   };
 
@@ -134,7 +135,7 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
       {loading && (
         <div className="fixed inset-0 bg-white/60 backdrop-blur-sm z-50 flex flex-col items-center justify-center">
           <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin mb-4"></div>
-          <p className="text-primary font-bold">同步登入狀態...</p>
+          <p className="text-primary font-bold">{t('login.syncing')}</p>
         </div>
       )}
 
@@ -145,25 +146,25 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
         >
           <span className="material-symbols-outlined !text-4xl">account_balance_wallet</span>
         </div>
-        <h1 className="text-text-main tracking-tight text-3xl font-bold px-4 text-center">極簡化記帳系統</h1>
-        <p className="text-text-muted text-base pt-2 px-6 text-center italic">讓每筆消費都簡單透明</p>
+        <h1 className="text-text-main tracking-tight text-3xl font-bold px-4 text-center">{t('app.name')}</h1>
+        <p className="text-text-muted text-base pt-2 px-6 text-center italic">{t('login.tagline')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="flex flex-col gap-4 px-8">
         {showDebug && (
           <div className="bg-slate-900 text-green-400 p-4 rounded-2xl font-mono text-[10px] space-y-2 mb-4 border-2 border-green-500/30">
             <div className="flex justify-between border-b border-green-900 pb-1 mb-1">
-              <span>[診斷工具]</span>
+              <span>{t('login.debugTitle')}</span>
               <button onClick={() => setShowDebug(false)} className="text-white">✕</button>
             </div>
-            <p>● 當前主機: {currentHostname}</p>
-            <p>● 目前使用者: {auth.currentUser ? auth.currentUser.email : '未偵測到'}</p>
-            <p>● 最後錯誤: {error || '無'}</p>
+            <p>{t('login.debugHost', { host: currentHostname })}</p>
+            <p>{t('login.debugUser', { user: auth.currentUser?.email || t('login.debugNoUser') })}</p>
+            <p>{t('login.debugError', { error: error || t('login.debugNoError') })}</p>
           </div>
         )}
 
         <div className="flex flex-col gap-2">
-          <label className="text-text-main text-sm font-semibold ml-1">電子郵件</label>
+          <label className="text-text-main text-sm font-semibold ml-1">{t('auth.email')}</label>
           <input 
             type="email" 
             value={email}
@@ -174,8 +175,8 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
         </div>
         <div className="flex flex-col gap-2 relative">
           <div className="flex justify-between items-center px-1">
-            <label className="text-text-main text-sm font-semibold">密碼</label>
-            <button type="button" onClick={handleForgotPassword} className="text-primary text-xs font-bold hover:underline">忘記密碼？</button>
+            <label className="text-text-main text-sm font-semibold">{t('auth.password')}</label>
+            <button type="button" onClick={handleForgotPassword} className="text-primary text-xs font-bold hover:underline">{t('login.forgotPassword')}</button>
           </div>
           <input 
             type="password" 
@@ -197,12 +198,12 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
                 <div className="bg-white border border-red-200 rounded-xl p-2 flex items-center justify-between">
                   <code className="text-[10px] font-mono text-red-800 truncate mr-2">{currentHostname}</code>
                   <button type="button" onClick={copyHostname} className="shrink-0 bg-red-100 text-red-700 px-2 py-1 rounded text-[10px] font-bold">
-                    {copied ? '已複製' : '複製'}
+                    {copied ? t('login.copied') : t('login.copy')}
                   </button>
                 </div>
                 <div className="flex gap-2">
-                  <button type="button" onClick={handleOpenInNewTab} className="flex-1 bg-red-600 text-white text-[10px] font-bold py-2 rounded-lg">新分頁開啟</button>
-                  <a href={firebaseConsoleUrl} target="_blank" rel="noopener noreferrer" className="flex-1 bg-slate-800 text-white text-[10px] font-bold py-2 rounded-lg text-center">前往後台</a>
+                  <button type="button" onClick={handleOpenInNewTab} className="flex-1 bg-red-600 text-white text-[10px] font-bold py-2 rounded-lg">{t('login.openNewTab')}</button>
+                  <a href={firebaseConsoleUrl} target="_blank" rel="noopener noreferrer" className="flex-1 bg-slate-800 text-white text-[10px] font-bold py-2 rounded-lg text-center">{t('login.openConsole')}</a>
                 </div>
               </div>
             )}
@@ -217,7 +218,7 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
         )}
         
         <button type="submit" disabled={loading} className="w-full bg-primary text-white font-bold py-4 rounded-2xl text-lg mt-4 shadow-xl active:scale-[0.98] disabled:opacity-70">
-          登入 <span className="material-symbols-outlined">login</span>
+          {t('login.submit')} <span className="material-symbols-outlined">login</span>
         </button>
 
         <div className="relative flex items-center py-4">
@@ -233,15 +234,15 @@ const Login: React.FC<LoginProps> = ({ onLogin, onNavigate }) => {
           className="w-full bg-white border border-slate-200 text-slate-700 font-bold py-4 rounded-2xl flex items-center justify-center gap-3 shadow-sm hover:bg-slate-50 transition-all"
         >
           <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt="Google" className="w-6 h-6" />
-          使用 Google 帳號登入
+          {t('login.google')}
         </button>
       </form>
 
       <div className="mt-auto pb-12 pt-10 text-center">
         <p className="text-text-main/70 text-base">
-          還沒有帳號？
+          {t('login.noAccount')}
           <button onClick={() => onNavigate('REGISTER')} className="text-primary font-bold ml-2 underline underline-offset-4">
-            立即註冊
+            {t('login.register')}
           </button>
         </p>
       </div>
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { Category, PaymentAccount, RecurringFrequency, RecurringRule, TransactionType } from '../types';
+import { activeCategories, resolveCategory } from '../services/categories';
+import { accountName, activeAccounts } from '../services/accounts';
+import { describeRule, isRuleEnded, occurrencesBetween, weekdayName } from '../services/recurring';
+import { formatMoney } from '../services/currency';
+import { formatDate, t } from '../services/i18n';
+
+interface RecurringProps {
+  rules: RecurringRule[];
+  categories: Category[];
+  accounts: PaymentAccount[];
+  onSave: (rule: Omit<RecurringRule, 'id'> & { id?: string }) => void;
+  onDelete: (id: string) => void;
+}
+
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+// 下一次發生的日期 (一年內)
+const nextOccurrence = (rule: RecurringRule) => {
+  const now = Date.now();
+  return occurrencesBetween(rule, now, now + 366 * 24 * 60 * 60 * 1000)[0];
+};
+
+const Recurring: React.FC<RecurringProps> = ({ rules, categories, accounts, onSave, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [type, setType] = useState<TransactionType>('expense');
+  const [amount, setAmount] = useState('');
+  const [item, setItem] = useState('');
+  const [description, setDescription] = useState('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [day, setDay] = useState(1);
+  const [startDate, setStartDate] = useState(() => toDateInput(Date.now()));
+  const [endDate, setEndDate] = useState('');
+  const [account, setAccount] = useState('');
+
+  const sortedRules = [...rules].sort((a, b) => Number(isRuleEnded(a)) - Number(isRuleEnded(b)) || b.amount - a.amount);
+  const typeCategories = activeCategories(categories, type, item);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setType('expense');
+    setAmount('');
+    setItem('');
+    setDescription('');
+    setFrequency('monthly');
+    setDay(1);
+    setStartDate(toDateInput(Date.now()));
+    setEndDate('');
+    setAccount('');
+  };
+
+  const handleEdit = (rule: RecurringRule) => {
+    setEditingId(rule.id);
+    setShowForm(true);
+    setType(rule.type);
+    setAmount(rule.amount.toString());
+    setItem(rule.item);
+    setDescription(rule.description);
+    setFrequency(rule.frequency);
+    setDay(rule.day);
+    setStartDate(toDateInput(rule.startDate));
+    setEndDate(rule.endDate !== undefined ? toDateInput(rule.endDate) : '');
+    setAccount(rule.account || '');
+  };
+
+  const handleSubmit = () => {
+    const numAmount = parseFloat(amount);
+    if (isNaN(numAmount) || numAmount <= 0) { alert(t('common.invalidAmount')); return; }
+    const selectedItem = item || typeCategories[0]?.id;
+    if (!selectedItem) { alert(t('recurring.errorCategory')); return; }
+    if (!description.trim()) { alert(t('recurring.errorDescription')); return; }
+    const start = fromDateInput(startDate);
+    const end = endDate ? fromDateInput(endDate) + 24 * 60 * 60 * 1000 : undefined;
+    if (end !== undefined && end <= start) { alert(t('recurring.errorEndDate')); return; }
+
+    const existing = rules.find(r => r.id === editingId);
+    onSave({
+      ...existing,
+      type,
+      amount: numAmount,
+      item: selectedItem,
+      description: description.trim(),
+      frequency,
+      day,
+      startDate: start,
+      endDate: end,
+      account: account || undefined,
+    });
+    resetForm();
+  };
+
+  // 恢復時從現在開始產生，暫停期間的紀錄不補上
+  const handleTogglePause = (rule: RecurringRule) => {
+    onSave(rule.paused ? { ...rule, paused: false, generatedThrough: Date.now() } : { ...rule, paused: true });
+  };
+
+  const handleEnd = (rule: RecurringRule) => {
+    if (!confirm(t('recurring.endConfirm', { description: rule.description }))) return;
+    onSave({ ...rule, endDate: Date.now() });
+  };
+
+  const handleDelete = (rule: RecurringRule) => {
+    if (!confirm(t('recurring.deleteConfirm', { description: rule.description }))) return;
+    onDelete(rule.id);
+  };
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500">
+      <div className="mb-6">
+        <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('title.recurring')}</h1>
+        <p className="text-sm text-slate-400 mt-1">{t('recurring.subtitle')}</p>
+      </div>
+
+      <div className="space-y-3 mb-8">
+        {sortedRules.length === 0 && (
+          <p className="text-slate-400 text-sm text-center py-10">{t('recurring.empty')}</p>
+        )}
+        {sortedRules.map(rule => {
+          const category = resolveCategory(categories, rule.item);
+          const ended = isRuleEnded(rule);
+          const next = !ended && !rule.paused ? nextOccurrence(rule) : undefined;
+          return (
+            <div key={rule.id} className={`bg-white rounded-[24px] p-4 flex items-center justify-between shadow-sm ${ended || rule.paused ? 'opacity-60' : ''}`}>
+              <div className="flex items-center gap-4 min-w-0">
+                <div
+                  className="flex items-center justify-center rounded-2xl size-12 shrink-0"
+                  style={{ backgroundColor: `${category.color}15`, color: category.color }}
+                >
+                  <span className="material-symbols-outlined text-xl">{category.icon}</span>
+                </div>
+                <div className="min-w-0">
+                  <p className={`font-extrabold ${rule.type === 'income' ? 'text-emerald-500' : 'text-text-main'}`}>
+                    {rule.type === 'income' ? '+' : ''}{formatMoney(rule.amount)}
+                    <span className="text-slate-500 text-xs font-medium ml-2">{rule.description}</span>
+                  </p>
+                  <p className="text-slate-400 text-[10px] font-bold mt-0.5">
+                    {describeRule(rule)}・{category.label}
+                    {ended ? `・${t('recurring.ended')}` : rule.paused ? `・${t('recurring.paused')}` : next ? `・${t('recurring.next', { date: formatDate(next, { month: 'numeric', day: 'numeric' }) })}` : ''}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center shrink-0">
+                {!ended && (
+                  <>
+                    <button onClick={() => handleTogglePause(rule)} className="text-slate-300 hover:text-primary p-1" title={rule.paused ? t('recurring.resume') : t('recurring.pause')}>
+                      <span className="material-symbols-outlined text-[20px]">{rule.paused ? 'play_circle' : 'pause_circle'}</span>
+                    </button>
+                    <button onClick={() => handleEdit(rule)} className="text-slate-300 hover:text-primary p-1" title={t('common.edit')}>
+                      <span className="material-symbols-outlined text-[20px]">edit</span>
+                    </button>
+                    <button onClick={() => handleEnd(rule)} className="text-slate-300 hover:text-orange-400 p-1" title={t('recurring.end')}>
+                      <span className="material-symbols-outlined text-[20px]">event_busy</span>
+                    </button>
+                  </>
+                )}
+                <button onClick={() => handleDelete(rule)} className="text-slate-300 hover:text-red-400 p-1" title={t('recurring.deleteRule')}>
+                  <span className="material-symbols-outlined text-[20px]">delete_outline</span>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {showForm ? (
+        <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4">
+          <h3 className="text-text-main text-base font-bold tracking-tight">{editingId ? t('recurring.edit') : t('recurring.add')}</h3>
+          <div className="flex bg-slate-50 p-1 rounded-full self-start w-fit">
+            {(['expense', 'income'] as TransactionType[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => { setType(kind); setItem(''); }}
+                className={`px-5 py-1.5 rounded-full text-xs font-bold transition-all ${type === kind ? 'bg-primary text-white shadow-md' : 'text-slate-400'}`}
+              >
+                {kind === 'income' ? t('common.income') : t('common.expense')}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none focus:border-primary"
+              placeholder={t('report.amountPlaceholder')}
+            />
+            <select
+              value={item || typeCategories[0]?.id || ''}
+              onChange={(e) => setItem(e.target.value)}
+              className="bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none"
+            >
+              {typeCategories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+          </div>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none focus:border-primary"
+            placeholder={t('recurring.descriptionPlaceholder')}
+          />
+          <select
+            value={account}
+            onChange={(e) => setAccount(e.target.value)}
+            className="w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none"
+          >
+            <option value="">{t('recurring.noAccount')}</option>
+            {activeAccounts(accounts, account).map(a => <option key={a.id} value={a.id}>{accountName(a)}</option>)}
+          </select>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={frequency}
+              onChange={(e) => { setFrequency(e.target.value as RecurringFrequency); setDay(1); }}
+              className="bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none"
+            >
+              <option value="monthly">{t('recurring.frequencyMonthly')}</option>
+              <option value="weekly">{t('recurring.frequencyWeekly')}</option>
+            </select>
+            <select
+              value={day}
+              onChange={(e) => setDay(Number(e.target.value))}
+              className="bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-text-main outline-none"
+            >
+              {frequency === 'weekly'
+                ? Array.from({ length: 7 }, (_, idx) => <option key={idx} value={idx}>{weekdayName(idx, 'long')}</option>)
+                : Array.from({ length: 31 }, (_, i) => <option key={i + 1} value={i + 1}>{t('chart.day', { day: i + 1 })}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-slate-400 text-[10px] font-black uppercase tracking-wider">
+              {t('recurring.startDate')}
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1 w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-sm text-text-main outline-none" />
+            </label>
+            <label className="text-slate-400 text-[10px] font-black uppercase tracking-wider">
+              {t('recurring.endDate')}
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1 w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-sm text-text-main outline-none" />
+            </label>
+          </div>
+          <p className="text-slate-400 text-xs">{t('recurring.backfillHint')}</p>
+          <div className="flex gap-3">
+            <button onClick={resetForm} className="flex-1 bg-slate-100 text-slate-500 font-bold py-3 rounded-2xl">{t('common.cancel')}</button>
+            <button onClick={handleSubmit} className="flex-1 bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20">{t('common.save')}</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 flex items-center justify-center gap-2 active:scale-[0.98] transition-all"
+        >
+          <span className="material-symbols-outlined">add</span>
+          {t('recurring.add')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Recurring;
@@ -1,9 +1,9 @@
 
 import React, { useState } from 'react';
 import { AppView, User } from '../types';
-import { auth, db } from '../services/firebase';
+import { auth } from '../services/firebase';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
-import { doc, setDoc } from 'firebase/firestore';
+import { t } from '../services/i18n';
 
 interface RegisterProps {
   onRegister: (user: User) => void;
@@ -20,15 +20,15 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
-      setError('請填寫所有欄位');
+      setError(t('register.errorMissing'));
       return;
     }
     if (password !== confirmPassword) {
-      setError('密碼不一致');
+      setError(t('register.errorMismatch'));
       return;
     }
     if (password.length < 6) {
-      setError('密碼長度至少需 6 個字元');
+      setError(t('register.errorTooShort'));
       return;
     }
 
@@ -39,12 +39,7 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       const fbUser = userCredential.user;
 
-      // 重要：建立 users/{uid} 文件
-      await setDoc(doc(db, 'users', fbUser.uid), {
-        email: fbUser.email,
-        createdAt: Date.now(),
-        lastLogin: Date.now()
-      });
+      // users/{uid} 文件由登入狀態監聽器的 ensureProfile 建立，與其他登入方式使用相同格式
 
       onRegister({
         uid: fbUser.uid,
@@ -53,11 +48,11 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
     } catch (err: any) {
       console.error(err);
       if (err.code === 'auth/email-already-in-use') {
-        setError('此電子郵件已被註冊');
+        setError(t('register.errorEmailInUse'));
       } else if (err.code === 'auth/invalid-email') {
-        setError('無效的電子郵件格式');
+        setError(t('register.errorInvalidEmail'));
       } else {
-        setError('註冊失敗：' + err.code);
+        setError(t('register.errorGeneric', { code: err.code }));
       }
     } finally {
       setLoading(false);
@@ -80,15 +75,15 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
         <div className="inline-flex items-center justify-center w-14 h-14 bg-primary-soft text-primary rounded-2xl mb-6 shadow-sm">
           <span className="material-symbols-outlined !text-3xl">account_balance_wallet</span>
         </div>
-        <h1 className="text-text-main tracking-tight text-3xl font-bold leading-tight pb-2">註冊新帳號</h1>
+        <h1 className="text-text-main tracking-tight text-3xl font-bold leading-tight pb-2">{t('register.title')}</h1>
         <p className="text-text-muted text-base font-normal leading-relaxed">
-          加入專為大學生設計的理財系統，<br/>掌握你的每一筆開銷。
+          {t('register.subtitle')}<br/>{t('register.subtitle2')}
         </p>
       </div>
 
       <form onSubmit={handleSubmit} className="flex flex-col gap-5 px-8">
         <div className="flex flex-col gap-2">
-          <label className="text-primary font-bold text-xs uppercase tracking-wider ml-1">電子郵件</label>
+          <label className="text-primary font-bold text-xs uppercase tracking-wider ml-1">{t('auth.email')}</label>
           <div className="relative">
             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-primary/40 material-symbols-outlined">mail</span>
             <input 
@@ -102,7 +97,7 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
           </div>
         </div>
         <div className="flex flex-col gap-2">
-          <label className="text-primary font-bold text-xs uppercase tracking-wider ml-1">密碼</label>
+          <label className="text-primary font-bold text-xs uppercase tracking-wider ml-1">{t('auth.password')}</label>
           <div className="relative">
             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-primary/40 material-symbols-outlined">lock</span>
             <input 
@@ -111,12 +106,12 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               className="form-input block w-full pl-12 pr-4 py-4 rounded-2xl border-none bg-primary-light/30 text-text-main focus:ring-2 focus:ring-primary focus:bg-white placeholder:text-slate-400 text-base transition-all disabled:opacity-50" 
-              placeholder="至少 6 個字元" 
+              placeholder={t('register.passwordPlaceholder')} 
             />
           </div>
         </div>
         <div className="flex flex-col gap-2">
-          <label className="text-primary font-bold text-xs uppercase tracking-wider ml-1">確認密碼</label>
+          <label className="text-primary font-bold text-xs uppercase tracking-wider ml-1">{t('register.confirmPassword')}</label>
           <div className="relative">
             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-primary/40 material-symbols-outlined">verified_user</span>
             <input 
@@ -125,7 +120,7 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
               value={confirmPassword}
               onChange={(e) => setConfirmPassword(e.target.value)}
               className="form-input block w-full pl-12 pr-4 py-4 rounded-2xl border-none bg-primary-light/30 text-text-main focus:ring-2 focus:ring-primary focus:bg-white placeholder:text-slate-400 text-base transition-all disabled:opacity-50" 
-              placeholder="再次輸入密碼" 
+              placeholder={t('register.confirmPlaceholder')} 
             />
           </div>
         </div>
@@ -141,19 +136,19 @@ const Register: React.FC<RegisterProps> = ({ onRegister, onNavigate }) => {
           disabled={loading}
           className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-4 rounded-2xl text-lg mt-4 shadow-xl shadow-primary/20 transition-all active:scale-[0.98] disabled:opacity-70"
         >
-          {loading ? '註冊中...' : '建立帳號'}
+          {loading ? t('register.submitting') : t('register.submit')}
         </button>
       </form>
 
       <div className="mt-auto px-8 pb-12 pt-4 text-center">
         <p className="text-text-muted text-base">
-          已有帳號？ 
+          {t('register.hasAccount')}
           <button 
             disabled={loading}
             onClick={() => onNavigate('LOGIN')}
             className="text-primary font-bold ml-2 hover:text-primary-dark transition-colors disabled:opacity-50 underline underline-offset-4"
           >
-            立即登入
+            {t('register.login')}
           </button>
         </p>
       </div>
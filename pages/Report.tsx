@@ -1,96 +1,376 @@
 
-import React, { useMemo, useState } from 'react';
-import { Expense, ExpenseItem } from '../types';
-import { ItemIcons, ItemLabels } from './Dashboard';
+import React, { useEffect, useMemo, useState } from 'react';
+import { BudgetCycle, BudgetPeriodRecord, Category, Expense, RecurringRule, SavingsGoal } from '../types';
+import { activeCategories, resolveCategory } from '../services/categories';
+import { budgetUsage, dailyCumulative, isIncome, summarizePeriod } from '../services/stats';
+import { Period, customPeriod, cycleMonthPeriod, cyclePeriodOf, cycleUnit, describeCycle, monthPeriod, periodFromKey, shiftCyclePeriod, yearAgoPeriod } from '../services/period';
+import { describeRule, upcomingFixedCosts } from '../services/recurring';
+import { rolloverHistory, savedThisYear } from '../services/rollover';
+import { goalProgress, goalStatus, requiredMonthly, surplusSetAside } from '../services/goals';
+import PeriodComparison from '../components/PeriodComparison';
+import TagSpendingReport from '../components/TagSpendingReport';
+import CategoryDonutChart from '../components/CategoryDonutChart';
+import SpendingPaceChart from '../components/SpendingPaceChart';
+import MonthlyStackedChart from '../components/MonthlyStackedChart';
+import BudgetCycleSettings from '../components/BudgetCycleSettings';
+import { currencySymbol, formatMoney } from '../services/currency';
+import { formatDate, formatNumber, formatTime, t } from '../services/i18n';
 
 interface ReportProps {
   expenses: Expense[];
+  categories: Category[];
   budget: number;
+  categoryBudgets: Record<string, number>;
   onUpdateBudget: (newBudget: number) => void;
+  onUpdateCategoryBudget: (item: string, limit: number | null) => void;
+  onRequestRange: (start: number, end: number) => void;
+  recurringRules: RecurringRule[];
+  onManageRecurring: () => void;
+  budgetCycle: BudgetCycle;
+  onUpdateBudgetCycle: (cycle: BudgetCycle) => void;
+  rolloverSince?: number;
+  periodRecords: BudgetPeriodRecord[];
+  onToggleRollover: (enabled: boolean) => void;
+  goals: SavingsGoal[];
+  onManageGoals: () => void;
+  periodKey?: string; // 網址指定的週期，未指定時為目前週期
+  onPeriodChange: (key?: string) => void;
 }
 
-const COLORS = [
-  '#135bec', // primary
-  '#3b82f6', 
-  '#60a5fa', 
-  '#93c5fd', 
-  '#1E3A8A', 
-  '#312E81', 
-  '#1E40AF', 
-  '#64748b'
-];
-
-const Report: React.FC<ReportProps> = ({ expenses, budget, onUpdateBudget }) => {
+const Report: React.FC<ReportProps> = ({ expenses, categories, budget: cycleBudget, categoryBudgets, onUpdateBudget, onUpdateCategoryBudget, onRequestRange, recurringRules, onManageRecurring, budgetCycle, onUpdateBudgetCycle, rolloverSince, periodRecords, onToggleRollover, goals, onManageGoals, periodKey, onPeriodChange }) => {
   const [isEditingBudget, setIsEditingBudget] = useState(false);
-  const [tempBudget, setTempBudget] = useState(budget.toString());
+  const [tempBudget, setTempBudget] = useState(cycleBudget.toString());
+  const [editingLimitItem, setEditingLimitItem] = useState<string | null>(null);
+  const [tempLimit, setTempLimit] = useState('');
+  const [newLimitItem, setNewLimitItem] = useState('');
+  const currentPeriod = useMemo(() => cyclePeriodOf(budgetCycle), [budgetCycle]);
+  const resolvePeriod = () => (periodKey && periodFromKey(budgetCycle, periodKey)) || cyclePeriodOf(budgetCycle);
+  const [period, setPeriod] = useState<Period>(resolvePeriod);
+  const [viewMode, setViewMode] = useState<'month' | 'year'>('month');
+  const [viewYear, setViewYear] = useState(() => new Date().getFullYear());
+  const [selectedItem, setSelectedItem] = useState<string | null>(null);
+  const [showCycleSettings, setShowCycleSettings] = useState(false);
 
-  const currentMonth = new Date().getMonth();
-  const currentYear = new Date().getFullYear();
+  // 網址或週期設定變更時重新對應週期 (使用者文件的其他欄位更新時不重設)
+  const cycleKey = JSON.stringify(budgetCycle);
+  useEffect(() => { setPeriod(resolvePeriod()); }, [cycleKey, periodKey]);
 
-  const monthlyData = useMemo(() => {
-    const monthExpenses = expenses.filter(e => {
-      const d = new Date(e.timestamp);
-      return d.getMonth() === currentMonth && d.getFullYear() === currentYear;
-    });
+  // 使用者切換週期時更新網址；目前週期不帶代碼
+  const selectPeriod = (target: Period) => {
+    setPeriod(target);
+    onPeriodChange(target.key === currentPeriod.key ? undefined : target.key);
+  };
+
+  const unit = cycleUnit(budgetCycle);
+  const isCalendar = budgetCycle.kind === 'calendar';
+  const isCurrentPeriod = period.key === currentPeriod.key;
+  // 自訂區間可設定專屬預算，其餘沿用每期預算
+  const baseBudget = period.budget ?? cycleBudget;
+
+  const rolloverRows = useMemo(
+    () => (rolloverSince === undefined ? [] : rolloverHistory(budgetCycle, expenses, periodRecords, cycleBudget, rolloverSince, currentPeriod, surplusSetAside(goals))),
+    [rolloverSince, budgetCycle, expenses, periodRecords, cycleBudget, currentPeriod, goals]
+  );
+  const rolloverRow = rolloverRows.find(row => row.period.key === period.key);
+  const savedSoFar = savedThisYear(rolloverRows);
+  // 結轉模式下，本期可用金額包含上期的結餘或超支
+  const budget = rolloverRow ? rolloverRow.available : baseBudget;
+  const nextPeriod = shiftCyclePeriod(budgetCycle, period, 1);
+  const canGoNext = !isCurrentPeriod && !!nextPeriod && nextPeriod.start <= Date.now();
 
-    const total = monthExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const monthlyData = useMemo(() => {
+    const summary = summarizePeriod(expenses, period.start, period.end);
+    const itemTotals: Record<string, number> = { ...summary.byCategory };
 
-    const itemTotals: Record<string, number> = {};
-    Object.values(ExpenseItem).forEach(type => itemTotals[type] = 0);
-    
-    monthExpenses.forEach(e => {
-      itemTotals[e.item] += e.amount;
+    // 有設定分類預算的項目即使本期尚未花費也列出
+    Object.keys(categoryBudgets).forEach(name => {
+      if (categoryBudgets[name] > 0 && itemTotals[name] === undefined) itemTotals[name] = 0;
     });
 
     const breakdownData = Object.entries(itemTotals)
-      .filter(([_, value]) => value > 0)
-      .map(([name, value]) => ({ 
-        name, 
-        label: ItemLabels[name as ExpenseItem] || name, 
-        value 
-      }))
+      .map(([name, value]) => {
+        const category = resolveCategory(categories, name);
+        return { name, label: category.label, icon: category.icon, color: category.color, value, limit: categoryBudgets[name] || 0 };
+      })
       .sort((a, b) => b.value - a.value);
 
-    return { total, breakdownData };
-  }, [expenses, currentMonth, currentYear]);
+    return { total: summary.total, income: summary.income, net: summary.net, summary, breakdownData };
+  }, [expenses, categories, categoryBudgets, period]);
+
+  const comparisonTargets = useMemo(() => {
+    const previous = shiftCyclePeriod(budgetCycle, period, -1);
+    const lastYear = yearAgoPeriod(budgetCycle, period);
+    const targets = [{ label: t('report.sameLastYear', { unit }), summary: summarizePeriod(expenses, lastYear.start, lastYear.end) }];
+    if (previous) targets.unshift({ label: t(isCalendar ? 'report.previousMonth' : 'report.previousPeriod'), summary: summarizePeriod(expenses, previous.start, previous.end) });
+    return targets;
+  }, [expenses, period, budgetCycle, unit, isCalendar]);
+
+  // 年度總覽固定以日曆月呈現
+  const yearData = useMemo(() => {
+    const months = Array.from({ length: 12 }, (_, m) => {
+      const p = monthPeriod(viewYear, m);
+      return { period: p, ...summarizePeriod(expenses, p.start, p.end) };
+    });
+    const total = months.reduce((sum, m) => sum + m.total, 0);
+    const income = months.reduce((sum, m) => sum + m.income, 0);
+    const maxValue = Math.max(1, ...months.map(m => Math.max(m.total, m.income)));
+    return { months, total, income, maxValue };
+  }, [expenses, viewYear]);
+
+  // 本期尚未發生的固定支出
+  const upcoming = useMemo(
+    () => (isCurrentPeriod ? upcomingFixedCosts(recurringRules, Date.now(), period.end) : []),
+    [recurringRules, isCurrentPeriod, period]
+  );
+  const upcomingTotal = upcoming.reduce((sum, u) => sum + u.rule.amount, 0);
+
+  const paceData = useMemo(() => dailyCumulative(expenses, period.start, period.end, Math.max(0, budget)), [expenses, period, budget]);
+
+  // 最近六期 (含目前選取的週期) 的分類堆疊資料
+  const trend = useMemo(() => {
+    const periods = Array.from({ length: 6 }, (_, i) => shiftCyclePeriod(budgetCycle, period, i - 5))
+      .filter((p): p is Period => p !== null);
+    const usedItems = new Set<string>();
+    const data = periods.map(p => {
+      const byCategory = summarizePeriod(expenses, p.start, p.end).byCategory;
+      Object.keys(byCategory).forEach(item => usedItems.add(item));
+      return { key: p.key, label: p.shortLabel, ...byCategory };
+    });
+    const stackCategories = [...usedItems].map(item => resolveCategory(categories, item)).sort((a, b) => a.order - b.order);
+    return { periods, data, stackCategories };
+  }, [expenses, categories, period, budgetCycle]);
+
+  const drillExpenses = useMemo(() => {
+    if (!selectedItem) return [];
+    return expenses
+      .filter(e => !isIncome(e) && e.item === selectedItem && e.timestamp >= period.start && e.timestamp < period.end)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }, [expenses, selectedItem, period]);
+
+  useEffect(() => { setSelectedItem(null); }, [period.key]);
+
+  // 只載入目前畫面需要的區間：單期報表含近六期與去年同期，年度總覽為整年
+  useEffect(() => {
+    if (viewMode === 'year') {
+      onRequestRange(monthPeriod(viewYear, 0).start, monthPeriod(viewYear, 12).start);
+      return;
+    }
+    const lastYear = yearAgoPeriod(budgetCycle, period);
+    if (rolloverSince !== undefined) onRequestRange(cyclePeriodOf(budgetCycle, rolloverSince).start, currentPeriod.end);
+    onRequestRange(Math.min(trend.periods[0]?.start ?? period.start, period.start), period.end);
+    onRequestRange(lastYear.start, lastYear.end);
+  }, [viewMode, period, viewYear, budgetCycle, trend.periods, rolloverSince, currentPeriod, onRequestRange]);
+
+  const handleShift = (offset: number) => {
+    if (viewMode === 'year') {
+      setViewYear(year => year + offset);
+      return;
+    }
+    const target = shiftCyclePeriod(budgetCycle, period, offset);
+    if (target) selectPeriod(target);
+  };
+
+  const handlePickMonth = (key: string) => {
+    const match = /^(\d{4})-(\d{2})$/.exec(key);
+    if (match) selectPeriod(cycleMonthPeriod(budgetCycle, Number(match[1]), Number(match[2]) - 1));
+  };
+
+  const handleSelectTrend = (key: string) => {
+    const picked = trend.periods.find(p => p.key === key);
+    if (picked) selectPeriod(picked);
+  };
+
+  const handleViewMode = (mode: 'month' | 'year') => {
+    if (mode === 'year') setViewYear(new Date(period.start).getFullYear());
+    setViewMode(mode);
+  };
+
+  const unbudgetedCategories = activeCategories(categories, 'expense').filter(c => !categoryBudgets[c.id]);
 
-  const spentPercentageValue = Math.round((monthlyData.total / budget) * 100);
-  const spentPercentageBar = Math.min(100, (monthlyData.total / budget) * 100);
-  const isOverBudget = monthlyData.total > budget;
+  const usage = budgetUsage(monthlyData.total, budget);
+  const spentPercentageValue = Math.round(usage.percent);
+  const spentPercentageBar = Math.min(100, usage.percent);
+  const isOverBudget = usage.over;
+  const overLimitLabels = monthlyData.breakdownData.filter(d => d.limit > 0 && d.value > d.limit).map(d => d.label);
+
+  // 進行中的儲蓄目標，落後或逾期的排在前面，其次依期限先後
+  const activeGoals = goals
+    .map(goal => ({ goal, status: goalStatus(goal) }))
+    .filter(({ status }) => status !== 'done')
+    .sort((a, b) => Number(b.status !== 'on_track') - Number(a.status !== 'on_track') || a.goal.deadline - b.goal.deadline);
+  const focusGoal = activeGoals[0];
 
   const handleSaveBudget = () => {
     const newBudget = parseFloat(tempBudget);
     if (!isNaN(newBudget) && newBudget > 0) {
-      onUpdateBudget(newBudget);
+      // 有專屬預算的自訂區間只更新該區間
+      if (budgetCycle.kind === 'custom' && period.budget !== undefined) {
+        onUpdateBudgetCycle({
+          ...budgetCycle,
+          ranges: budgetCycle.ranges.map(r => (customPeriod(r).key === period.key ? { ...r, budget: newBudget } : r)),
+        });
+      } else {
+        onUpdateBudget(newBudget);
+      }
       setIsEditingBudget(false);
     } else {
-      alert('請輸入有效的金額');
+      alert(t('common.invalidAmount'));
+    }
+  };
+
+  // 輸入 0 或留空代表取消該分類的預算
+  const handleSaveLimit = (item: string) => {
+    const limit = tempLimit.trim() === '' ? 0 : parseFloat(tempLimit);
+    if (isNaN(limit) || limit < 0) {
+      alert(t('common.invalidAmount'));
+      return;
     }
+    onUpdateCategoryBudget(item, limit > 0 ? limit : null);
+    setEditingLimitItem(null);
+    setNewLimitItem('');
   };
 
   return (
     <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500 overflow-y-auto">
+      {/* 期間切換 */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex bg-white p-1 rounded-full border border-primary-soft shadow-sm">
+          {(['month', 'year'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => handleViewMode(mode)}
+              className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${viewMode === mode ? 'bg-primary text-white shadow-md' : 'text-slate-400'}`}
+            >
+              {mode === 'month' ? t(isCalendar ? 'report.monthly' : 'report.periodic') : t('report.yearly')}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          {!isCurrentPeriod && viewMode === 'month' && (
+            <button onClick={() => selectPeriod(currentPeriod)} className="text-primary text-xs font-bold underline underline-offset-4">{t('report.backToCurrent', { unit })}</button>
+          )}
+          <button onClick={() => setShowCycleSettings(!showCycleSettings)} className="text-slate-400 hover:text-primary text-xs font-bold flex items-center gap-0.5" title={t('cycle.title')}>
+            <span className="material-symbols-outlined text-base">date_range</span>
+            {describeCycle(budgetCycle)}
+          </button>
+        </div>
+      </div>
+      {showCycleSettings && (
+        <BudgetCycleSettings cycle={budgetCycle} onSave={onUpdateBudgetCycle} onClose={() => setShowCycleSettings(false)} />
+      )}
+      <div className="flex items-center justify-between bg-white rounded-[24px] p-2 border border-blue-50 shadow-sm mb-6">
+        <button onClick={() => handleShift(-1)} className="size-10 flex items-center justify-center text-primary rounded-full hover:bg-primary-light">
+          <span className="material-symbols-outlined">chevron_left</span>
+        </button>
+        {viewMode === 'year' ? (
+          <span className="text-text-main font-black">{t('report.year', { year: viewYear })}</span>
+        ) : budgetCycle.kind === 'custom' ? (
+          <select
+            value={period.key}
+            onChange={(e) => {
+              const range = budgetCycle.ranges.find(r => customPeriod(r).key === e.target.value);
+              if (range) selectPeriod(customPeriod(range));
+            }}
+            className="bg-transparent border-none text-center text-text-main font-black focus:ring-0 outline-none"
+          >
+            {!budgetCycle.ranges.some(r => customPeriod(r).key === period.key) && <option value={period.key}>{period.label}</option>}
+            {[...budgetCycle.ranges].sort((a, b) => a.start - b.start).map(r => <option key={r.id} value={customPeriod(r).key}>{r.label}</option>)}
+          </select>
+        ) : (
+          <div className="flex flex-col items-center">
+            <input
+              type="month"
+              value={period.key}
+              max={currentPeriod.key}
+              onChange={(e) => handlePickMonth(e.target.value)}
+              className="bg-transparent border-none text-center text-text-main font-black focus:ring-0 outline-none"
+            />
+            {budgetCycle.kind === 'startDay' && <span className="text-slate-400 text-[10px] font-bold">{period.label}</span>}
+          </div>
+        )}
+        <button
+          onClick={() => handleShift(1)}
+          disabled={viewMode === 'month' ? !canGoNext : viewYear >= new Date().getFullYear()}
+          className="size-10 flex items-center justify-center text-primary rounded-full hover:bg-primary-light disabled:opacity-20"
+        >
+          <span className="material-symbols-outlined">chevron_right</span>
+        </button>
+      </div>
+
+      {viewMode === 'year' ? (
+        <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+          <div className="grid grid-cols-3 gap-2 text-center border-b border-slate-50 pb-6 mb-6">
+            <div>
+              <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.yearIncome')}</p>
+              <span className="text-lg font-bold text-emerald-500">{formatMoney(yearData.income)}</span>
+            </div>
+            <div className="border-x border-slate-50">
+              <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.yearSpent')}</p>
+              <span className="text-lg font-bold text-text-main/80">{formatMoney(yearData.total)}</span>
+            </div>
+            <div>
+              <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.net')}</p>
+              <span className={`text-lg font-bold ${yearData.income - yearData.total < 0 ? 'text-orange-400' : 'text-emerald-500'}`}>
+                {yearData.income - yearData.total < 0 ? '-' : '+'}{formatMoney(Math.abs(yearData.income - yearData.total))}
+              </span>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {yearData.months.map(m => (
+              <button
+                key={m.period.key}
+                onClick={() => { selectPeriod(cycleMonthPeriod(budgetCycle, viewYear, new Date(m.period.start).getMonth())); setViewMode('month'); }}
+                className="w-full flex items-center gap-3 group"
+              >
+                <span className="w-10 text-left text-xs font-bold text-slate-400 group-hover:text-primary">{formatDate(m.period.start, { month: 'short' })}</span>
+                <div className="flex-1 space-y-1">
+                  <div className="h-2 bg-primary rounded-full transition-all" style={{ width: `${(m.total / yearData.maxValue) * 100}%` }} />
+                  <div className="h-2 bg-emerald-400 rounded-full transition-all" style={{ width: `${(m.income / yearData.maxValue) * 100}%` }} />
+                </div>
+                <span className="w-20 text-right text-xs font-bold text-text-main">{formatMoney(m.total)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+      <>
       {/* 每月總計摘要 - 至中對齊 */}
       <div className="relative overflow-hidden bg-white rounded-[32px] p-8 border border-blue-50 shadow-sm mb-6 flex flex-col items-center">
         <div className="absolute top-0 right-0 p-4 opacity-[0.03] pointer-events-none">
           <span className="material-symbols-outlined text-[140px] text-primary rotate-12">receipt_long</span>
         </div>
         <div className="relative z-10 text-center">
-          <p className="text-slate-400 text-xs font-black uppercase tracking-[0.2em] mb-3">本月支出總計 ({currentMonth + 1}月)</p>
+          <p className="text-slate-400 text-xs font-black uppercase tracking-[0.2em] mb-3">{t('report.totalSpent', { period: period.label })}</p>
           <div className="flex items-baseline justify-center gap-2 mb-4">
-            <span className="text-text-main text-3xl font-bold">$</span>
+            <span className="text-text-main text-3xl font-bold">{currencySymbol()}</span>
             <h1 className="text-text-main text-6xl font-extrabold tracking-tighter italic">
-              {monthlyData.total.toLocaleString()}
+              {formatNumber(monthlyData.total)}
             </h1>
           </div>
-          <p className="text-slate-400 text-[10px] font-medium italic">最後更新: {new Date().toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })}</p>
+          <p className="text-slate-400 text-[10px] font-medium italic">{t('report.lastUpdated', { time: formatTime(Date.now(), { hour: '2-digit', minute: '2-digit' }) })}</p>
+        </div>
+        <div className="relative z-10 w-full grid grid-cols-3 gap-2 border-t border-slate-50 pt-6 mt-6 text-center">
+          <div className="flex flex-col">
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('common.income')}</p>
+            <span className="text-lg font-bold text-emerald-500">{formatMoney(monthlyData.income)}</span>
+          </div>
+          <div className="flex flex-col border-x border-slate-50">
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('common.expense')}</p>
+            <span className="text-lg font-bold text-text-main/80">{formatMoney(monthlyData.total)}</span>
+          </div>
+          <div className="flex flex-col">
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.net')}</p>
+            <span className={`text-lg font-bold ${monthlyData.net < 0 ? 'text-orange-400' : 'text-emerald-500'}`}>
+              {monthlyData.net < 0 ? '-' : '+'}{formatMoney(Math.abs(monthlyData.net))}
+            </span>
+          </div>
         </div>
       </div>
 
       {/* 預算與占比卡片 - 占比靠左對齊且字體稍小 */}
       <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
         <div className="w-full mb-6">
-          <p className="text-text-main text-xs font-black uppercase tracking-[0.2em] mb-2 text-left opacity-60">支出占比</p>
+          <p className="text-text-main text-xs font-black uppercase tracking-[0.2em] mb-2 text-left opacity-60">{t('report.spentRatio')}</p>
           <h2 className={`text-5xl font-black tracking-tighter italic text-left text-text-main`}>
             {spentPercentageValue}%
           </h2>
@@ -110,7 +390,7 @@ const Report: React.FC<ReportProps> = ({ expenses, budget, onUpdateBudget }) =>
 
         <div className="w-full grid grid-cols-2 gap-4 border-t border-slate-50 pt-6">
           <div className="flex flex-col border-r border-slate-50">
-            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">當月預算設定</p>
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.budget', { unit })}</p>
             {isEditingBudget ? (
               <div className="flex items-center gap-2">
                 <input 
@@ -126,65 +406,233 @@ const Report: React.FC<ReportProps> = ({ expenses, budget, onUpdateBudget }) =>
               </div>
             ) : (
               <div className="flex items-center gap-2">
-                <span className="text-lg font-bold text-text-main/80">${budget.toLocaleString()}</span>
-                <button onClick={() => { setTempBudget(budget.toString()); setIsEditingBudget(true); }} className="text-slate-300 hover:text-primary transition-colors">
-                  <span className="material-symbols-outlined text-sm">edit</span>
-                </button>
+                <span className="text-lg font-bold text-text-main/80">{formatMoney(rolloverRow?.budget ?? baseBudget)}</span>
+                {!rolloverRow?.closed && (
+                  <button onClick={() => { setTempBudget(baseBudget.toString()); setIsEditingBudget(true); }} className="text-slate-300 hover:text-primary transition-colors">
+                    <span className="material-symbols-outlined text-sm">edit</span>
+                  </button>
+                )}
               </div>
             )}
+            {rolloverRow && rolloverRow.carryIn !== 0 && (
+              <span className={`text-[10px] font-bold ${rolloverRow.carryIn < 0 ? 'text-orange-400' : 'text-emerald-500'}`}>
+                {t('report.carryIn', { amount: `${rolloverRow.carryIn < 0 ? '-' : '+'}${formatMoney(Math.abs(rolloverRow.carryIn))}` })}
+              </span>
+            )}
           </div>
           <div className="flex flex-col pl-2">
-             <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">剩餘可用</p>
+             <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.remaining')}</p>
              <span className={`text-lg font-bold ${isOverBudget ? 'text-orange-400' : 'text-slate-600'}`}>
-               {isOverBudget ? `超支 $${(monthlyData.total - budget).toLocaleString()}` : `$${(budget - monthlyData.total).toLocaleString()}`}
+               {isOverBudget ? t('report.overBy', { amount: formatMoney(monthlyData.total - budget) }) : formatMoney(budget - monthlyData.total)}
              </span>
           </div>
         </div>
       </div>
 
+      {/* 預算結轉 */}
+      <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-text-main text-xl font-black tracking-tight mb-1">{t('report.rollover')}</h3>
+            <p className="text-slate-400 text-xs font-medium">{t('report.rolloverHint')}</p>
+          </div>
+          <button
+            onClick={() => onToggleRollover(rolloverSince === undefined)}
+            className={`relative w-12 h-7 rounded-full transition-colors shrink-0 ${rolloverSince !== undefined ? 'bg-primary' : 'bg-slate-200'}`}
+            title={t(rolloverSince !== undefined ? 'report.rolloverOff' : 'report.rolloverOn')}
+          >
+            <span className={`absolute top-1 size-5 bg-white rounded-full shadow transition-all ${rolloverSince !== undefined ? 'left-6' : 'left-1'}`} />
+          </button>
+        </div>
+        {rolloverSince !== undefined && (
+          <>
+            <div className="grid grid-cols-2 gap-4 border-t border-slate-50 pt-6 mt-6">
+              <div className="flex flex-col border-r border-slate-50">
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.savedThisYear')}</p>
+                <span className={`text-lg font-bold ${savedSoFar < 0 ? 'text-orange-400' : 'text-emerald-500'}`}>
+                  {savedSoFar < 0 ? '-' : ''}{formatMoney(Math.abs(savedSoFar))}
+                </span>
+              </div>
+              <div className="flex flex-col pl-2">
+                <p className="text-slate-400 text-[10px] font-black uppercase tracking-wider mb-1">{t('report.carryTotal')}</p>
+                <span className={`text-lg font-bold ${(rolloverRows[rolloverRows.length - 1]?.carryIn ?? 0) < 0 ? 'text-orange-400' : 'text-slate-600'}`}>
+                  {formatMoney(rolloverRows[rolloverRows.length - 1]?.carryIn ?? 0)}
+                </span>
+              </div>
+            </div>
+            {rolloverRows.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <div className="grid grid-cols-4 text-[10px] font-black text-slate-400 uppercase tracking-wider">
+                  <span>{t('report.colPeriod')}</span>
+                  <span className="text-right">{t('report.colBudget')}</span>
+                  <span className="text-right">{t('report.colSpent')}</span>
+                  <span className="text-right">{t('report.colCarry')}</span>
+                </div>
+                {[...rolloverRows].reverse().map(row => (
+                  <button
+                    key={row.period.key}
+                    onClick={() => selectPeriod(row.period)}
+                    className={`w-full grid grid-cols-4 text-xs py-1.5 rounded-lg hover:bg-slate-50 ${row.period.key === period.key ? 'font-black text-primary' : 'text-text-main'}`}
+                  >
+                    <span className="text-left truncate">{row.closed ? row.period.shortLabel : t('report.inProgress', { label: row.period.shortLabel })}</span>
+                    <span className="text-right">{formatMoney(row.budget)}</span>
+                    <span className="text-right">{formatMoney(row.spent)}</span>
+                    <span
+                      className={`text-right font-bold ${row.carryOut < 0 ? 'text-orange-400' : 'text-emerald-500'}`}
+                      title={row.setAside > 0 ? t('report.setAside', { amount: formatMoney(row.setAside) }) : undefined}
+                    >
+                      {row.carryOut < 0 ? '-' : '+'}{formatMoney(Math.abs(row.carryOut))}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* 每日累計支出與預算進度 */}
+      <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+        <h3 className="text-text-main text-xl font-black tracking-tight mb-1">{t('report.pace')}</h3>
+        <p className="text-slate-400 text-xs font-medium mb-6">{t('report.paceHint')}</p>
+        <SpendingPaceChart data={paceData} />
+      </div>
+
+      {/* 本期剩餘的固定支出 */}
+      {isCurrentPeriod && (
+        <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h3 className="text-text-main text-xl font-black tracking-tight mb-1">{t('report.upcoming')}</h3>
+              <p className="text-slate-400 text-xs font-medium">
+                {upcoming.length > 0 ? t('report.upcomingCount', { unit, count: upcoming.length, amount: formatMoney(upcomingTotal) }) : t('report.upcomingNone', { unit })}
+              </p>
+            </div>
+            <button onClick={onManageRecurring} className="text-primary text-xs font-bold flex items-center gap-0.5 shrink-0">
+              {t('common.manage')}
+              <span className="material-symbols-outlined text-sm">chevron_right</span>
+            </button>
+          </div>
+          {upcoming.length > 0 && (
+            <div className="space-y-3">
+              {upcoming.map(({ rule, timestamp }) => {
+                const category = resolveCategory(categories, rule.item);
+                return (
+                  <div key={`${rule.id}-${timestamp}`} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="material-symbols-outlined text-lg" style={{ color: category.color }}>{category.icon}</span>
+                      <div className="min-w-0">
+                        <p className="text-text-main font-bold truncate">{rule.description}</p>
+                        <p className="text-slate-400 text-[10px]">
+                          {formatDate(timestamp, { month: 'long', day: 'numeric' })}・{describeRule(rule)}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="text-text-main font-black shrink-0 ml-3">{formatMoney(rule.amount)}</span>
+                  </div>
+                );
+              })}
+              {budget - monthlyData.total - upcomingTotal < 0 && (
+                <p className="text-orange-500 text-xs font-bold pt-2">{t('report.upcomingOver', { unit, amount: formatMoney(monthlyData.total + upcomingTotal - budget) })}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 放大版的分類支出總覽 */}
       <div className="bg-white rounded-[40px] p-8 shadow-sm border border-blue-50 mb-8">
         <div className="flex justify-between items-center mb-10">
           <div>
-            <h3 className="text-text-main text-2xl font-black tracking-tight">支出分類詳情</h3>
-            <p className="text-slate-400 text-sm font-medium mt-1">詳細列出各項目的消費金額與佔比</p>
+            <h3 className="text-text-main text-2xl font-black tracking-tight">{t('report.breakdown')}</h3>
+            <p className="text-slate-400 text-sm font-medium mt-1">{t('report.breakdownHint')}</p>
           </div>
           <div className="bg-blue-50 p-4 rounded-2xl text-primary">
             <span className="material-symbols-outlined text-2xl">pie_chart</span>
           </div>
         </div>
 
+        {monthlyData.total > 0 && (
+          <div className="mb-10">
+            <CategoryDonutChart data={monthlyData.breakdownData} total={monthlyData.total} selected={selectedItem} onSelect={setSelectedItem} />
+            {selectedItem && (
+              <div className="mt-6 bg-slate-50 rounded-[24px] p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-text-main text-sm font-black">{t('report.drillTitle', { label: resolveCategory(categories, selectedItem).label, count: drillExpenses.length })}</p>
+                  <button onClick={() => setSelectedItem(null)} className="text-slate-400 hover:text-primary">
+                    <span className="material-symbols-outlined text-lg">close</span>
+                  </button>
+                </div>
+                {drillExpenses.map(e => (
+                  <div key={e.id} className="flex items-center justify-between text-xs">
+                    <div className="min-w-0">
+                      <p className="text-text-main font-bold truncate">{e.description}</p>
+                      <p className="text-slate-400">{formatDate(e.timestamp, { month: 'long', day: 'numeric' })}</p>
+                    </div>
+                    <span className="text-text-main font-black shrink-0 ml-3">{formatMoney(e.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {monthlyData.breakdownData.length > 0 ? (
           <div className="space-y-8">
-             {monthlyData.breakdownData.map((dataItem, idx) => {
-               const percentage = ((dataItem.value / monthlyData.total) * 100).toFixed(1);
+             {monthlyData.breakdownData.map((dataItem) => {
+               const percentage = monthlyData.total > 0 ? ((dataItem.value / monthlyData.total) * 100).toFixed(1) : '0.0';
+               const isOverLimit = dataItem.limit > 0 && dataItem.value > dataItem.limit;
+               const barWidth = dataItem.limit > 0 ? Math.min(100, (dataItem.value / dataItem.limit) * 100) : Number(percentage);
                return (
                  <div key={dataItem.name} className="flex items-center justify-between group">
                    <div className="flex items-center gap-5">
                      <div 
                        className="size-16 rounded-2xl flex items-center justify-center border border-blue-50 shadow-md transition-transform group-hover:scale-110"
-                       style={{ backgroundColor: `${COLORS[idx % COLORS.length]}15`, color: COLORS[idx % COLORS.length] }}
+                       style={{ backgroundColor: `${dataItem.color}15`, color: dataItem.color }}
                      >
                        <span className="material-symbols-outlined text-[32px] font-bold">
-                         {ItemIcons[dataItem.name as ExpenseItem] || 'label'}
+                         {dataItem.icon}
                        </span>
                      </div>
                      <div>
                        <span className="text-xl font-black text-text-main block leading-tight mb-1">{dataItem.label}</span>
-                       <span className="text-xs font-bold text-slate-400 tracking-widest uppercase">佔比 {percentage}%</span>
+                       <span className="text-xs font-bold text-slate-400 tracking-widest uppercase">{t('report.share', { percent: percentage })}</span>
                      </div>
                    </div>
                    <div className="text-right">
                      <div className="flex items-baseline justify-end gap-1 mb-2">
-                        <span className="text-text-main text-sm font-bold">$</span>
-                        <span className="text-2xl font-black text-text-main leading-none">{dataItem.value.toLocaleString()}</span>
+                        <span className="text-text-main text-sm font-bold">{currencySymbol()}</span>
+                        <span className={`text-2xl font-black leading-none ${isOverLimit ? 'text-orange-500' : 'text-text-main'}`}>{formatNumber(dataItem.value)}</span>
                      </div>
                      <div className="w-24 h-2 bg-slate-100 rounded-full overflow-hidden ml-auto">
                        <div 
                          className="h-full rounded-full transition-all duration-1000"
-                         style={{ width: `${percentage}%`, backgroundColor: COLORS[idx % COLORS.length] }}
+                         style={{ width: `${barWidth}%`, backgroundColor: isOverLimit ? '#f97316' : dataItem.color }}
                        />
                      </div>
+                     {editingLimitItem === dataItem.name ? (
+                       <div className="flex items-center justify-end gap-1 mt-2">
+                         <input
+                           type="number"
+                           value={tempLimit}
+                           onChange={(e) => setTempLimit(e.target.value)}
+                           className="w-20 border-b-2 border-primary bg-transparent text-xs font-bold text-primary outline-none focus:ring-0 p-0 text-right"
+                           placeholder={t('report.limitPlaceholder')}
+                           autoFocus
+                         />
+                         <button onClick={() => handleSaveLimit(dataItem.name)} className="text-primary">
+                           <span className="material-symbols-outlined text-base">done</span>
+                         </button>
+                       </div>
+                     ) : (
+                       <button
+                         onClick={() => { setEditingLimitItem(dataItem.name); setTempLimit(dataItem.limit ? dataItem.limit.toString() : ''); }}
+                         className={`mt-2 text-[10px] font-bold flex items-center gap-0.5 ml-auto ${isOverLimit ? 'text-orange-500' : 'text-slate-400 hover:text-primary'}`}
+                       >
+                         {dataItem.limit > 0 ? `${t('report.limit', { amount: formatMoney(dataItem.limit) })}${isOverLimit ? t('report.limitOver', { amount: formatMoney(dataItem.value - dataItem.limit) }) : ''}` : t('report.setLimit')}
+                         <span className="material-symbols-outlined text-xs">edit</span>
+                       </button>
+                     )}
                    </div>
                  </div>
                );
@@ -195,28 +643,83 @@ const Report: React.FC<ReportProps> = ({ expenses, budget, onUpdateBudget }) =>
             <div className="size-24 bg-slate-50 rounded-full flex items-center justify-center text-slate-200 mb-8">
               <span className="material-symbols-outlined text-6xl">list_alt</span>
             </div>
-            <p className="text-slate-400 text-xl font-bold tracking-tight">本月尚無消費紀錄</p>
-            <p className="text-slate-300 text-sm mt-2 font-medium">請開始在首頁記錄您的第一筆開銷</p>
+            <p className="text-slate-400 text-xl font-bold tracking-tight">{t('report.empty')}</p>
+            <p className="text-slate-300 text-sm mt-2 font-medium">{t('report.emptyHint')}</p>
+          </div>
+        )}
+
+        {unbudgetedCategories.length > 0 && (
+          <div className="flex items-center gap-2 border-t border-slate-50 pt-6 mt-8">
+            <select
+              value={newLimitItem}
+              onChange={(e) => { setNewLimitItem(e.target.value); setTempLimit(''); }}
+              className="flex-1 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm text-text-main outline-none"
+            >
+              <option value="">{t('report.addLimit')}</option>
+              {unbudgetedCategories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+            {newLimitItem && (
+              <>
+                <input
+                  type="number"
+                  value={tempLimit}
+                  onChange={(e) => setTempLimit(e.target.value)}
+                  className="w-24 bg-primary-light/30 border border-primary-soft rounded-xl py-2 px-3 text-sm text-text-main outline-none"
+                  placeholder={t('report.amountPlaceholder')}
+                />
+                <button onClick={() => handleSaveLimit(newLimitItem)} className="text-primary">
+                  <span className="material-symbols-outlined text-xl">done</span>
+                </button>
+              </>
+            )}
           </div>
         )}
       </div>
 
+      <PeriodComparison current={monthlyData.summary} targets={comparisonTargets} categories={categories} />
+
+      <TagSpendingReport expenses={expenses} period={period} onRequestRange={onRequestRange} />
+
+      {/* 近六期分類趨勢 */}
+      <div className="bg-white rounded-[32px] p-8 shadow-sm border border-blue-50 mb-8">
+        <h3 className="text-text-main text-xl font-black tracking-tight mb-1">{t(isCalendar ? 'report.trendMonths' : 'report.trendPeriods')}</h3>
+        <p className="text-slate-400 text-xs font-medium mb-6">{t('report.trendHint')}</p>
+        <MonthlyStackedChart data={trend.data} categories={trend.stackCategories} onSelectMonth={handleSelectTrend} />
+      </div>
+      </>
+      )}
+
       {/* 理財建議卡片 */}
       <div className="bg-primary text-white rounded-[32px] p-8 shadow-2xl shadow-primary/20 flex items-start gap-5">
         <div className="bg-white/20 p-3 rounded-2xl shrink-0">
           <span className="material-symbols-outlined text-2xl">auto_awesome</span>
         </div>
         <div>
-          <h4 className="font-black text-lg mb-2">智慧理財建議</h4>
+          <h4 className="font-black text-lg mb-2">{t('report.advice')}</h4>
           <p className="text-white/80 text-sm leading-relaxed font-medium">
             {isOverBudget ? (
-              <>警告！您的支出已超過預算，建議減少非必要支出，以維持財務健康。</>
-            ) : monthlyData.breakdownData.length > 0 ? (
-              <>您目前掌握良好，{monthlyData.breakdownData[0].label} 是本月最大支出。繼續保持記帳，讓每一塊錢都發揮價值！</>
+              t('report.adviceOverBudget')
+            ) : overLimitLabels.length > 0 ? (
+              t('report.adviceOverLimit', { labels: overLimitLabels.join(t('common.listSeparator')) })
+            ) : monthlyData.total > 0 ? (
+              t('report.adviceGood', { label: monthlyData.breakdownData[0].label, unit })
             ) : (
-              <>養成良好的記帳習慣，是通往財富自由的第一步。今天就開始記錄您的每一筆消費吧！</>
+              t('report.adviceStart')
+            )}
+            {focusGoal && (
+              focusGoal.status === 'overdue' ? (
+                t('report.goalOverdue', { name: focusGoal.goal.name, amount: formatMoney(requiredMonthly(focusGoal.goal)) })
+              ) : focusGoal.status === 'behind' ? (
+                t('report.goalBehind', { name: focusGoal.goal.name, amount: formatMoney(requiredMonthly(focusGoal.goal)), deadline: formatDate(focusGoal.goal.deadline, { year: 'numeric', month: 'numeric' }) })
+              ) : (
+                t('report.goalOnTrack', { count: activeGoals.length, name: focusGoal.goal.name, percent: Math.round(goalProgress(focusGoal.goal) * 100) })
+              )
             )}
           </p>
+          <button onClick={onManageGoals} className="mt-4 inline-flex items-center gap-1 bg-white/20 hover:bg-white/30 rounded-full px-4 py-1.5 text-xs font-bold transition-colors">
+            <span className="material-symbols-outlined text-base">savings</span>
+            {goals.length > 0 ? t('report.viewGoals') : t('report.setGoals')}
+          </button>
         </div>
       </div>
     </div>
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Category, User, UserPreferences } from '../types';
+import { activeCategories } from '../services/categories';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../services/currency';
+import { LOCALES, getLocale, t } from '../services/i18n';
+import { authErrorMessage, changePassword, isPasswordUser, reauthenticate } from '../services/account';
+import { InvalidDocument, MigrationReport } from '../services/repository';
+
+interface SettingsProps {
+  user: User;
+  categories: Category[];
+  preferences: UserPreferences;
+  onUpdateProfile: (changes: { displayName?: string; photoURL?: string }) => Promise<void>;
+  onUpdatePreferences: (preferences: UserPreferences) => void;
+  onDeleteAccount: () => Promise<void>;
+  invalidDocuments: InvalidDocument[];
+  onMigrateData: () => Promise<MigrationReport>;
+}
+
+const inputClass = 'w-full bg-primary-light/30 border border-primary-soft rounded-2xl p-3 text-sm text-text-main outline-none focus:border-primary';
+const labelClass = 'text-slate-400 text-[10px] font-black uppercase tracking-wider';
+
+const Settings: React.FC<SettingsProps> = ({ user, categories, preferences, onUpdateProfile, onUpdatePreferences, onDeleteAccount, invalidDocuments, onMigrateData }) => {
+  const [displayName, setDisplayName] = useState(user.displayName || '');
+  const [photoURL, setPhotoURL] = useState(user.photoURL || '');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [deleteText, setDeleteText] = useState('');
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+
+  const passwordUser = isPasswordUser();
+  const deleteConfirmText = t('settings.deleteConfirmText');
+  const expenseCategories = activeCategories(categories, 'expense', preferences.defaultCategory);
+
+  const handleSaveProfile = async () => {
+    setSavingProfile(true);
+    try {
+      await onUpdateProfile({ displayName: displayName.trim() || undefined, photoURL: photoURL.trim() || undefined });
+      alert(t('settings.profileSaved'));
+    } catch (err: any) {
+      alert(t('settings.errorProfile', { message: authErrorMessage(err) }));
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword) { alert(t('settings.errorPasswordMissing')); return; }
+    if (newPassword !== confirmPassword) { alert(t('settings.errorPasswordMismatch')); return; }
+    setChangingPassword(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      alert(t('settings.passwordSaved'));
+    } catch (err: any) {
+      alert(t('settings.errorPassword', { message: authErrorMessage(err) }));
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const handleMigrateData = async () => {
+    setMigrating(true);
+    try {
+      const report = await onMigrateData();
+      alert(t('settings.migrateResult', { checked: report.checked, upgraded: report.upgraded })
+        + (report.invalid.length > 0 ? t('settings.migrateInvalid', { count: report.invalid.length }) : t('settings.migrateAllValid')));
+    } catch (err: any) {
+      alert(t('settings.errorMigrate', { message: err.message }));
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    if (deleteText !== deleteConfirmText) { alert(t('settings.deleteConfirmPrompt', { text: deleteConfirmText })); return; }
+    if (passwordUser && !deletePassword) { alert(t('settings.errorDeletePassword')); return; }
+    setDeleting(true);
+    try {
+      await reauthenticate(deletePassword);
+    } catch (err: any) {
+      alert(t('settings.errorReauth', { message: authErrorMessage(err) }));
+      setDeleting(false);
+      return;
+    }
+    await onDeleteAccount();
+  };
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500 space-y-6">
+      <div>
+        <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('title.settings')}</h1>
+        <p className="text-sm text-slate-400 mt-1">{user.email}</p>
+      </div>
+
+      {/* 個人資料 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4">
+        <h3 className="text-text-main text-base font-bold tracking-tight">{t('settings.profile')}</h3>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center justify-center rounded-full size-16 bg-primary-light text-primary border border-primary-soft overflow-hidden shrink-0">
+            {photoURL.trim() ? (
+              <img src={photoURL.trim()} alt="User Avatar" className="w-full h-full object-cover" />
+            ) : (
+              <span className="material-symbols-outlined text-3xl">person</span>
+            )}
+          </div>
+          <label className={`${labelClass} flex-1`}>
+            {t('settings.displayName')}
+            <input value={displayName} onChange={(e) => setDisplayName(e.target.value)} className={`mt-1 ${inputClass}`} placeholder={user.email.split('@')[0]} />
+          </label>
+        </div>
+        <label className={`${labelClass} block`}>
+          {t('settings.photoURL')}
+          <input value={photoURL} onChange={(e) => setPhotoURL(e.target.value)} className={`mt-1 ${inputClass}`} placeholder="https://..." />
+        </label>
+        <button
+          onClick={handleSaveProfile}
+          disabled={savingProfile}
+          className="w-full bg-primary hover:bg-primary-dark text-white font-bold py-3 rounded-2xl shadow-lg shadow-primary/20 disabled:opacity-50"
+        >
+          {savingProfile ? t('settings.saving') : t('settings.saveProfile')}
+        </button>
+      </div>
+
+      {/* 偏好設定 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4">
+        <h3 className="text-text-main text-base font-bold tracking-tight">{t('settings.preferences')}</h3>
+        <label className={`${labelClass} block`}>
+          {t('settings.language')}
+          <select
+            value={getLocale()}
+            onChange={(e) => onUpdatePreferences({ ...preferences, language: e.target.value })}
+            className={`mt-1 ${inputClass}`}
+          >
+            {LOCALES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+        </label>
+        <label className={`${labelClass} block`}>
+          {t('settings.currency')}
+          <select
+            value={preferences.currency || DEFAULT_CURRENCY}
+            onChange={(e) => onUpdatePreferences({ ...preferences, currency: e.target.value })}
+            className={`mt-1 ${inputClass}`}
+          >
+            {CURRENCIES.map(c => <option key={c.code} value={c.code}>{t(c.label)}</option>)}
+          </select>
+        </label>
+        <label className={`${labelClass} block`}>
+          {t('settings.defaultCategory')}
+          <select
+            value={preferences.defaultCategory || ''}
+            onChange={(e) => onUpdatePreferences({ ...preferences, defaultCategory: e.target.value || undefined })}
+            className={`mt-1 ${inputClass}`}
+          >
+            <option value="">{t('settings.firstCategory')}</option>
+            {expenseCategories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {/* 修改密碼 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4">
+        <h3 className="text-text-main text-base font-bold tracking-tight">{t('settings.password')}</h3>
+        {passwordUser ? (
+          <>
+            <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder={t('settings.currentPassword')} autoComplete="current-password" />
+            <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} placeholder={t('settings.newPassword')} autoComplete="new-password" />
+            <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClass} placeholder={t('settings.confirmPassword')} autoComplete="new-password" />
+            <button
+              onClick={handleChangePassword}
+              disabled={changingPassword}
+              className="w-full bg-primary-light text-primary font-bold py-3 rounded-2xl disabled:opacity-50"
+            >
+              {changingPassword ? t('settings.updating') : t('settings.updatePassword')}
+            </button>
+          </>
+        ) : (
+          <p className="text-slate-400 text-sm">{t('settings.googlePassword')}</p>
+        )}
+      </div>
+
+      {/* 資料檢查 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-blue-50 space-y-4">
+        <h3 className="text-text-main text-base font-bold tracking-tight">{t('settings.dataCheck')}</h3>
+        <p className="text-slate-500 text-sm">{t('settings.dataCheckHint')}</p>
+        {invalidDocuments.length > 0 && (
+          <ul className="space-y-2">
+            {invalidDocuments.map(d => (
+              <li key={d.path} className="bg-orange-50 border border-orange-100 rounded-2xl p-3">
+                <p className="text-[10px] font-black uppercase tracking-wider text-orange-400 break-all">{d.path}</p>
+                <p className="text-sm text-orange-600 font-bold mt-1">{d.errors.map(e => t(e.key, e.params)).join(t('common.listSeparator'))}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={handleMigrateData}
+          disabled={migrating}
+          className="w-full bg-primary-light text-primary font-bold py-3 rounded-2xl disabled:opacity-50"
+        >
+          {migrating ? t('settings.migrating') : t('settings.migrate')}
+        </button>
+      </div>
+
+      {/* 刪除帳號 */}
+      <div className="bg-white rounded-[32px] p-6 shadow-sm border border-red-100 space-y-4">
+        <h3 className="text-red-500 text-base font-bold tracking-tight">{t('settings.deleteTitle')}</h3>
+        <p className="text-slate-500 text-sm">{t('settings.deleteHint')}</p>
+        <input value={deleteText} onChange={(e) => setDeleteText(e.target.value)} className={inputClass} placeholder={t('settings.deleteConfirmPrompt', { text: deleteConfirmText })} />
+        {passwordUser && (
+          <input type="password" value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} className={inputClass} placeholder={t('auth.password')} autoComplete="current-password" />
+        )}
+        <button
+          onClick={handleDeleteAccount}
+          disabled={deleting || deleteText !== deleteConfirmText}
+          className="w-full bg-red-500 hover:bg-red-600 text-white font-bold py-3 rounded-2xl shadow-lg shadow-red-500/20 disabled:opacity-40"
+        >
+          {deleting ? t('settings.deleting') : passwordUser ? t('settings.deleteWithPassword') : t('settings.deleteWithGoogle')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
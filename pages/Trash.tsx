@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Category, Expense } from '../types';
+import { resolveCategory } from '../services/categories';
+import { isIncome } from '../services/stats';
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from '../services/trash';
+import { formatMoney } from '../services/currency';
+import { formatDate, t } from '../services/i18n';
+
+interface TrashProps {
+  categories: Category[];
+  onLoad: () => Promise<Expense[]>;
+  onRestore: (expense: Expense) => void;
+  onPurge: (id: string) => void;
+  onEmpty: (ids: string[]) => Promise<void>;
+}
+
+const Trash: React.FC<TrashProps> = ({ categories, onLoad, onRestore, onPurge, onEmpty }) => {
+  const [items, setItems] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    onLoad()
+      .then(list => { if (active) setItems(list); })
+      .catch(err => alert(t('trash.errorLoad', { message: err.message })))
+      .finally(() => { if (active) setLoading(false); });
+    return () => { active = false; };
+  }, [onLoad]);
+
+  const handleRestore = (expense: Expense) => {
+    onRestore(expense);
+    setItems(current => current.filter(e => e.id !== expense.id));
+  };
+
+  const handlePurge = (expense: Expense) => {
+    if (!confirm(t('trash.purgeConfirm', { description: expense.description }))) return;
+    onPurge(expense.id);
+    setItems(current => current.filter(e => e.id !== expense.id));
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(t('trash.emptyConfirm', { count: items.length }))) return;
+    try {
+      await onEmpty(items.map(e => e.id));
+      setItems([]);
+    } catch (err: any) {
+      alert(t('trash.errorEmpty', { message: err.message }));
+    }
+  };
+
+  return (
+    <div className="flex flex-col px-6 pt-6 pb-24 animate-in fade-in duration-500">
+      <div className="flex items-end justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-extrabold text-text-main tracking-tight italic">{t('title.trash')}</h1>
+          <p className="text-sm text-slate-400 mt-1">{t('trash.subtitle', { days: TRASH_RETENTION_DAYS })}</p>
+        </div>
+        {items.length > 0 && (
+          <button onClick={handleEmpty} className="text-red-400 text-xs font-bold px-3 py-1.5 rounded-full bg-red-50 hover:bg-red-100 transition-colors shrink-0">
+            {t('trash.empty')}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="w-8 h-8 border-4 border-primary/20 border-t-primary rounded-full animate-spin"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center">
+          <span className="material-symbols-outlined text-5xl text-slate-200 mb-3">delete</span>
+          <p className="text-slate-400 font-bold">{t('trash.isEmpty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map(expense => {
+            const category = resolveCategory(categories, expense.item);
+            const income = isIncome(expense);
+            return (
+              <div key={expense.id} className="bg-white rounded-[24px] p-4 flex items-center justify-between shadow-sm">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div
+                    className="flex items-center justify-center rounded-2xl size-12 shrink-0 opacity-60"
+                    style={{ backgroundColor: `${category.color}15`, color: category.color }}
+                  >
+                    <span className="material-symbols-outlined text-xl">{category.icon}</span>
+                  </div>
+                  <div className="min-w-0">
+                    <p className={`font-extrabold ${income ? 'text-emerald-500' : 'text-text-main'}`}>
+                      {income ? '+' : ''}{formatMoney(expense.amount)}
+                      <span className="text-slate-500 text-xs font-medium ml-2">{expense.description}</span>
+                    </p>
+                    <p className="text-slate-400 text-[10px] font-bold mt-0.5">
+                      {formatDate(expense.timestamp)}・{category.label}・{t('trash.daysLeft', { days: trashDaysLeft(expense) })}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center shrink-0">
+                  <button onClick={() => handleRestore(expense)} className="text-slate-300 hover:text-primary p-1" title={t('trash.restore')}>
+                    <span className="material-symbols-outlined text-[20px]">restore_from_trash</span>
+                  </button>
+                  <button onClick={() => handlePurge(expense)} className="text-slate-300 hover:text-red-400 p-1" title={t('trash.purge')}>
+                    <span className="material-symbols-outlined text-[20px]">delete_forever</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { User } from '../types';
+import { t } from '../services/i18n';
 
 interface WelcomeProps {
   user: User | null;
@@ -28,9 +29,9 @@ const Welcome: React.FC<WelcomeProps> = ({ user, onConfirm }) => {
           </div>
         </div>
 
-        <p className="text-primary font-black uppercase tracking-[0.3em] text-[10px] mb-2 opacity-60">驗證成功</p>
+        <p className="text-primary font-black uppercase tracking-[0.3em] text-[10px] mb-2 opacity-60">{t('welcome.verified')}</p>
         <h1 className="text-text-main text-3xl font-black italic tracking-tight text-center mb-2">
-          歡迎回來！
+          {t('welcome.title')}
         </h1>
         <p className="text-slate-500 font-bold text-lg mb-8 text-center truncate w-full px-4">
           {user.displayName || user.email.split('@')[0]}
@@ -38,7 +39,7 @@ const Welcome: React.FC<WelcomeProps> = ({ user, onConfirm }) => {
 
         <div className="w-full space-y-4">
           <div className="bg-slate-50 rounded-2xl p-4 flex flex-col items-center justify-center border border-slate-100">
-            <p className="text-[10px] text-slate-400 font-bold uppercase mb-1">登入帳號</p>
+            <p className="text-[10px] text-slate-400 font-bold uppercase mb-1">{t('welcome.account')}</p>
             <p className="text-text-main text-sm font-medium truncate w-full text-center">{user.email}</p>
           </div>
           
@@ -46,13 +47,13 @@ const Welcome: React.FC<WelcomeProps> = ({ user, onConfirm }) => {
             onClick={onConfirm}
             className="w-full bg-primary hover:bg-primary-dark text-white font-black py-5 rounded-[24px] text-xl shadow-xl shadow-primary/30 transition-all active:scale-95 flex items-center justify-center gap-3 group"
           >
-            確認並進入系統
+            {t('welcome.enter')}
             <span className="material-symbols-outlined group-hover:translate-x-1 transition-transform">arrow_forward</span>
           </button>
         </div>
       </div>
       
-      <p className="mt-12 text-slate-400 text-xs font-medium italic">大學生極簡記帳系統 v2.5</p>
+      <p className="mt-12 text-slate-400 text-xs font-medium italic">{t('app.version')}</p>
     </div>
   );
 };
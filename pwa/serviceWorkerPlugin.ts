@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// public/ 內不經打包、但離線時也需要的檔案
+const PUBLIC_FILES = [
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/maskable-512.png',
+  '/icons/apple-touch-icon.png',
+];
+
+// 建置時以 pwa/sw.js 為範本產生 dist/sw.js，填入本次打包的檔案清單；
+// 清單 (含雜湊檔名) 變動時 sw.js 內容跟著改變，瀏覽器才會偵測到新版本
+export const serviceWorkerPlugin = (): Plugin => {
+  let root = process.cwd();
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      root = config.root;
+    },
+    generateBundle(_, bundle) {
+      const bundled = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`);
+      const precache = [...PUBLIC_FILES, ...bundled].sort();
+      const version = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12);
+      const template = readFileSync(path.resolve(root, 'pwa/sw.js'), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template.replace("'__VERSION__'", JSON.stringify(version)).replace('__PRECACHE__', JSON.stringify(precache)),
+      });
+    },
+  };
+};
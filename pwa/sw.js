@@ -0,0 +1,36 @@
+// 範本：建置時由 pwa/serviceWorkerPlugin.ts 填入版本與預先快取的檔案清單
+const VERSION = '__VERSION__';
+const PRECACHE = __PRECACHE__;
+const CACHE = `shell-${VERSION}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+// 新版本安裝後先等待，使用者在更新提示按下重新載入才接手
+self.addEventListener('message', (event) => {
+  if (event.data === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith('shell-') && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  // Firebase 等外部請求不經過快取，離線資料由 Firestore 的本機快取處理
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  // 每個畫面都有自己的網址，離線時一律回傳快取的 index.html 交給前端路由
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+});
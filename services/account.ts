@@ -0,0 +1,51 @@
+import {
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  updatePassword
+} from 'firebase/auth';
+import { auth, googleProvider } from './firebase';
+import { t } from './i18n';
+
+const currentUser = () => {
+  if (!auth.currentUser) throw Object.assign(new Error(t('common.notSignedIn')), { code: 'auth/no-current-user' });
+  return auth.currentUser;
+};
+
+// 以電子郵件與密碼註冊的帳號才能修改密碼
+export const isPasswordUser = () =>
+  !!auth.currentUser?.providerData.some(provider => provider.providerId === 'password');
+
+// 修改密碼、刪除帳號等敏感操作前需要重新驗證；Google 帳號以彈窗驗證
+export const reauthenticate = async (password?: string) => {
+  const user = currentUser();
+  if (isPasswordUser()) {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email || '', password || ''));
+  } else {
+    await reauthenticateWithPopup(user, googleProvider);
+  }
+};
+
+export const changePassword = async (currentPassword: string, newPassword: string) => {
+  await reauthenticate(currentPassword);
+  await updatePassword(currentUser(), newPassword);
+};
+
+export const authErrorMessage = (err: any) => {
+  switch (err?.code) {
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+      return t('account.errorWrongPassword');
+    case 'auth/weak-password':
+      return t('account.errorWeakPassword');
+    case 'auth/requires-recent-login':
+      return t('account.errorRecentLogin');
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+      return t('account.errorCancelled');
+    case 'auth/user-mismatch':
+      return t('account.errorUserMismatch');
+    default:
+      return err?.message || t('common.unknownError');
+  }
+};
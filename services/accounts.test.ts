@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Expense, PaymentAccount } from '../types';
+import { accountBalances, accountName, defaultAccount, lastUsedAccount } from './accounts';
+import { t } from './i18n';
+
+const OPENED = new Date(2026, 8, 1).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const account = (id: string, overrides: Partial<PaymentAccount> = {}): PaymentAccount => ({
+  id, name: id, kind: 'bank', openingBalance: 0, openingDate: OPENED, order: 0, ...overrides,
+});
+
+const expense = (id: string, amount: number, accountId: string, timestamp: number, income = false): Expense => ({
+  id, userId: 'u1', type: income ? 'income' : 'expense', amount, item: 'Food', description: '', timestamp, account: accountId,
+});
+
+describe('defaultAccount', () => {
+  it('is an unnamed cash account opened at the start of the day', () => {
+    const cash = defaultAccount(new Date(2026, 8, 10, 15, 30).getTime());
+    expect(cash).toMatchObject({ id: 'cash', name: '', kind: 'cash', openingDate: new Date(2026, 8, 10).getTime() });
+    expect(accountName(cash)).toBe(t('accounts.kindCash'));
+  });
+
+  it('keeps a custom name', () => {
+    expect(accountName({ ...defaultAccount(), name: '錢包' })).toBe('錢包');
+  });
+});
+
+describe('accountBalances', () => {
+  it('adds income and transfers in, subtracts spending and transfers out', () => {
+    const accounts = [account('bank', { openingBalance: 1000, order: 1 }), account('card', { order: 0 })];
+    const expenses = [
+      expense('e1', 300, 'bank', OPENED + DAY),
+      expense('e2', 5000, 'bank', OPENED + 2 * DAY, true),
+      expense('e3', 80, 'card', OPENED + DAY),
+    ];
+    const transfers = [{ id: 't1', from: 'bank', to: 'card', amount: 500, timestamp: OPENED + DAY }];
+    const [card, bank] = accountBalances(accounts, expenses, transfers);
+    expect(bank).toMatchObject({ income: 5000, spent: 300, transferOut: 500, balance: 5200 });
+    expect(card).toMatchObject({ spent: 80, transferIn: 500, balance: 420 });
+  });
+
+  it('ignores records from before the opening date', () => {
+    const [bank] = accountBalances(
+      [account('bank', { openingBalance: 100 })],
+      [expense('old', 999, 'bank', OPENED - 1), expense('new', 40, 'bank', OPENED)],
+      [{ id: 't1', from: 'bank', to: 'x', amount: 50, timestamp: OPENED - DAY }],
+    );
+    expect(bank.balance).toBe(60);
+  });
+});
+
+describe('lastUsedAccount', () => {
+  it('picks the newest record of the same type on an active account', () => {
+    const accounts = [account('bank'), account('card'), account('old', { archived: true })];
+    const expenses = [
+      expense('e1', 10, 'bank', OPENED),
+      expense('e2', 10, 'card', OPENED + DAY, true),
+      expense('e3', 10, 'old', OPENED + 2 * DAY),
+    ];
+    expect(lastUsedAccount(expenses, accounts, false)).toBe('bank');
+    expect(lastUsedAccount(expenses, accounts, true)).toBe('card');
+  });
+});
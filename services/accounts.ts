@@ -0,0 +1,73 @@
+import { AccountKind, AccountTransfer, Expense, PaymentAccount } from '../types';
+import { MessageKey } from './locales/zh-TW';
+import { isIncome } from './stats';
+import { t } from './i18n';
+
+export const ACCOUNT_KINDS: Array<{ kind: AccountKind; icon: string; label: MessageKey }> = [
+  { kind: 'cash', icon: 'payments', label: 'accounts.kindCash' },
+  { kind: 'bank', icon: 'credit_card', label: 'accounts.kindBank' },
+  { kind: 'stored_value', icon: 'contactless', label: 'accounts.kindStoredValue' },
+  { kind: 'other', icon: 'account_balance_wallet', label: 'accounts.kindOther' },
+];
+
+// 還沒有帳戶時自動建立的現金帳戶，新使用者不必先設定帳戶就能記帳；不存名稱，顯示時依目前語言使用類型名稱
+export const defaultAccount = (now = Date.now()): PaymentAccount => {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return { id: 'cash', name: '', kind: 'cash', openingBalance: 0, openingDate: today.getTime(), order: 0 };
+};
+
+export const accountKindOf = (kind: AccountKind) => ACCOUNT_KINDS.find(k => k.kind === kind) || ACCOUNT_KINDS[ACCOUNT_KINDS.length - 1];
+
+// 沒有自訂名稱的帳戶 (例如自動建立的現金帳戶) 以類型名稱顯示
+export const accountName = (account: PaymentAccount) => account.name || t(accountKindOf(account.kind).label);
+
+export const sortAccounts = (accounts: PaymentAccount[]) => [...accounts].sort((a, b) => a.order - b.order);
+
+// 表單可選的帳戶：未封存者，以及目前正在使用的帳戶
+export const activeAccounts = (accounts: PaymentAccount[], currentId?: string) =>
+  sortAccounts(accounts).filter(a => !a.archived || a.id === currentId);
+
+// 最近一筆同類型紀錄使用的帳戶，作為新增紀錄的預設值
+export const lastUsedAccount = (expenses: Expense[], accounts: PaymentAccount[], income: boolean) => {
+  const usable = new Set(activeAccounts(accounts).map(a => a.id));
+  return [...expenses]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .find(e => isIncome(e) === income && e.account && usable.has(e.account))?.account;
+};
+
+export interface AccountBalance {
+  account: PaymentAccount;
+  income: number;
+  spent: number;
+  transferIn: number;
+  transferOut: number;
+  balance: number;
+}
+
+// 期初餘額加上期初日之後的收入與轉入，減去支出與轉出
+export const accountBalances = (accounts: PaymentAccount[], expenses: Expense[], transfers: AccountTransfer[]): AccountBalance[] =>
+  sortAccounts(accounts).map(account => {
+    const counted = (ts: number) => ts >= account.openingDate;
+    let income = 0;
+    let spent = 0;
+    expenses.forEach(e => {
+      if (e.account !== account.id || !counted(e.timestamp)) return;
+      if (isIncome(e)) income += e.amount;
+      else spent += e.amount;
+    });
+    const transferIn = transfers.filter(tr => tr.to === account.id && counted(tr.timestamp)).reduce((sum, tr) => sum + tr.amount, 0);
+    const transferOut = transfers.filter(tr => tr.from === account.id && counted(tr.timestamp)).reduce((sum, tr) => sum + tr.amount, 0);
+    return {
+      account,
+      income,
+      spent,
+      transferIn,
+      transferOut,
+      balance: account.openingBalance + income - spent + transferIn - transferOut,
+    };
+  });
+
+// 計算餘額需要載入的最早時間
+export const earliestOpeningDate = (accounts: PaymentAccount[]) =>
+  accounts.length > 0 ? Math.min(...accounts.map(a => a.openingDate)) : undefined;
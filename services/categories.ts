@@ -0,0 +1,72 @@
+import { Category, ExpenseItem, IncomeItem, TransactionType } from '../types';
+import { MessageKey } from './locales/zh-TW';
+import { matchesAnyLocale, t } from './i18n';
+
+// 分類可選用的顏色
+export const CATEGORY_COLORS = [
+  '#135bec', // primary
+  '#3b82f6',
+  '#60a5fa',
+  '#93c5fd',
+  '#1E3A8A',
+  '#312E81',
+  '#1E40AF',
+  '#64748b',
+  '#10b981',
+  '#f59e0b',
+  '#ef4444',
+  '#ec4899'
+];
+
+// 新增分類時可挑選的 Material Symbols 圖示
+export const CATEGORY_ICONS = [
+  'restaurant', 'local_cafe', 'directions_bus', 'home', 'shopping_bag', 'movie',
+  'checkroom', 'health_and_safety', 'menu_book', 'groups', 'sports_esports', 'fitness_center',
+  'phone_iphone', 'pets', 'card_giftcard', 'flight', 'work', 'school',
+  'family_restroom', 'savings', 'payments', 'category', 'label', 'star'
+];
+
+// 內建分類：編號沿用舊版 ExpenseItem / IncomeItem 代碼，讓既有文件可以直接對應
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: ExpenseItem.FOOD, kind: 'expense', label: '餐飲', icon: 'restaurant', color: '#135bec', order: 0 },
+  { id: ExpenseItem.TRANSPORT, kind: 'expense', label: '交通', icon: 'directions_bus', color: '#3b82f6', order: 1 },
+  { id: ExpenseItem.HOUSING, kind: 'expense', label: '居住', icon: 'home', color: '#60a5fa', order: 2 },
+  { id: ExpenseItem.SHOPPING, kind: 'expense', label: '購物', icon: 'shopping_bag', color: '#93c5fd', order: 3 },
+  { id: ExpenseItem.ENTERTAINMENT, kind: 'expense', label: '娛樂', icon: 'movie', color: '#1E3A8A', order: 4 },
+  { id: ExpenseItem.CLOTHING, kind: 'expense', label: '服飾', icon: 'checkroom', color: '#312E81', order: 5 },
+  { id: ExpenseItem.HEALTH, kind: 'expense', label: '健康', icon: 'health_and_safety', color: '#1E40AF', order: 6 },
+  { id: ExpenseItem.OTHER, kind: 'expense', label: '其他', icon: 'category', color: '#64748b', order: 7 },
+  { id: IncomeItem.WAGE, kind: 'income', label: '打工薪資', icon: 'work', color: '#10b981', order: 0 },
+  { id: IncomeItem.SCHOLARSHIP, kind: 'income', label: '獎學金', icon: 'school', color: '#059669', order: 1 },
+  { id: IncomeItem.ALLOWANCE, kind: 'income', label: '生活費', icon: 'family_restroom', color: '#34d399', order: 2 },
+  { id: IncomeItem.OTHER_INCOME, kind: 'income', label: '其他收入', icon: 'savings', color: '#64748b', order: 3 },
+];
+
+const isBuiltIn = (id: string) => DEFAULT_CATEGORIES.some(c => c.id === id);
+
+// 內建分類的名稱沒被使用者改過 (仍是任一語言的預設名稱) 時，依目前語言顯示
+const localizeLabel = (category: Category): Category => {
+  if (!isBuiltIn(category.id)) return category;
+  const key = `category.${category.id}` as MessageKey;
+  return matchesAnyLocale(key, category.label) ? { ...category, label: t(key) } : category;
+};
+
+// 將使用者儲存的分類覆蓋到內建分類上，並依排序回傳
+export const mergeCategories = (stored: Category[]): Category[] => {
+  const byId = new Map<string, Category>();
+  DEFAULT_CATEGORIES.forEach(c => byId.set(c.id, c));
+  stored.forEach(c => byId.set(c.id, { ...byId.get(c.id), ...c }));
+  return [...byId.values()].map(localizeLabel).sort((a, b) => a.order - b.order);
+};
+
+// 找不到的代碼 (例如已刪除的分類) 仍以原始代碼顯示，避免畫面出錯
+export const resolveCategory = (categories: Category[], id: string): Category => {
+  const builtIn = DEFAULT_CATEGORIES.find(c => c.id === id);
+  return categories.find(c => c.id === id)
+    || (builtIn && localizeLabel(builtIn))
+    || { id, kind: 'expense', label: id, icon: 'label', color: '#64748b', order: Number.MAX_SAFE_INTEGER };
+};
+
+// 表單可選的分類：未封存者，以及目前正在使用的分類
+export const activeCategories = (categories: Category[], kind: TransactionType, currentId?: string) =>
+  categories.filter(c => c.kind === kind && (!c.archived || c.id === currentId));
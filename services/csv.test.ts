@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportRows, formatCsvDate, guessMapping, isValidDocumentId, parseCsv, parseCsvDate, toCsv } from './csv';
+import { t } from './i18n';
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes, line breaks in cells and a BOM', () => {
+    const text = '﻿date,description\r\n2026-09-01,"午餐, 便當"\n2026-09-02,"說 ""好"" 的\n晚餐"\n\n';
+    expect(parseCsv(text)).toEqual([
+      ['date', 'description'],
+      ['2026-09-01', '午餐, 便當'],
+      ['2026-09-02', '說 "好" 的\n晚餐'],
+    ]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['a', 'b,c'], ['"quoted"', 'line\nbreak']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('accepts dates, date-times and millisecond timestamps', () => {
+    expect(parseCsvDate('2026/9/10')).toBe(new Date(2026, 8, 10, 12).getTime());
+    expect(parseCsvDate('2026-09-10 13:05')).toBe(new Date(2026, 8, 10, 13, 5).getTime());
+    expect(parseCsvDate('1788000000000')).toBe(1788000000000);
+    expect(parseCsvDate(formatCsvDate(new Date(2026, 0, 2, 3, 4).getTime()))).toBe(new Date(2026, 0, 2, 3, 4).getTime());
+  });
+
+  it('rejects impossible or unknown dates', () => {
+    expect(parseCsvDate('2026-02-30')).toBeNull();
+    expect(parseCsvDate('next tuesday')).toBeNull();
+  });
+});
+
+describe('guessMapping', () => {
+  it('matches English and Chinese headers', () => {
+    expect(guessMapping(['Date', '金額', '類別', '備註', 'other'])).toEqual({ date: 0, amount: 1, category: 2, description: 3 });
+  });
+});
+
+describe('isValidDocumentId', () => {
+  it('rejects ids Firestore cannot store', () => {
+    expect(isValidDocumentId('abc-123')).toBe(true);
+    expect(isValidDocumentId('a/b')).toBe(false);
+    expect(isValidDocumentId('.')).toBe(false);
+    expect(isValidDocumentId('..')).toBe(false);
+    expect(isValidDocumentId('__id__')).toBe(false);
+    expect(isValidDocumentId('x'.repeat(1500))).toBe(true);
+    expect(isValidDocumentId('記'.repeat(501))).toBe(false);
+  });
+});
+
+describe('buildImportRows', () => {
+  const mapping = { date: 0, amount: 1, category: 2, id: 3 };
+  const categoryMap = { 餐飲: 'Food' };
+
+  it('builds expenses and flags duplicates and invalid rows', () => {
+    const rows = [
+      ['2026-09-01', '$1,200', '餐飲', 'a1'],
+      ['2026-09-02', '50', '餐飲', 'a1'],
+      ['2026-09-03', '50', '餐飲', 'old'],
+      ['bad', '0', '交通', '__x__'],
+    ];
+    const [first, repeated, existing, broken] = buildImportRows(rows, mapping, categoryMap, new Set(['old']));
+    expect(first.expense).toMatchObject({ id: 'a1', type: 'expense', amount: 1200, item: 'Food', description: '餐飲' });
+    expect(repeated.duplicate).toBe(true);
+    expect(existing.duplicate).toBe(true);
+    expect(broken.rowNumber).toBe(5);
+    expect(broken.expense).toBeUndefined();
+    expect(broken.errors).toEqual([t('csv.errorDate'), t('csv.errorAmount'), t('csv.errorCategory'), t('csv.errorId')]);
+  });
+});
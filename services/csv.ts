@@ -0,0 +1,211 @@
+import { Category, Expense, PaymentAccount, TransactionType } from '../types';
+import { accountName } from './accounts';
+import { resolveCategory } from './categories';
+import { t } from './i18n';
+import { MessageKey } from './locales/zh-TW';
+import { normalizeTags } from './tags';
+
+// 匯出/匯入使用的欄位
+export type CsvField = 'date' | 'amount' | 'category' | 'description' | 'id' | 'type' | 'tags' | 'account';
+
+export const CSV_FIELDS: CsvField[] = ['date', 'amount', 'category', 'description', 'id', 'type', 'tags', 'account'];
+
+// 多個標籤在同一欄以分號分隔
+const TAG_SEPARATOR = ';';
+
+export const CSV_FIELD_LABELS: Record<CsvField, MessageKey> = {
+  date: 'csv.fieldDate',
+  amount: 'csv.fieldAmount',
+  category: 'csv.fieldCategory',
+  description: 'csv.fieldDescription',
+  id: 'csv.fieldId',
+  type: 'csv.fieldType',
+  tags: 'csv.fieldTags',
+  account: 'csv.fieldAccount',
+};
+
+// 必填欄位，其餘欄位可不對應
+export const REQUIRED_FIELDS: CsvField[] = ['date', 'amount', 'category'];
+
+// 自動對應欄位時可辨識的標題
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ['date', 'time', 'timestamp', '日期', '時間'],
+  amount: ['amount', 'price', 'value', '金額', '價格'],
+  category: ['category', 'item', '分類', '項目', '類別'],
+  description: ['description', 'note', 'memo', '說明', '備註', '描述'],
+  id: ['id', '編號'],
+  type: ['type', '收支', '收支類型', '類型'],
+  tags: ['tags', 'tag', 'labels', '標籤'],
+  account: ['account', 'payment', '帳戶', '付款帳戶', '付款方式'],
+};
+
+const escapeCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+// 解析 CSV 文字，支援引號、跳脫引號與欄位內換行
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      rows.push(row); row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 以本地時間輸出，方便試算表閱讀
+export const formatCsvDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// 支援 2026-09-10、2026/9/10 13:05 與毫秒時間戳
+export const parseCsvDate = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (/^\d{12,}$/.test(trimmed)) return Number(trimmed);
+  const match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(trimmed);
+  if (!match) return null;
+  const [, y, m, d, hh = '12', mm = '0', ss = '0'] = match;
+  const date = new Date(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+  if (date.getMonth() !== Number(m) - 1) return null;
+  return date.getTime();
+};
+
+// 以 Blob 觸發瀏覽器下載，加上 BOM 讓 Excel 正確辨識 UTF-8
+export const downloadText = (filename: string, content: string, mime = 'text/csv;charset=utf-8') => {
+  const blob = new Blob(['\uFEFF' + content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const expensesToCsv = (expenses: Expense[], categories: Category[], accounts: PaymentAccount[] = []) => {
+  const header = CSV_FIELDS as string[];
+  const accountNames = new Map(accounts.map(a => [a.id, accountName(a)]));
+  const rows = expenses.map(e => [
+    formatCsvDate(e.timestamp),
+    String(e.amount),
+    resolveCategory(categories, e.item).label,
+    e.description,
+    e.id,
+    e.type || 'expense',
+    (e.tags ?? []).join(TAG_SEPARATOR),
+    (e.account && accountNames.get(e.account)) ?? '',
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+// 依標題猜測每個欄位對應的欄號
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  CSV_FIELDS.forEach(field => {
+    const idx = header.findIndex(h => HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+    if (idx >= 0) mapping[field] = idx;
+  });
+  return mapping;
+};
+
+// 以分類編號或名稱比對，找不到時回傳 undefined
+export const matchCategory = (categories: Category[], value: string) => {
+  const v = value.trim().toLowerCase();
+  return categories.find(c => c.id.toLowerCase() === v || c.label.toLowerCase() === v);
+};
+
+// 匯入的紀錄，沒有編號時由資料庫產生
+export type ImportedExpense = Omit<Expense, 'userId' | 'id'> & { id?: string };
+
+export interface ImportRow {
+  rowNumber: number; // 檔案中的列號 (含標題列)
+  expense?: ImportedExpense;
+  errors: string[];
+  duplicate: boolean;
+}
+
+// Firestore 文件編號的限制：不可包含 /、不可為 . 或 ..、不可為 __xxx__ 形式，且最長 1500 位元組
+export const isValidDocumentId = (id: string) =>
+  !id.includes('/') && id !== '.' && id !== '..' && !/^__.*__$/.test(id) && new TextEncoder().encode(id).length <= 1500;
+
+const parseType = (value: string | undefined): TransactionType | null => {
+  if (value === undefined || value.trim() === '') return 'expense';
+  const v = value.trim().toLowerCase();
+  if (['expense', '支出'].includes(v)) return 'expense';
+  if (['income', '收入'].includes(v)) return 'income';
+  return null;
+};
+
+// 驗證每一列並轉為收支紀錄；categoryMap 為檔案中的分類值對應到分類編號
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  categoryMap: Record<string, string>,
+  existingIds: Set<string>,
+  accounts: PaymentAccount[] = []
+): ImportRow[] => {
+  const seenIds = new Set<string>();
+  return rows.map((row, idx) => {
+    const cell = (field: CsvField) => mapping[field] === undefined ? undefined : (row[mapping[field]!] ?? '').trim();
+    const errors: string[] = [];
+
+    const timestamp = parseCsvDate(cell('date') || '');
+    if (timestamp === null) errors.push(t('csv.errorDate'));
+
+    const amount = Number((cell('amount') || '').replace(/[$,\s]/g, ''));
+    if (!isFinite(amount) || amount <= 0) errors.push(t('csv.errorAmount'));
+
+    const rawCategory = cell('category') || '';
+    const item = categoryMap[rawCategory];
+    if (!item) errors.push(t('csv.errorCategory'));
+
+    const type = parseType(cell('type'));
+    if (!type) errors.push(t('csv.errorType'));
+
+    const id = cell('id') || undefined;
+    if (id && !isValidDocumentId(id)) errors.push(t('csv.errorId'));
+    const duplicate = !!id && (existingIds.has(id) || seenIds.has(id));
+    if (id) seenIds.add(id);
+
+    const description = cell('description') || rawCategory;
+    const tags = normalizeTags((cell('tags') || '').split(/[;；]/));
+
+    // 付款帳戶以名稱比對，空白時不指定
+    const rawAccount = (cell('account') || '').toLowerCase();
+    const account = rawAccount ? accounts.find(a => accountName(a).toLowerCase() === rawAccount)?.id : undefined;
+    if (rawAccount && !account) errors.push(t('csv.errorAccount'));
+
+    return {
+      rowNumber: idx + 2,
+      errors,
+      duplicate,
+      expense: errors.length === 0
+        ? { id, type: type!, amount, item: item!, description, timestamp: timestamp!, ...(tags.length > 0 && { tags }), ...(account && { account }) }
+        : undefined,
+    };
+  });
+};
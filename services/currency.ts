@@ -0,0 +1,33 @@
+import { formatNumber } from './i18n';
+import { MessageKey } from './locales/zh-TW';
+
+export interface CurrencyOption {
+  code: string;
+  symbol: string;
+  label: MessageKey;
+}
+
+export const CURRENCIES: CurrencyOption[] = [
+  { code: 'TWD', symbol: '$', label: 'currency.TWD' },
+  { code: 'USD', symbol: 'US$', label: 'currency.USD' },
+  { code: 'JPY', symbol: '¥', label: 'currency.JPY' },
+  { code: 'EUR', symbol: '€', label: 'currency.EUR' },
+  { code: 'HKD', symbol: 'HK$', label: 'currency.HKD' },
+  { code: 'CNY', symbol: 'CN¥', label: 'currency.CNY' },
+];
+
+export const DEFAULT_CURRENCY = 'TWD';
+
+let current: CurrencyOption = CURRENCIES[0];
+
+// 由 App 依使用者偏好設定，之後的金額顯示都使用此幣別
+export const setCurrency = (code: string | undefined) => {
+  current = CURRENCIES.find(c => c.code === code) || CURRENCIES[0];
+};
+
+export const currencySymbol = () => current.symbol;
+
+export const currencyCode = () => current.code;
+
+// 金額加上幣別符號，數字依目前語言分位，例如 $1,200
+export const formatMoney = (amount: number) => `${current.symbol}${formatNumber(amount)}`;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Invoice, invoiceToExpenses, isInvoiceImported, parseCarrierCsv, shortMerchantName } from './einvoice';
+
+const invoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  number: 'AB12345678',
+  timestamp: new Date(2026, 8, 1, 12).getTime(),
+  merchant: '統一超商股份有限公司台北門市',
+  merchantId: '12345678',
+  total: 40,
+  voided: false,
+  lines: [{ name: '便當', amount: 100 }, { name: '飲料', amount: 90 }, { name: '折價券', amount: -150 }],
+  ...overrides,
+});
+
+const sum = (amounts: number[]) => amounts.reduce((total, a) => total + a, 0);
+
+describe('parseCarrierCsv', () => {
+  it('groups detail rows under their invoice and reads ROC dates', () => {
+    const csv = [
+      'M|手機條碼|/ABC1234|1150901|12345678|全家便利商店股份有限公司|AB12345678|85|開立|',
+      'D|AB12345678|60|御飯糰|',
+      'D|AB12345678|25|豆漿|',
+      'M|手機條碼|/ABC1234|20260902|87654321|麥當勞|CD87654321|120|作廢|',
+    ].join('\n');
+    const [first, second] = parseCarrierCsv(csv);
+    expect(first).toMatchObject({ number: 'AB12345678', total: 85, voided: false, timestamp: new Date(2026, 8, 1, 12).getTime() });
+    expect(first.lines).toEqual([{ name: '御飯糰', amount: 60 }, { name: '豆漿', amount: 25 }]);
+    expect(second).toMatchObject({ number: 'CD87654321', voided: true, lines: [] });
+  });
+
+  it('skips invoices with an impossible date', () => {
+    expect(parseCarrierCsv('M|手機條碼|/ABC1234|20260231|1|店|AB00000001|10|開立|')).toEqual([]);
+  });
+});
+
+describe('invoiceToExpenses', () => {
+  it('spreads a discount larger than one line across every line', () => {
+    const expenses = invoiceToExpenses(invoice(), 'Food', true);
+    expect(sum(expenses.map(e => e.amount))).toBe(40);
+    expect(expenses.map(e => e.amount)).toEqual([21, 19]);
+    expect(expenses.map(e => e.id)).toEqual(['einv-AB12345678-1', 'einv-AB12345678-2']);
+  });
+
+  it('keeps the split amounts equal to the total after rounding', () => {
+    const expenses = invoiceToExpenses(invoice({ total: 100, lines: [{ name: 'A', amount: 35 }, { name: 'B', amount: 35 }, { name: 'C', amount: 35 }, { name: '折扣', amount: -5 }] }), 'Food', true);
+    expect(sum(expenses.map(e => e.amount))).toBe(100);
+  });
+
+  it('imports the invoice total as one expense unless split', () => {
+    expect(invoiceToExpenses(invoice(), 'Food', false)).toEqual([
+      expect.objectContaining({ id: 'einv-AB12345678', amount: 40, description: '統一超商' }),
+    ]);
+  });
+
+  it('skips invoices whose amount is zero', () => {
+    const free = invoice({ total: 0, lines: [{ name: '贈品', amount: 50 }, { name: '折抵', amount: -50 }] });
+    expect(invoiceToExpenses(free, 'Food', true)).toEqual([]);
+    expect(invoiceToExpenses(free, 'Food', false)).toEqual([]);
+  });
+});
+
+describe('invoice helpers', () => {
+  it('shortens the merchant name and recognises imported invoices', () => {
+    expect(shortMerchantName('全家便利商店股份有限公司台大門市')).toBe('全家便利商店');
+    expect(isInvoiceImported(invoice(), new Set(['einv-AB12345678-2']))).toBe(true);
+    expect(isInvoiceImported(invoice(), new Set(['einv-AB1234567']))).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { ExpenseItem } from '../types';
+import { ImportedExpense, parseCsv } from './csv';
+
+// 財政部電子發票整合服務平台「載具歸戶發票明細」CSV 匯出格式：
+//   M|載具名稱|載具號碼|發票日期|商店統編|商店店名|發票號碼|總金額|發票狀態|
+//   D|發票號碼|小計|品項名稱|
+
+export interface InvoiceLine {
+  name: string;
+  amount: number;
+}
+
+export interface Invoice {
+  number: string; // 發票號碼，例如 AB12345678
+  timestamp: number;
+  merchant: string;
+  merchantId: string; // 商店統編
+  total: number;
+  voided: boolean;
+  lines: InvoiceLine[];
+}
+
+// 發票日期為西元 YYYYMMDD，部分舊版匯出為民國 YYYMMDD
+const parseInvoiceDate = (value: string): number | null => {
+  const v = value.trim();
+  let y: number, m: number, d: number;
+  if (/^\d{8}$/.test(v)) {
+    [y, m, d] = [Number(v.slice(0, 4)), Number(v.slice(4, 6)), Number(v.slice(6, 8))];
+  } else if (/^\d{7}$/.test(v)) {
+    [y, m, d] = [Number(v.slice(0, 3)) + 1911, Number(v.slice(3, 5)), Number(v.slice(5, 7))];
+  } else {
+    return null;
+  }
+  // 發票只有日期，固定記在中午避免時區造成跨日
+  const date = new Date(y, m - 1, d, 12, 0, 0);
+  return date.getMonth() === m - 1 ? date.getTime() : null;
+};
+
+export const parseCarrierCsv = (text: string): Invoice[] => {
+  const invoices = new Map<string, Invoice>();
+  parseCsv(text, '|').forEach(row => {
+    const tag = row[0]?.trim();
+    if (tag === 'M') {
+      const [, , , date, merchantId, merchant, number, total, status] = row.map(c => c.trim());
+      const timestamp = parseInvoiceDate(date || '');
+      if (!number || timestamp === null) return;
+      invoices.set(number, {
+        number,
+        timestamp,
+        merchant: merchant || '',
+        merchantId: merchantId || '',
+        total: Number(total) || 0,
+        voided: (status || '').includes('作廢'),
+        lines: invoices.get(number)?.lines || [],
+      });
+    } else if (tag === 'D') {
+      const [, number, amount, name] = row.map(c => c.trim());
+      if (!number) return;
+      const invoice = invoices.get(number);
+      const line = { name: name || '', amount: Number(amount) || 0 };
+      if (invoice) invoice.lines.push(line);
+      // 明細列出現在表頭之前時先暫存
+      else invoices.set(number, { number, timestamp: 0, merchant: '', merchantId: '', total: 0, voided: false, lines: [line] });
+    }
+  });
+  return [...invoices.values()].filter(inv => inv.timestamp > 0).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// 去掉公司型態與分店名稱，例如「統一超商股份有限公司台北市第一分公司」→「統一超商」
+export const shortMerchantName = (merchant: string) => {
+  const name = merchant
+    .replace(/(股份)?有限公司.*$/, '')
+    .replace(/(分公司|門市|分店|營業所)$/, '')
+    .trim();
+  return name || merchant;
+};
+
+// 依商店名稱或品項關鍵字建議分類
+const CATEGORY_KEYWORDS: Array<[ExpenseItem, RegExp]> = [
+  [ExpenseItem.TRANSPORT, /捷運|客運|台鐵|鐵路|高鐵|悠遊卡|一卡通|加油|中油|台塑石化|停車|Uber|計程車/i],
+  [ExpenseItem.HEALTH, /藥局|藥妝|診所|醫院|康是美|屈臣氏|大樹|杏一/],
+  [ExpenseItem.CLOTHING, /服飾|UNIQLO|優衣庫|ZARA|H&M|鞋/i],
+  [ExpenseItem.ENTERTAINMENT, /影城|電影|威秀|KTV|錢櫃|好樂迪|遊戲|Steam|Netflix|Spotify/i],
+  [ExpenseItem.HOUSING, /電力|台電|自來水|瓦斯|電信|中華電信|台灣大哥大|遠傳/],
+  [ExpenseItem.SHOPPING, /全聯|家樂福|大潤發|好市多|Costco|IKEA|燦坤|全國電子|寶雅|大創|蝦皮|momo/i],
+  [ExpenseItem.FOOD, /統一超商|7-ELEVEN|全家|萊爾富|OK超商|來來超商|麥當勞|肯德基|摩斯|星巴克|路易莎|餐|飲|食|咖啡|便當|早餐|麵|飯/i],
+];
+
+export const suggestCategory = (invoice: Invoice): string => {
+  const text = `${invoice.merchant} ${invoice.lines.map(l => l.name).join(' ')}`;
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] || ExpenseItem.OTHER;
+};
+
+// 以發票號碼產生固定編號，重複匯入時可辨識
+export const invoiceExpenseId = (invoice: Invoice, lineIdx?: number) =>
+  lineIdx === undefined ? `einv-${invoice.number}` : `einv-${invoice.number}-${lineIdx + 1}`;
+
+export const isInvoiceImported = (invoice: Invoice, existingIds: Set<string>) => {
+  const id = invoiceExpenseId(invoice);
+  for (const existing of existingIds) {
+    if (existing === id || existing.startsWith(`${id}-`)) return true;
+  }
+  return false;
+};
+
+// 發票金額，沒有總計時以品項小計加總
+export const invoiceAmount = (invoice: Invoice) =>
+  invoice.total || invoice.lines.reduce((sum, l) => sum + l.amount, 0);
+
+// 將發票轉為支出紀錄；依品項拆分時，折扣 (負數小計) 依金額比例分攤到各品項，拆分後的金額加總等於發票金額
+export const invoiceToExpenses = (invoice: Invoice, item: string, perLine: boolean): ImportedExpense[] => {
+  const merchant = shortMerchantName(invoice.merchant);
+  const positives = invoice.lines.filter(l => l.amount > 0);
+
+  // 金額為 0 或負數 (例如全額折抵) 的發票不產生紀錄
+  if (!perLine || positives.length === 0) {
+    const amount = invoiceAmount(invoice);
+    return amount > 0 ? [{
+      id: invoiceExpenseId(invoice),
+      type: 'expense',
+      amount,
+      item,
+      description: merchant,
+      timestamp: invoice.timestamp,
+    }] : [];
+  }
+
+  const total = invoiceAmount(invoice);
+  if (total <= 0) return [];
+  const subtotal = positives.reduce((sum, l) => sum + l.amount, 0);
+  const amounts = positives.map(l => Math.round(l.amount * total / subtotal));
+  // 四捨五入的差額由金額最大的品項吸收
+  const largest = amounts.indexOf(Math.max(...amounts));
+  amounts[largest] += total - amounts.reduce((sum, a) => sum + a, 0);
+  return positives.map((line, idx) => ({
+    id: invoiceExpenseId(invoice, idx),
+    type: 'expense' as const,
+    amount: amounts[idx],
+    item,
+    description: `${merchant}・${line.name}`,
+    timestamp: invoice.timestamp,
+  })).filter(e => e.amount > 0);
+};
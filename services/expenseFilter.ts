@@ -0,0 +1,71 @@
+import { Expense } from '../types';
+import { isIncome } from './stats';
+import { expenseTags, hasTag } from './tags';
+
+// 紀錄頁的搜尋與篩選條件，空字串代表不限制
+export interface ExpenseFilter {
+  text: string;
+  item: string;
+  tag: string;
+  account: string;
+  minAmount: string;
+  maxAmount: string;
+  fromDate: string; // YYYY-MM-DD
+  toDate: string;
+}
+
+export const EMPTY_FILTER: ExpenseFilter = {
+  text: '',
+  item: '',
+  tag: '',
+  account: '',
+  minAmount: '',
+  maxAmount: '',
+  fromDate: '',
+  toDate: '',
+};
+
+export const isFilterActive = (filter: ExpenseFilter) =>
+  Object.values(filter).some(value => value !== '');
+
+export const applyExpenseFilter = (expenses: Expense[], filter: ExpenseFilter) => {
+  const text = filter.text.trim().toLowerCase();
+  const min = filter.minAmount === '' ? -Infinity : Number(filter.minAmount);
+  const max = filter.maxAmount === '' ? Infinity : Number(filter.maxAmount);
+  const from = filter.fromDate ? new Date(`${filter.fromDate}T00:00:00`).getTime() : -Infinity;
+  const to = filter.toDate ? new Date(`${filter.toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+
+  return expenses.filter(e =>
+    (!text || e.description.toLowerCase().includes(text) || expenseTags(e).some(tag => tag.toLowerCase().includes(text))) &&
+    (!filter.item || e.item === filter.item) &&
+    (!filter.tag || hasTag(e, filter.tag)) &&
+    (!filter.account || e.account === filter.account) &&
+    e.amount >= min && e.amount <= max &&
+    e.timestamp >= from && e.timestamp < to
+  );
+};
+
+export interface DayGroup {
+  key: string; // 當天的 toDateString()
+  timestamp: number;
+  expenses: Expense[];
+  spent: number;
+  income: number;
+}
+
+// 依日期分組 (由新到舊)，並計算每日小計
+export const groupByDay = (expenses: Expense[]): DayGroup[] => {
+  const groups: DayGroup[] = [];
+  [...expenses].sort((a, b) => b.timestamp - a.timestamp).forEach(e => {
+    const key = new Date(e.timestamp).toDateString();
+    let group = groups[groups.length - 1];
+    if (!group || group.key !== key) {
+      group = { key, timestamp: e.timestamp, expenses: [], spent: 0, income: 0 };
+      groups.push(group);
+    }
+    group.expenses.push(e);
+    if (isIncome(e)) group.income += e.amount;
+    else group.spent += e.amount;
+  });
+  return groups;
+};
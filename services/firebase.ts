@@ -1,7 +1,7 @@
 
 import { initializeApp } from "firebase/app";
-import { getAuth, GoogleAuthProvider } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { getAuth, GoogleAuthProvider, connectAuthEmulator } from "firebase/auth";
+import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager, connectFirestoreEmulator } from "firebase/firestore";
 
 // Firebase 配置資訊
 export const firebaseConfig = {
@@ -18,5 +18,14 @@ const app = initializeApp(firebaseConfig);
 
 // 導出服務實例
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+// 啟用 IndexedDB 離線快取，離線時仍可讀取已同步的資料，並支援多分頁共用
+export const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+});
 export const googleProvider = new GoogleAuthProvider();
+
+// 設定 VITE_USE_FIREBASE_EMULATORS=true 時改連本機 Emulator (firebase emulators:start)
+if (import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "127.0.0.1", 8080);
+}
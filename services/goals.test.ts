@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SavingsGoal } from '../types';
+import { allocateSurplus, goalProgress, goalStatus, monthsUntil, requiredMonthly, surplusSetAside } from './goals';
+
+const DAY = 24 * 60 * 60 * 1000;
+const CREATED = new Date(2026, 0, 1).getTime();
+const DEADLINE = new Date(2027, 0, 1).getTime();
+const MIDYEAR = CREATED + (DEADLINE - CREATED) / 2;
+
+const goal = (id: string, saved: number, overrides: Partial<SavingsGoal> = {}): SavingsGoal => ({
+  id,
+  name: id,
+  target: 12000,
+  deadline: DEADLINE,
+  createdAt: CREATED,
+  autoFromSurplus: true,
+  contributions: saved ? [{ id: `${id}-1`, amount: saved, timestamp: CREATED, source: 'manual' }] : [],
+  ...overrides,
+});
+
+describe('goal progress', () => {
+  it('compares the saved amount with an even pace to the deadline', () => {
+    expect(goalStatus(goal('a', 6500), MIDYEAR)).toBe('on_track');
+    expect(goalStatus(goal('a', 5000), MIDYEAR)).toBe('behind');
+    expect(goalStatus(goal('a', 5000), DEADLINE)).toBe('overdue');
+    expect(goalStatus(goal('a', 12000), DEADLINE)).toBe('done');
+    expect(goalProgress(goal('a', 15000))).toBe(1);
+    expect(goalProgress(goal('a', 100, { target: 0 }))).toBe(0);
+  });
+
+  it('asks for the whole remainder once the deadline has passed', () => {
+    expect(monthsUntil(DEADLINE, DEADLINE - DAY)).toBe(1);
+    expect(monthsUntil(DEADLINE, DEADLINE)).toBe(0);
+    expect(requiredMonthly(goal('a', 2000), DEADLINE - DAY)).toBe(10000);
+    expect(requiredMonthly(goal('a', 2000), DEADLINE + DAY)).toBe(10000);
+  });
+});
+
+describe('allocateSurplus', () => {
+  const periodEnd = new Date(2026, 5, 1).getTime();
+
+  it('splits the surplus evenly without going past a target', () => {
+    const goals = [
+      goal('trip', 0),
+      goal('phone', 11700),
+      goal('manual', 0, { autoFromSurplus: false }),
+      goal('later', 0, { createdAt: periodEnd }),
+    ];
+    const allocations = allocateSurplus(goals, '2026-05', periodEnd, 1001, periodEnd);
+    expect(allocations.map(a => [a.goalId, a.contribution.amount])).toEqual([['trip', 500], ['phone', 300]]);
+    expect(allocations[0].contribution).toMatchObject({ id: 'surplus-2026-05', source: 'surplus', periodKey: '2026-05' });
+  });
+
+  it('allocates each period only once and reports the amounts set aside', () => {
+    const allocated = goal('trip', 0, {
+      contributions: [{ id: 'surplus-2026-05', amount: 800, timestamp: periodEnd, source: 'surplus', periodKey: '2026-05' }],
+    });
+    expect(allocateSurplus([allocated, goal('other', 0)], '2026-05', periodEnd, 1000)).toEqual([]);
+    expect(allocateSurplus([goal('other', 0)], '2026-05', periodEnd, -50)).toEqual([]);
+    expect(surplusSetAside([allocated, goal('other', 300)])).toEqual(new Map([['2026-05', 800]]));
+  });
+});
@@ -0,0 +1,79 @@
+import { GoalContribution, SavingsGoal } from '../types';
+import { MessageKey } from './locales/zh-TW';
+
+export type GoalStatus = 'done' | 'overdue' | 'on_track' | 'behind';
+
+export const goalSaved = (goal: SavingsGoal) =>
+  goal.contributions.reduce((sum, c) => sum + c.amount, 0);
+
+export const goalRemaining = (goal: SavingsGoal) => Math.max(goal.target - goalSaved(goal), 0);
+
+export const goalProgress = (goal: SavingsGoal) =>
+  goal.target > 0 ? Math.min(goalSaved(goal) / goal.target, 1) : 0;
+
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+// 距離期限還有幾個月 (不足一個月以一個月計)，期限已過回傳 0
+export const monthsUntil = (deadline: number, now = Date.now()) =>
+  deadline <= now ? 0 : Math.max(Math.ceil((deadline - now) / MONTH_MS), 1);
+
+// 要在期限前達成，從現在起每月需存入的金額
+export const requiredMonthly = (goal: SavingsGoal, now = Date.now()) => {
+  const remaining = goalRemaining(goal);
+  const months = monthsUntil(goal.deadline, now);
+  return months > 0 ? Math.ceil(remaining / months) : remaining;
+};
+
+// 以建立到期限之間平均存入為基準，判斷目前進度是否落後
+export const goalStatus = (goal: SavingsGoal, now = Date.now()): GoalStatus => {
+  const saved = goalSaved(goal);
+  if (saved >= goal.target) return 'done';
+  if (goal.deadline <= now) return 'overdue';
+  const span = goal.deadline - goal.createdAt;
+  const expected = span > 0 ? goal.target * Math.min((now - goal.createdAt) / span, 1) : goal.target;
+  return saved >= expected ? 'on_track' : 'behind';
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, MessageKey> = {
+  done: 'goals.statusDone',
+  overdue: 'goals.statusOverdue',
+  on_track: 'goals.statusOnTrack',
+  behind: 'goals.statusBehind',
+};
+
+export const surplusContributionId = (periodKey: string) => `surplus-${periodKey}`;
+
+// 各目標在某一期已存入的預算結餘，結轉計算時需扣除
+export const surplusSetAside = (goals: SavingsGoal[]) => {
+  const byPeriod = new Map<string, number>();
+  goals.forEach(goal => goal.contributions.forEach(c => {
+    if (c.source === 'surplus' && c.periodKey) byPeriod.set(c.periodKey, (byPeriod.get(c.periodKey) || 0) + c.amount);
+  }));
+  return byPeriod;
+};
+
+// 可分配某期結餘的目標：開啟自動存入、在該期結束前建立且尚未達成；
+// 同一期的結餘已分配過時回傳空陣列，避免重複存入
+export const surplusRecipients = (goals: SavingsGoal[], periodKey: string, periodEnd: number) => {
+  const id = surplusContributionId(periodKey);
+  if (goals.some(goal => goal.contributions.some(c => c.id === id))) return [];
+  return goals.filter(goal => goal.autoFromSurplus && goal.createdAt < periodEnd && goalRemaining(goal) > 0);
+};
+
+// 將結餘平均分配給可分配的目標，每個目標最多存到目標金額
+export const allocateSurplus = (
+  goals: SavingsGoal[],
+  periodKey: string,
+  periodEnd: number,
+  surplus: number,
+  now = Date.now()
+): Array<{ goalId: string; contribution: GoalContribution }> => {
+  const recipients = surplusRecipients(goals, periodKey, periodEnd);
+  if (surplus <= 0 || recipients.length === 0) return [];
+  const share = Math.floor(surplus / recipients.length);
+  const id = surplusContributionId(periodKey);
+  return recipients
+    .map(goal => ({ goalId: goal.id, amount: Math.min(share, goalRemaining(goal)) }))
+    .filter(({ amount }) => amount > 0)
+    .map(({ goalId, amount }) => ({ goalId, contribution: { id, amount, timestamp: now, source: 'surplus' as const, periodKey } }));
+};
@@ -0,0 +1,43 @@
+import zhTW, { MessageKey } from './locales/zh-TW';
+import en from './locales/en';
+
+export type Locale = 'zh-TW' | 'en';
+
+export const LOCALES: Array<{ code: Locale; label: string }> = [
+  { code: 'zh-TW', label: '繁體中文' },
+  { code: 'en', label: 'English' },
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'zh-TW': zhTW, en };
+
+// 未設定語言時依瀏覽器語言判斷，非中文一律使用英文
+export const detectLocale = (): Locale =>
+  typeof navigator !== 'undefined' && !navigator.language.toLowerCase().startsWith('zh') ? 'en' : 'zh-TW';
+
+let current: Locale = detectLocale();
+
+// 由 App 依使用者偏好設定，之後的文字與日期、數字格式都使用此語言
+export const setLocale = (locale: string | undefined) => {
+  current = LOCALES.some(l => l.code === locale) ? locale as Locale : detectLocale();
+};
+
+export const getLocale = () => current;
+
+// 取得目前語言的文字，{name} 形式的參數以 params 代入
+export const t = (key: MessageKey, params?: Record<string, string | number>) => {
+  const template = CATALOGS[current][key] ?? zhTW[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (params[name] !== undefined ? String(params[name]) : match));
+};
+
+// 任一語言的文字都符合時回傳 true，用於判斷內建分類名稱是否被使用者修改過
+export const matchesAnyLocale = (key: MessageKey, text: string) =>
+  LOCALES.some(l => CATALOGS[l.code][key] === text);
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) => value.toLocaleString(current, options);
+
+export const formatDate = (date: Date | number, options?: Intl.DateTimeFormatOptions) =>
+  new Date(date).toLocaleDateString(current, options);
+
+export const formatTime = (date: Date | number, options?: Intl.DateTimeFormatOptions) =>
+  new Date(date).toLocaleTimeString(current, options);
@@ -1,3 +1,67 @@
+import { Expense } from '../types';
+import { ExpenseChanges, ExpenseRepository, ExpenseUpdate } from './repository';
 
-// This file is deprecated. All data operations are now handled directly via Firebase in App.tsx.
-export {};
+// 尚未確認寫入雲端的紀錄異動，存在 localStorage；
+// 關閉分頁或重新整理後仍保留，下次開啟或恢復連線時重送
+export interface PendingWrite {
+  id: string;
+  op: 'set' | 'update' | 'delete' | 'restore' | 'updateMany';
+  expenseId: string; // updateMany 時為第一筆，全部編號以 pendingWriteIds 取得
+  data?: Expense | ExpenseChanges;
+  updates?: ExpenseUpdate[]; // updateMany：批次修改，以單一批次寫入
+  queuedAt: number;
+}
+
+const storageKey = (uid: string) => `pendingWrites:${uid}`;
+
+export const loadPendingWrites = (uid: string): PendingWrite[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(uid));
+    const writes: PendingWrite[] = raw ? JSON.parse(raw) : [];
+    return writes.filter(write => typeof write.expenseId === 'string');
+  } catch {
+    return [];
+  }
+};
+
+export const savePendingWrites = (uid: string, writes: PendingWrite[]) => {
+  try {
+    if (writes.length === 0) localStorage.removeItem(storageKey(uid));
+    else localStorage.setItem(storageKey(uid), JSON.stringify(writes));
+  } catch (e) {
+    console.error('[Queue] 無法寫入 localStorage:', e);
+  }
+};
+
+const newWriteId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPendingWrite = (op: PendingWrite['op'], expenseId: string, data?: Expense | ExpenseChanges): PendingWrite => ({
+  id: newWriteId(),
+  op,
+  expenseId,
+  data,
+  queuedAt: Date.now(),
+});
+
+export const createPendingBatch = (updates: ExpenseUpdate[]): PendingWrite => ({
+  id: newWriteId(),
+  op: 'updateMany',
+  expenseId: updates[0].id,
+  updates,
+  queuedAt: Date.now(),
+});
+
+// 寫入影響的紀錄編號
+export const pendingWriteIds = (write: PendingWrite) =>
+  write.updates ? write.updates.map(u => u.id) : [write.expenseId];
+
+// Firebase 實作會先套用到本地快取；離線時 Promise 會等到連線並寫入伺服器後才完成
+export const executePendingWrite = (repository: ExpenseRepository, uid: string, write: PendingWrite) => {
+  switch (write.op) {
+    case 'set': return repository.save(uid, write.data as Expense);
+    case 'update': return repository.update(uid, write.expenseId, write.data || {});
+    case 'delete': return repository.remove(uid, write.expenseId);
+    case 'restore': return repository.restore(uid, write.expenseId);
+    case 'updateMany': return repository.updateMany(uid, write.updates || []);
+  }
+};
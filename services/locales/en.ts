@@ -0,0 +1,549 @@
+import { MessageKey } from './zh-TW';
+
+const en: Record<MessageKey, string> = {
+  'app.name': 'Minimal Budget',
+  'app.loading': 'Syncing your account...',
+  'app.version': 'Minimal Budget for Students v2.5',
+  'app.errorSync': 'Sync failed: {message}',
+  'app.errorSaveCycle': 'Could not save the budget cycle: {message}',
+  'app.errorSaveRollover': 'Could not save the rollover setting: {message}',
+  'app.errorSaveCategory': 'Could not save the category: {message}',
+  'app.errorReorder': 'Could not save the order: {message}',
+  'app.errorSaveRecurring': 'Could not save the recurring item: {message}',
+  'app.errorDelete': 'Delete failed: {message}',
+  'app.errorSaveGoal': 'Could not save the savings goal: {message}',
+  'app.errorContribute': 'Deposit failed: {message}',
+  'app.errorSaveAccount': 'Could not save the payment account: {message}',
+  'app.errorSaveTransfer': 'Could not save the transfer: {message}',
+  'app.errorSavePreferences': 'Could not save preferences: {message}',
+  'app.errorDeleteAccount': 'Could not delete the account: {message}',
+  'app.expenseNotFound': 'This record could not be found',
+  'app.indexRequired': 'A database index is required',
+  'app.openIndexSettings': 'Open settings',
+  'app.errorDeleteAccountDataRemoved': 'Could not delete the account: {message}. Your data has already been removed, but the account itself still exists and can sign in.',
+
+  'common.income': 'Income',
+  'common.expense': 'Expense',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.save': 'Save',
+  'common.manage': 'Manage',
+  'common.invalidAmount': 'Please enter a valid amount',
+  'common.listSeparator': ', ',
+  'common.cancel': 'Cancel',
+  'common.undo': 'Undo',
+  'common.deleted': 'Deleted "{description}"',
+  'common.notSignedIn': 'You are not signed in',
+  'common.unknownError': 'An unknown error occurred',
+  'common.notFound': 'Document not found: {path}',
+
+  'title.addExpense': 'New Record',
+  'title.editExpense': 'Edit Record',
+  'title.report': 'Insights',
+  'title.categories': 'Categories',
+  'title.data': 'Import & Export',
+  'title.recurring': 'Recurring',
+  'title.goals': 'Savings Goals',
+  'title.trash': 'Trash',
+  'title.settings': 'Account',
+  'title.accounts': 'Payment Accounts',
+
+  'nav.dashboard': 'Records',
+  'nav.report': 'Reports',
+  'nav.goals': 'Goals',
+  'nav.categories': 'Categories',
+  'nav.data': 'Data',
+  'nav.logout': 'Log out',
+
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+
+  'login.tagline': 'Every expense, simple and clear',
+  'login.syncing': 'Signing you in...',
+  'login.debugTitle': '[Diagnostics]',
+  'login.debugHost': '● Host: {host}',
+  'login.debugUser': '● Current user: {user}',
+  'login.debugError': '● Last error: {error}',
+  'login.debugNoUser': 'none detected',
+  'login.debugNoError': 'none',
+  'login.forgotPassword': 'Forgot password?',
+  'login.copy': 'Copy',
+  'login.copied': 'Copied',
+  'login.openNewTab': 'Open in new tab',
+  'login.openConsole': 'Open console',
+  'login.submit': 'Log in',
+  'login.google': 'Continue with Google',
+  'login.noAccount': "Don't have an account?",
+  'login.register': 'Sign up',
+  'login.resetSent': 'Password reset email sent.',
+  'login.errorRedirectDomain': 'Sign-in failed: this domain is not authorized in Firebase.',
+  'login.errorMissing': 'Please enter your email and password',
+  'login.errorInvalidCredential': 'Incorrect email or password.',
+  'login.errorGeneric': 'Sign-in error: {code}',
+  'login.errorUnauthorizedDomain': 'This domain is not authorized in Firebase.',
+  'login.errorPopupBlocked': 'The popup was blocked. Please allow popups for this site.',
+  'login.errorGoogle': 'Could not start Google sign-in: {message}',
+  'login.errorResetEmail': 'Please enter your email address first.',
+  'login.errorReset': 'Password reset failed: {message}',
+
+  'register.title': 'Create an account',
+  'register.subtitle': 'A budgeting app built for students —',
+  'register.subtitle2': 'stay on top of every expense.',
+  'register.passwordPlaceholder': 'At least 6 characters',
+  'register.confirmPassword': 'Confirm password',
+  'register.confirmPlaceholder': 'Enter your password again',
+  'register.submit': 'Create account',
+  'register.submitting': 'Creating account...',
+  'register.hasAccount': 'Already have an account?',
+  'register.login': 'Log in',
+  'register.errorMissing': 'Please fill in all fields',
+  'register.errorMismatch': 'Passwords do not match',
+  'register.errorTooShort': 'Password must be at least 6 characters',
+  'register.errorEmailInUse': 'This email is already registered',
+  'register.errorInvalidEmail': 'Invalid email address',
+  'register.errorGeneric': 'Sign-up failed: {code}',
+
+  'welcome.verified': 'Verified',
+  'welcome.title': 'Welcome back!',
+  'welcome.account': 'Signed in as',
+  'welcome.enter': 'Continue',
+
+  'sync.online': 'Synced',
+  'sync.syncing': 'Syncing',
+  'sync.offline': 'Offline',
+  'sync.pendingCount': '{count} waiting to upload',
+  'sync.pending': 'Not synced',
+  'sync.pendingHint': 'Not synced yet',
+
+  'dashboard.greeting': 'Hi, {name}!',
+  'dashboard.prompt': 'What would you like to record today?',
+  'dashboard.title': 'Records',
+  'dashboard.loaded': 'Records loaded: {count}',
+  'dashboard.invalidRecords': '{count} stored records are malformed and hidden. Tap to review',
+  'dashboard.overBudget': 'Some categories are over budget this {unit}',
+  'dashboard.overBudgetItem': '{label}: {spent} / {limit} ({over} over)',
+  'dashboard.search': 'Search descriptions...',
+  'dashboard.filter': 'Filter',
+  'dashboard.allCategories': 'All categories',
+  'dashboard.allTags': 'All tags',
+  'dashboard.allAccounts': 'All accounts',
+  'dashboard.incomePrefix': 'Income · ',
+  'dashboard.archived': ' (archived)',
+  'dashboard.minAmount': 'Min amount',
+  'dashboard.maxAmount': 'Max amount',
+  'dashboard.clearFilters': 'Clear all filters',
+  'dashboard.matches': 'Matches: {count}',
+  'dashboard.spentTotal': 'Spent {amount}',
+  'dashboard.incomeTotal': 'Income {amount}',
+  'dashboard.empty': 'No records yet',
+  'dashboard.addFirst': 'Add your first record',
+  'dashboard.noMatch': 'No records match these filters',
+  'dashboard.loadedOnly': 'Only loaded records are searched',
+  'dashboard.loadMore': 'Load earlier records',
+  'dashboard.allShown': 'All records shown',
+  'dashboard.today': 'Today · {date}',
+  'dashboard.yesterday': 'Yesterday · {date}',
+
+  'form.today': 'Today',
+  'form.yesterday': 'Yesterday',
+  'form.dayBeforeYesterday': '2 days ago',
+  'form.amount': 'Amount ({currency})',
+  'form.id': 'ID: {id}',
+  'form.expenseItem': 'Expense category',
+  'form.incomeItem': 'Income category',
+  'form.pickItem': 'Choose one',
+  'form.description': 'Description',
+  'form.expensePlaceholder': 'What was this spent on?',
+  'form.incomePlaceholder': 'Where did this come from?',
+  'form.paidWith': 'Paid with',
+  'form.receivedInto': 'Received into',
+  'form.pickAccount': 'Choose one',
+  'form.noAccounts': 'No payment accounts yet',
+  'form.addAccount': 'Add a payment account',
+  'form.accountRequired': 'Please choose a payment account',
+  'form.tags': 'Tags',
+  'form.tagPlaceholder': 'Type a tag and press Enter, e.g. Grad trip',
+  'form.save': 'Save',
+  'form.invalid': 'Please fill in all fields correctly',
+  'form.overBudgetConfirm': 'The "{label}" budget this {unit} is {limit}. Saving brings it to {projected}, {over} over budget. Save anyway?',
+
+  'period.unitMonth': 'month',
+  'period.unitPeriod': 'period',
+  'period.lastYear': '{label} (last year)',
+  'period.cycleCalendar': 'Calendar month',
+  'period.cycleStartDay': 'Starts on day {day}',
+  'period.cycleCustom': 'Custom ranges ({count})',
+
+  'cycle.title': 'Budget cycle',
+  'cycle.calendarHint': 'From the 1st to the end of each month',
+  'cycle.startDay': 'Fixed start day',
+  'cycle.startDayHint': 'E.g. allowance arrives on the 5th: count from the 5th to the 4th of next month',
+  'cycle.custom': 'Custom ranges',
+  'cycle.customHint': 'E.g. budget by semester',
+  'cycle.startDayPrefix': 'Starts on day',
+  'cycle.startDaySuffix': 'of each month',
+  'cycle.rangeBudget': ' · Budget {amount}',
+  'cycle.rangeName': 'Name, e.g. Fall semester',
+  'cycle.rangeBudgetPlaceholder': 'Range budget (optional)',
+  'cycle.addRange': 'Add range',
+  'cycle.uncoveredHint': 'Dates outside every range fall back to calendar months.',
+  'cycle.errorRangeMissing': 'Please enter a name, start and end date',
+  'cycle.errorRangeOrder': 'The end date must be after the start date',
+  'cycle.errorRangeOverlap': 'Ranges cannot overlap',
+  'cycle.errorNoRanges': 'Please add at least one range',
+
+  'recurring.monthly': 'Monthly on day {day}',
+  'recurring.weekly': 'Every {weekday}',
+  'recurring.subtitle': 'Rent, phone bills and subscriptions, recorded automatically every period',
+  'recurring.empty': 'No recurring items yet',
+  'recurring.ended': 'Ended',
+  'recurring.paused': 'Paused',
+  'recurring.next': 'Next {date}',
+  'recurring.resume': 'Resume',
+  'recurring.pause': 'Pause',
+  'recurring.end': 'End',
+  'recurring.deleteRule': 'Delete rule',
+  'recurring.add': 'Add recurring item',
+  'recurring.edit': 'Edit recurring item',
+  'recurring.descriptionPlaceholder': 'e.g. Rent, phone plan, Netflix',
+  'recurring.noAccount': 'No payment account',
+  'recurring.frequencyMonthly': 'Monthly',
+  'recurring.frequencyWeekly': 'Weekly',
+  'recurring.startDate': 'Start date',
+  'recurring.endDate': 'End date (optional)',
+  'recurring.backfillHint': 'If the start date is in the past, records from then until today are filled in.',
+  'recurring.errorCategory': 'Please choose a category',
+  'recurring.errorDescription': 'Please enter a description',
+  'recurring.errorEndDate': 'The end date must be after the start date',
+  'recurring.endConfirm': 'End "{description}"? No more records will be created; existing ones are kept.',
+  'recurring.deleteConfirm': 'Delete the "{description}" rule? Records it already created are kept.',
+
+  'report.monthly': 'Monthly',
+  'report.periodic': 'By period',
+  'report.yearly': 'Year overview',
+  'report.backToCurrent': 'Back to this {unit}',
+  'report.year': '{year}',
+  'report.yearIncome': 'Income this year',
+  'report.yearSpent': 'Spent this year',
+  'report.net': 'Net',
+  'report.totalSpent': 'Total spent · {period}',
+  'report.lastUpdated': 'Last updated: {time}',
+  'report.spentRatio': 'Budget used',
+  'report.budget': 'Budget this {unit}',
+  'report.carryIn': 'Carried over {amount}',
+  'report.remaining': 'Remaining',
+  'report.overBy': '{amount} over',
+  'report.rollover': 'Budget rollover',
+  'report.rolloverHint': 'Leftover or overspending carries into the next period automatically',
+  'report.rolloverOn': 'Turn on rollover',
+  'report.rolloverOff': 'Turn off rollover',
+  'report.savedThisYear': 'Saved this year',
+  'report.carryTotal': 'Current carry-over',
+  'report.colPeriod': 'Period',
+  'report.colBudget': 'Budget',
+  'report.colSpent': 'Spent',
+  'report.colCarry': 'Carry',
+  'report.inProgress': '{label} (current)',
+  'report.setAside': '{amount} moved to savings goals',
+  'report.pace': 'Spending pace',
+  'report.paceHint': 'Cumulative spending against an evenly spread budget',
+  'report.upcoming': 'Upcoming fixed costs',
+  'report.upcomingCount': '{count} left this {unit}, {amount} in total',
+  'report.upcomingNone': 'No fixed costs left this {unit}',
+  'report.upcomingOver': 'After fixed costs you will exceed this {unit}\'s budget by {amount}',
+  'report.breakdown': 'Spending by category',
+  'report.breakdownHint': 'How much went to each category and its share',
+  'report.drillTitle': '{label} · {count}',
+  'report.share': '{percent}% of total',
+  'report.limit': 'Budget {amount}',
+  'report.limitOver': ' · {amount} over',
+  'report.setLimit': 'Set budget',
+  'report.limitPlaceholder': 'Budget',
+  'report.addLimit': 'Add a category budget...',
+  'report.amountPlaceholder': 'Amount',
+  'report.empty': 'No spending in this period',
+  'report.emptyHint': 'Record your first expense from the home screen',
+  'report.previousMonth': 'Last month',
+  'report.previousPeriod': 'Previous period',
+  'report.sameLastYear': 'Same {unit} last year',
+  'report.trendMonths': 'Last 6 months',
+  'report.trendPeriods': 'Last 6 periods',
+  'report.trendHint': 'Tap a bar to jump to that period',
+  'report.advice': 'Smart tips',
+  'report.adviceOverBudget': 'Heads up! You have spent more than your budget. Consider cutting back on non-essentials.',
+  'report.adviceOverLimit': '{labels} went over the category budget. Keep an eye on these.',
+  'report.adviceGood': 'You are on track. {label} is your biggest expense this {unit}. Keep recording and make every dollar count!',
+  'report.adviceStart': 'Good budgeting habits are the first step to financial freedom. Start recording your spending today!',
+  'report.goalOverdue': ' Savings goal "{name}" is past its deadline with {amount} to go. Consider extending the deadline or adjusting the target.',
+  'report.goalBehind': ' Savings goal "{name}" is behind: save {amount} a month to reach it by {deadline}.',
+  'report.goalOnTrack': ' {count} savings goals on track; "{name}" is {percent}% done.',
+  'report.viewGoals': 'View savings goals',
+  'report.setGoals': 'Set a savings goal',
+
+  'accounts.title': 'Payment accounts',
+  'accounts.subtitle': 'Cash, bank card and EasyCard balances in one place',
+  'accounts.total': 'Total balance',
+  'accounts.empty': 'No payment accounts yet',
+  'accounts.unknown': 'No account',
+  'accounts.kindCash': 'Cash',
+  'accounts.kindBank': 'Bank card',
+  'accounts.kindStoredValue': 'Stored-value card',
+  'accounts.kindOther': 'Other',
+  'accounts.opening': 'Opening {amount} ({date})',
+  'accounts.flows': 'Income {income} · Spent {spent} · Transfers {transfer}',
+  'accounts.archived': 'Archived',
+  'accounts.archive': 'Archive',
+  'accounts.unarchive': 'Unarchive',
+  'accounts.topUp': 'Top up',
+  'accounts.transfer': 'Transfer',
+  'accounts.reconcile': 'Reconcile',
+  'accounts.reconcileActual': 'Actual balance',
+  'accounts.reconcileApply': 'Adjust',
+  'accounts.reconcileMatch': 'The recorded balance matches',
+  'accounts.reconcileDiff': '{diff} off the recorded balance',
+  'accounts.reconcileConfirm': 'Adjust the opening balance by {diff} so the balance becomes {actual}?',
+  'accounts.add': 'Add account',
+  'accounts.edit': 'Edit account',
+  'accounts.namePlaceholder': 'E.g. Wallet, Post office card, EasyCard',
+  'accounts.openingBalance': 'Opening balance',
+  'accounts.openingDate': 'Opening date',
+  'accounts.openingHint': 'Records before the opening date are not counted in the balance.',
+  'accounts.transferTitle': 'Transfer / Top up',
+  'accounts.from': 'From',
+  'accounts.to': 'To',
+  'accounts.notePlaceholder': 'Note (optional)',
+  'accounts.transfers': 'Transfers',
+  'accounts.deleteTransferConfirm': 'Delete the {amount} transfer "{from} → {to}"?',
+  'accounts.errorName': 'Please enter an account name',
+  'accounts.errorOpeningBalance': 'Please enter a valid opening balance',
+  'accounts.errorOpeningDate': 'Please choose an opening date',
+  'accounts.errorPickAccounts': 'Please choose both accounts',
+  'accounts.errorSameAccount': 'Choose two different accounts',
+
+  'bulk.select': 'Select',
+  'bulk.done': 'Done',
+  'bulk.selectedCount': '{count} selected',
+  'bulk.selectAll': 'Select all {count}',
+  'bulk.clear': 'Clear',
+  'bulk.apply': 'Apply',
+  'bulk.recategorise': 'Category',
+  'bulk.changeDate': 'Date',
+  'bulk.export': 'Export',
+  'bulk.deleteConfirm': 'Move the {count} selected records to the trash?',
+  'bulk.updated': 'Updated {count} records',
+  'bulk.skippedKind': '; skipped {count} whose type does not match the category',
+  'bulk.deleted': 'Deleted {count} records',
+  'bulk.failed': 'Bulk action failed: {message}',
+
+  'tags.title': 'Spending by tag',
+  'tags.hint': 'An expense with several tags counts toward each of them',
+  'tags.count': '{count} records',
+  'tags.empty': 'No tagged spending in this range',
+  'tags.invalidRange': 'The end date must be after the start date',
+
+  'comparison.title': 'Spending comparison',
+  'comparison.totalChange': 'Change in total',
+  'comparison.unchanged': 'No change',
+  'comparison.empty': 'No spending in either period',
+
+  'chart.totalSpent': 'Total spent',
+  'chart.day': 'Day {day}',
+  'chart.cumulative': 'Cumulative spending',
+  'chart.pace': 'Budget pace',
+
+  'settings.language': 'Language',
+  'settings.profile': 'Profile',
+  'settings.displayName': 'Display name',
+  'settings.photoURL': 'Avatar URL',
+  'settings.saving': 'Saving...',
+  'settings.saveProfile': 'Save profile',
+  'settings.profileSaved': 'Profile updated',
+  'settings.errorProfile': 'Update failed: {message}',
+  'settings.preferences': 'Preferences',
+  'settings.currency': 'Currency',
+  'settings.defaultCategory': 'Default expense category',
+  'settings.firstCategory': 'First category',
+  'settings.password': 'Change password',
+  'settings.currentPassword': 'Current password',
+  'settings.newPassword': 'New password (at least 6 characters)',
+  'settings.confirmPassword': 'Repeat the new password',
+  'settings.updating': 'Updating...',
+  'settings.updatePassword': 'Update password',
+  'settings.googlePassword': 'You sign in with Google. Manage your password in your Google account.',
+  'settings.passwordSaved': 'Password updated',
+  'settings.errorPasswordMissing': 'Please enter your current and new passwords',
+  'settings.errorPasswordMismatch': 'The new passwords do not match',
+  'settings.errorPassword': 'Could not update the password: {message}',
+  'settings.deleteTitle': 'Delete account',
+  'settings.deleteHint': 'All records, categories, recurring items, savings goals and settings are deleted for good. Export a backup from the Data page first.',
+  'settings.deleteConfirmText': 'DELETE',
+  'settings.deleteConfirmPrompt': 'Type "{text}" to confirm',
+  'settings.errorDeletePassword': 'Please enter your password',
+  'settings.errorReauth': 'Verification failed: {message}',
+  'settings.deleting': 'Deleting...',
+  'settings.deleteWithPassword': 'Delete account for good',
+  'settings.deleteWithGoogle': 'Verify with Google and delete account',
+  'settings.dataCheck': 'Data check',
+  'settings.dataCheckHint': 'Checks every record and upgrades old formats to the current version. Records with problems such as a missing date or amount are hidden from your lists and shown below.',
+  'settings.migrating': 'Checking...',
+  'settings.migrate': 'Check and upgrade all records',
+  'settings.migrateResult': 'Checked {checked} records and upgraded {upgraded} from an old format',
+  'settings.migrateInvalid': '; {count} have format errors',
+  'settings.migrateAllValid': '; no format errors',
+  'settings.errorMigrate': 'Check failed: {message}',
+
+  'goals.subtitle': 'e.g. save 15,000 for a new laptop by June',
+  'goals.empty': 'No savings goals yet',
+  'goals.statusDone': 'Reached',
+  'goals.statusOverdue': 'Overdue',
+  'goals.statusOnTrack': 'On track',
+  'goals.statusBehind': 'Behind',
+  'goals.deadlineOn': 'Due {date}',
+  'goals.autoFromSurplus': 'Save leftover budget automatically',
+  'goals.autoFromSurplusHint': 'At the end of each period, unspent budget goes into this goal, split evenly across goals.',
+  'goals.requiredMonthly': '{months} months left; save {amount} a month to reach it on time',
+  'goals.overdueShort': 'Past the deadline, {amount} short',
+  'goals.surplus': 'Leftover budget',
+  'goals.deposit': 'Deposit',
+  'goals.withdraw': 'Withdraw',
+  'goals.depositOrWithdraw': 'Deposit / withdraw',
+  'goals.add': 'Add savings goal',
+  'goals.edit': 'Edit savings goal',
+  'goals.namePlaceholder': 'e.g. New laptop, travel fund',
+  'goals.target': 'Target amount',
+  'goals.deadline': 'Deadline',
+  'goals.errorName': 'Please enter a goal name',
+  'goals.errorTarget': 'Please enter a valid target amount',
+  'goals.errorDeadline': 'Please choose a deadline',
+  'goals.errorDeadlinePast': 'The deadline must be after today',
+  'goals.errorWithdraw': 'You cannot withdraw more than has been saved',
+  'goals.deleteConfirm': 'Delete the "{name}" goal? Its deposits are deleted too.',
+
+  'trash.subtitle': 'Deleted records are kept for {days} days and can be restored any time before then',
+  'trash.empty': 'Empty',
+  'trash.isEmpty': 'The trash is empty',
+  'trash.daysLeft': 'Deleted for good in {days} days',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete for good',
+  'trash.purgeConfirm': 'Delete "{description}" for good? This cannot be undone.',
+  'trash.emptyConfirm': 'Delete all {count} records in the trash for good? This cannot be undone.',
+  'trash.errorLoad': 'Could not load the trash: {message}',
+  'trash.errorEmpty': 'Could not empty the trash: {message}',
+
+  'categories.subtitle': 'Add, rename, archive or reorder categories',
+  'categories.expense': 'Expense categories',
+  'categories.income': 'Income categories',
+  'categories.moveUp': 'Move up',
+  'categories.moveDown': 'Move down',
+  'categories.rename': 'Rename',
+  'categories.archived': 'Archived ({count})',
+  'categories.addExpense': 'New expense category',
+  'categories.addIncome': 'New income category',
+  'categories.namePlaceholder': 'e.g. Books, clubs',
+  'categories.icon': 'Icon',
+  'categories.color': 'Color',
+  'categories.add': 'Add category',
+  'categories.errorName': 'Please enter a category name',
+  'categories.errorDuplicate': 'A category with this name already exists',
+  'categories.archive': 'Archive',
+  'categories.unarchive': 'Unarchive',
+
+  'data.subtitle': 'Back up records as CSV, move over from another app, or import e-invoices',
+  'data.exportTitle': 'Export CSV',
+  'data.exportCount': 'Export {count} records',
+  'data.importTitle': 'Import CSV',
+  'data.chooseCsv': 'Choose a CSV file',
+  'data.columnMapping': 'Column mapping',
+  'data.skipColumn': '(Skip)',
+  'data.columnNumber': 'Column {number}',
+  'data.categoryMapping': 'Category mapping',
+  'data.preview': 'Preview: {valid} ready・{duplicates} duplicates・{errors} errors',
+  'data.rowNumber': 'Row {number}',
+  'data.duplicateRow': 'This ID already exists and will be skipped',
+  'data.importing': 'Importing...',
+  'data.importCount': 'Import {count} records',
+  'data.imported': 'Imported {count} records; skipped {duplicates} duplicates and {errors} with errors',
+  'data.invoiceTitle': 'Import e-invoices',
+  'data.invoiceHint': 'Download the carrier details CSV from the Ministry of Finance e-invoice platform and upload it here',
+  'data.chooseInvoiceFile': 'Choose a carrier details file',
+  'data.splitLines': 'Split into one expense per line item',
+  'data.invoiceSummary': '{total} invoices・{pending} to import',
+  'data.invoiceImported': 'Imported',
+  'data.invoiceVoided': 'Voided',
+  'data.invoiceZero': 'Zero amount',
+  'data.importInvoices': 'Import {count} invoices',
+  'data.invoicesImported': 'Imported {invoices} invoices as {count} expenses',
+  'data.errorExportEmpty': 'There are no records in this range',
+  'data.errorNoRows': 'The file has no data rows',
+  'data.errorImport': 'Import failed: {message}',
+  'data.errorNoInvoices': 'No invoices found. Make sure this is the carrier details CSV file.',
+  'data.pickCategory': 'Choose a category',
+
+  'csv.fieldDate': 'Date',
+  'csv.fieldAmount': 'Amount',
+  'csv.fieldCategory': 'Category',
+  'csv.fieldDescription': 'Description',
+  'csv.fieldId': 'ID',
+  'csv.fieldType': 'Type',
+  'csv.fieldTags': 'Tags',
+  'csv.fieldAccount': 'Account',
+  'csv.errorDate': 'Invalid date',
+  'csv.errorAmount': 'The amount must be greater than 0',
+  'csv.errorCategory': 'Category not mapped',
+  'csv.errorType': 'Unrecognised type',
+  'csv.errorId': 'Invalid ID (no /, not . or .., not wrapped in __, at most 1500 bytes)',
+  'csv.errorAccount': 'Payment account not found',
+
+  'currency.TWD': 'New Taiwan dollar (TWD)',
+  'currency.USD': 'US dollar (USD)',
+  'currency.JPY': 'Japanese yen (JPY)',
+  'currency.EUR': 'Euro (EUR)',
+  'currency.HKD': 'Hong Kong dollar (HKD)',
+  'currency.CNY': 'Chinese yuan (CNY)',
+
+  'account.errorWrongPassword': 'The password is incorrect.',
+  'account.errorWeakPassword': 'The new password needs at least 6 characters.',
+  'account.errorRecentLogin': 'For security, please verify your identity and try again.',
+  'account.errorCancelled': 'Verification was cancelled.',
+  'account.errorUserMismatch': 'Please verify with the Google account you are signed in with.',
+
+  'schema.invalidVersion': 'Invalid version number',
+  'schema.newerVersion': 'Document version {version} is newer than this app. Please reload the page.',
+  'schema.missingDate': 'Missing date',
+  'schema.invalidDate': 'Invalid date',
+  'schema.missingAmount': 'Missing amount',
+  'schema.invalidAmount': 'The amount must be a number greater than 0',
+  'schema.missingCategory': 'Missing category',
+  'schema.invalidDescription': 'Invalid description',
+  'schema.invalidType': 'Invalid type',
+  'schema.invalidTags': 'Invalid tags',
+  'schema.invalidAccount': 'Invalid payment account',
+  'schema.invalidDeletedAt': 'Invalid deletion time',
+  'schema.invalidMonthlyBudget': 'Invalid period budget',
+  'schema.invalidCategoryBudget': 'Invalid budget for category "{item}"',
+  'schema.invalidCategoryBudgets': 'Invalid category budgets',
+  'schema.invalidBudgetCycle': 'Invalid budget cycle',
+  'schema.invalidRolloverSince': 'Invalid rollover start time',
+  'schema.invalidPreference': 'Invalid preference "{key}"',
+  'schema.invalidPreferences': 'Invalid preferences',
+
+  'pwa.updateAvailable': 'A new version is available',
+  'pwa.reload': 'Reload',
+  'pwa.later': 'Later',
+
+  'category.food': 'Food',
+  'category.transport': 'Transport',
+  'category.housing': 'Housing',
+  'category.shopping': 'Shopping',
+  'category.entertainment': 'Entertainment',
+  'category.clothing': 'Clothing',
+  'category.health': 'Health',
+  'category.other': 'Other',
+  'category.wage': 'Wages',
+  'category.scholarship': 'Scholarship',
+  'category.allowance': 'Allowance',
+  'category.other_income': 'Other income',
+};
+
+export default en;
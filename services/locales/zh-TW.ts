@@ -0,0 +1,550 @@
+// 繁體中文為預設語言，其他語言缺少的文字會以此補上
+const zhTW = {
+  'app.name': '極簡化記帳系統',
+  'app.loading': '正在同步帳戶狀態...',
+  'app.version': '大學生極簡記帳系統 v2.5',
+  'app.errorSync': '同步失敗：{message}',
+  'app.errorSaveCycle': '週期設定儲存失敗：{message}',
+  'app.errorSaveRollover': '結轉設定儲存失敗：{message}',
+  'app.errorSaveCategory': '分類儲存失敗：{message}',
+  'app.errorReorder': '排序儲存失敗：{message}',
+  'app.errorSaveRecurring': '固定收支儲存失敗：{message}',
+  'app.errorDelete': '刪除失敗：{message}',
+  'app.errorSaveGoal': '儲蓄目標儲存失敗：{message}',
+  'app.errorContribute': '存入失敗：{message}',
+  'app.errorSaveAccount': '付款帳戶儲存失敗：{message}',
+  'app.errorSaveTransfer': '轉帳儲存失敗：{message}',
+  'app.errorSavePreferences': '偏好設定儲存失敗：{message}',
+  'app.errorDeleteAccount': '刪除帳號失敗：{message}',
+  'app.expenseNotFound': '找不到這筆紀錄',
+  'app.indexRequired': '需要建立資料庫索引',
+  'app.openIndexSettings': '前往設定',
+  'app.errorDeleteAccountDataRemoved': '刪除帳號失敗：{message}。你的記帳資料已經全部清除，帳號本身仍可登入使用。',
+
+  'common.income': '收入',
+  'common.expense': '支出',
+  'common.edit': '編輯',
+  'common.delete': '刪除',
+  'common.remove': '移除',
+  'common.save': '儲存',
+  'common.manage': '管理',
+  'common.invalidAmount': '請輸入有效的金額',
+  'common.listSeparator': '、',
+  'common.cancel': '取消',
+  'common.undo': '復原',
+  'common.deleted': '已刪除「{description}」',
+  'common.notSignedIn': '尚未登入',
+  'common.unknownError': '發生未知錯誤',
+  'common.notFound': '找不到文件 {path}',
+
+  'title.addExpense': '新增紀錄',
+  'title.editExpense': '編輯紀錄',
+  'title.report': '收支分析',
+  'title.categories': '分類管理',
+  'title.data': '匯入匯出',
+  'title.recurring': '固定收支',
+  'title.goals': '儲蓄目標',
+  'title.trash': '垃圾桶',
+  'title.settings': '帳戶設定',
+  'title.accounts': '付款帳戶',
+
+  'nav.dashboard': '紀錄',
+  'nav.report': '報表',
+  'nav.goals': '目標',
+  'nav.categories': '分類',
+  'nav.data': '資料',
+  'nav.logout': '登出',
+
+  'auth.email': '電子郵件',
+  'auth.password': '密碼',
+
+  'login.tagline': '讓每筆消費都簡單透明',
+  'login.syncing': '同步登入狀態...',
+  'login.debugTitle': '[診斷工具]',
+  'login.debugHost': '● 當前主機: {host}',
+  'login.debugUser': '● 目前使用者: {user}',
+  'login.debugError': '● 最後錯誤: {error}',
+  'login.debugNoUser': '未偵測到',
+  'login.debugNoError': '無',
+  'login.forgotPassword': '忘記密碼？',
+  'login.copy': '複製',
+  'login.copied': '已複製',
+  'login.openNewTab': '新分頁開啟',
+  'login.openConsole': '前往後台',
+  'login.submit': '登入',
+  'login.google': '使用 Google 帳號登入',
+  'login.noAccount': '還沒有帳號？',
+  'login.register': '立即註冊',
+  'login.resetSent': '重設密碼信件已寄出。',
+  'login.errorRedirectDomain': '登入失敗：此網域未經 Firebase 授權。',
+  'login.errorMissing': '請輸入電子郵件和密碼',
+  'login.errorInvalidCredential': '帳號或密碼不正確。',
+  'login.errorGeneric': '登入錯誤：{code}',
+  'login.errorUnauthorizedDomain': '此網域未經 Firebase 授權。',
+  'login.errorPopupBlocked': '彈窗被瀏覽器封鎖了，請允許此網站開啟彈窗。',
+  'login.errorGoogle': '無法啟動 Google 登入：{message}',
+  'login.errorResetEmail': '請先輸入您的電子郵件地址。',
+  'login.errorReset': '重設密碼失敗：{message}',
+
+  'register.title': '註冊新帳號',
+  'register.subtitle': '加入專為大學生設計的理財系統，',
+  'register.subtitle2': '掌握你的每一筆開銷。',
+  'register.passwordPlaceholder': '至少 6 個字元',
+  'register.confirmPassword': '確認密碼',
+  'register.confirmPlaceholder': '再次輸入密碼',
+  'register.submit': '建立帳號',
+  'register.submitting': '註冊中...',
+  'register.hasAccount': '已有帳號？',
+  'register.login': '立即登入',
+  'register.errorMissing': '請填寫所有欄位',
+  'register.errorMismatch': '密碼不一致',
+  'register.errorTooShort': '密碼長度至少需 6 個字元',
+  'register.errorEmailInUse': '此電子郵件已被註冊',
+  'register.errorInvalidEmail': '無效的電子郵件格式',
+  'register.errorGeneric': '註冊失敗：{code}',
+
+  'welcome.verified': '驗證成功',
+  'welcome.title': '歡迎回來！',
+  'welcome.account': '登入帳號',
+  'welcome.enter': '確認並進入系統',
+
+  'sync.online': '已同步',
+  'sync.syncing': '同步中',
+  'sync.offline': '離線',
+  'sync.pendingCount': '{count} 筆待上傳',
+  'sync.pending': '未同步',
+  'sync.pendingHint': '尚未同步',
+
+  'dashboard.greeting': '你好，{name}！',
+  'dashboard.prompt': '今天想記錄點什麼呢？',
+  'dashboard.title': '消費紀錄',
+  'dashboard.loaded': '已載入 {count} 筆收支紀錄',
+  'dashboard.invalidRecords': '{count} 筆資料格式錯誤，未顯示在紀錄中，點此查看',
+  'dashboard.overBudget': '本{unit}有分類已超出預算',
+  'dashboard.overBudgetItem': '{label}：{spent} / {limit}（超支 {over}）',
+  'dashboard.search': '搜尋說明...',
+  'dashboard.filter': '篩選',
+  'dashboard.allCategories': '全部分類',
+  'dashboard.allTags': '全部標籤',
+  'dashboard.allAccounts': '全部帳戶',
+  'dashboard.incomePrefix': '收入・',
+  'dashboard.archived': '（已封存）',
+  'dashboard.minAmount': '最低金額',
+  'dashboard.maxAmount': '最高金額',
+  'dashboard.clearFilters': '清除所有條件',
+  'dashboard.matches': '符合 {count} 筆',
+  'dashboard.spentTotal': '支出 {amount}',
+  'dashboard.incomeTotal': '收入 {amount}',
+  'dashboard.empty': '尚無消費紀錄',
+  'dashboard.addFirst': '立即新增第一筆',
+  'dashboard.noMatch': '找不到符合條件的紀錄',
+  'dashboard.loadedOnly': '目前只搜尋已載入的紀錄',
+  'dashboard.loadMore': '載入更早的紀錄',
+  'dashboard.allShown': '已顯示所有紀錄',
+  'dashboard.today': '今天・{date}',
+  'dashboard.yesterday': '昨天・{date}',
+
+  'form.today': '今天',
+  'form.yesterday': '昨天',
+  'form.dayBeforeYesterday': '前天',
+  'form.amount': '金額 ({currency})',
+  'form.id': '編號: {id}',
+  'form.expenseItem': '支出項目',
+  'form.incomeItem': '收入項目',
+  'form.pickItem': '選擇項目',
+  'form.description': '說明 (備註)',
+  'form.expensePlaceholder': '這筆錢花在哪裡？',
+  'form.incomePlaceholder': '這筆錢從哪裡來？',
+  'form.paidWith': '付款方式',
+  'form.receivedInto': '存入帳戶',
+  'form.pickAccount': '選擇帳戶',
+  'form.noAccounts': '尚未設定付款帳戶',
+  'form.addAccount': '新增付款帳戶',
+  'form.accountRequired': '請選擇付款帳戶',
+  'form.tags': '標籤',
+  'form.tagPlaceholder': '輸入標籤後按 Enter，例如 畢業旅行',
+  'form.save': '確認儲存',
+  'form.invalid': '請填寫完整正確的資訊',
+  'form.overBudgetConfirm': '「{label}」本{unit}預算 {limit}，儲存後將達 {projected}，超支 {over}。仍要儲存嗎？',
+
+  'period.unitMonth': '月',
+  'period.unitPeriod': '期',
+  'period.lastYear': '{label} (去年)',
+  'period.cycleCalendar': '日曆月',
+  'period.cycleStartDay': '每月 {day} 日起算',
+  'period.cycleCustom': '自訂區間 ({count} 個)',
+
+  'cycle.title': '預算週期',
+  'cycle.calendarHint': '每月 1 日到月底',
+  'cycle.startDay': '固定日期',
+  'cycle.startDayHint': '例如零用錢 5 號入帳，從 5 號算到下個月 4 號',
+  'cycle.custom': '自訂區間',
+  'cycle.customHint': '例如以學期為單位編列預算',
+  'cycle.startDayPrefix': '每月',
+  'cycle.startDaySuffix': '日起算',
+  'cycle.rangeBudget': '・預算 {amount}',
+  'cycle.rangeName': '名稱，例如 115-1 學期',
+  'cycle.rangeBudgetPlaceholder': '區間預算 (選填)',
+  'cycle.addRange': '新增區間',
+  'cycle.uncoveredHint': '未涵蓋在區間內的日期以日曆月計算。',
+  'cycle.errorRangeMissing': '請輸入名稱與起訖日期',
+  'cycle.errorRangeOrder': '結束日期需晚於開始日期',
+  'cycle.errorRangeOverlap': '區間不可與其他區間重疊',
+  'cycle.errorNoRanges': '請至少新增一個區間',
+
+  'recurring.monthly': '每月 {day} 日',
+  'recurring.weekly': '每{weekday}',
+  'recurring.subtitle': '房租、電信費、訂閱等每期自動記帳',
+  'recurring.empty': '尚未設定固定收支',
+  'recurring.ended': '已結束',
+  'recurring.paused': '暫停中',
+  'recurring.next': '下次 {date}',
+  'recurring.resume': '恢復',
+  'recurring.pause': '暫停',
+  'recurring.end': '結束',
+  'recurring.deleteRule': '刪除規則',
+  'recurring.add': '新增固定收支',
+  'recurring.edit': '編輯固定收支',
+  'recurring.descriptionPlaceholder': '例如：房租、手機月租、Netflix',
+  'recurring.noAccount': '不指定付款帳戶',
+  'recurring.frequencyMonthly': '每月',
+  'recurring.frequencyWeekly': '每週',
+  'recurring.startDate': '開始日期',
+  'recurring.endDate': '結束日期 (選填)',
+  'recurring.backfillHint': '開始日期在過去時，會補上從開始日期到今天的紀錄。',
+  'recurring.errorCategory': '請選擇分類',
+  'recurring.errorDescription': '請輸入說明',
+  'recurring.errorEndDate': '結束日期需晚於開始日期',
+  'recurring.endConfirm': '結束「{description}」？之後不會再產生紀錄，已產生的紀錄會保留。',
+  'recurring.deleteConfirm': '刪除「{description}」規則？已產生的紀錄會保留。',
+
+  'report.monthly': '月報',
+  'report.periodic': '期間報表',
+  'report.yearly': '年度總覽',
+  'report.backToCurrent': '回到本{unit}',
+  'report.year': '{year} 年',
+  'report.yearIncome': '全年收入',
+  'report.yearSpent': '全年支出',
+  'report.net': '淨收支',
+  'report.totalSpent': '{period} 支出總計',
+  'report.lastUpdated': '最後更新: {time}',
+  'report.spentRatio': '支出占比',
+  'report.budget': '本{unit}預算',
+  'report.carryIn': '上期結轉 {amount}',
+  'report.remaining': '剩餘可用',
+  'report.overBy': '超支 {amount}',
+  'report.rollover': '預算結轉',
+  'report.rolloverHint': '上期的結餘或超支自動加減到下期可用金額',
+  'report.rolloverOn': '啟用結轉',
+  'report.rolloverOff': '關閉結轉',
+  'report.savedThisYear': '今年已存下',
+  'report.carryTotal': '目前累計結轉',
+  'report.colPeriod': '期間',
+  'report.colBudget': '預算',
+  'report.colSpent': '支出',
+  'report.colCarry': '結轉',
+  'report.inProgress': '{label} (進行中)',
+  'report.setAside': '已存入儲蓄目標 {amount}',
+  'report.pace': '花費進度',
+  'report.paceHint': '累計支出與平均分配預算的比較',
+  'report.upcoming': '即將到來的固定支出',
+  'report.upcomingCount': '本{unit}還有 {count} 筆，共 {amount}',
+  'report.upcomingNone': '本{unit}已無待扣的固定支出',
+  'report.upcomingOver': '扣除固定支出後將超出本{unit}預算 {amount}',
+  'report.breakdown': '支出分類詳情',
+  'report.breakdownHint': '詳細列出各項目的消費金額與佔比',
+  'report.drillTitle': '{label} · {count} 筆',
+  'report.share': '佔比 {percent}%',
+  'report.limit': '預算 {amount}',
+  'report.limitOver': '・超支 {amount}',
+  'report.setLimit': '設定預算',
+  'report.limitPlaceholder': '預算',
+  'report.addLimit': '新增分類預算...',
+  'report.amountPlaceholder': '金額',
+  'report.empty': '此期間尚無消費紀錄',
+  'report.emptyHint': '請開始在首頁記錄您的第一筆開銷',
+  'report.previousMonth': '上個月',
+  'report.previousPeriod': '上一期',
+  'report.sameLastYear': '去年同{unit}',
+  'report.trendMonths': '近六個月趨勢',
+  'report.trendPeriods': '近六期趨勢',
+  'report.trendHint': '點選長條可切換到該期間',
+  'report.advice': '智慧理財建議',
+  'report.adviceOverBudget': '警告！您的支出已超過預算，建議減少非必要支出，以維持財務健康。',
+  'report.adviceOverLimit': '{labels} 已超過分類預算，請留意這些項目的花費。',
+  'report.adviceGood': '您目前掌握良好，{label} 是本{unit}最大支出。繼續保持記帳，讓每一塊錢都發揮價值！',
+  'report.adviceStart': '養成良好的記帳習慣，是通往財富自由的第一步。今天就開始記錄您的每一筆消費吧！',
+  'report.goalOverdue': ' 儲蓄目標「{name}」已過期限，尚差 {amount}，可以考慮延後期限或調整金額。',
+  'report.goalBehind': ' 儲蓄目標「{name}」進度落後，每月需存 {amount} 才能在 {deadline} 前達成。',
+  'report.goalOnTrack': ' {count} 個儲蓄目標進度正常，「{name}」已完成 {percent}%。',
+  'report.viewGoals': '查看儲蓄目標',
+  'report.setGoals': '設定儲蓄目標',
+
+  'accounts.title': '付款帳戶',
+  'accounts.subtitle': '現金、金融卡與悠遊卡的餘額一次掌握',
+  'accounts.total': '總餘額',
+  'accounts.empty': '尚未新增付款帳戶',
+  'accounts.unknown': '未指定帳戶',
+  'accounts.kindCash': '現金',
+  'accounts.kindBank': '金融卡',
+  'accounts.kindStoredValue': '儲值卡',
+  'accounts.kindOther': '其他',
+  'accounts.opening': '期初 {amount}（{date}）',
+  'accounts.flows': '收入 {income}・支出 {spent}・轉帳 {transfer}',
+  'accounts.archived': '已封存',
+  'accounts.archive': '封存',
+  'accounts.unarchive': '取消封存',
+  'accounts.topUp': '儲值',
+  'accounts.transfer': '轉帳',
+  'accounts.reconcile': '對帳',
+  'accounts.reconcileActual': '實際餘額',
+  'accounts.reconcileApply': '校正',
+  'accounts.reconcileMatch': '帳面餘額與實際相符',
+  'accounts.reconcileDiff': '與帳面餘額差 {diff}',
+  'accounts.reconcileConfirm': '將期初餘額調整 {diff}，讓帳面餘額等於 {actual}？',
+  'accounts.add': '新增付款帳戶',
+  'accounts.edit': '編輯付款帳戶',
+  'accounts.namePlaceholder': '例如：錢包、郵局卡、悠遊卡',
+  'accounts.openingBalance': '期初餘額',
+  'accounts.openingDate': '期初日期',
+  'accounts.openingHint': '期初日期之前的紀錄不計入餘額。',
+  'accounts.transferTitle': '轉帳 / 儲值',
+  'accounts.from': '轉出',
+  'accounts.to': '轉入',
+  'accounts.notePlaceholder': '備註 (選填)',
+  'accounts.transfers': '轉帳紀錄',
+  'accounts.deleteTransferConfirm': '刪除「{from} → {to}」{amount} 的轉帳？',
+  'accounts.errorName': '請輸入帳戶名稱',
+  'accounts.errorOpeningBalance': '請輸入有效的期初餘額',
+  'accounts.errorOpeningDate': '請選擇期初日期',
+  'accounts.errorPickAccounts': '請選擇轉出與轉入帳戶',
+  'accounts.errorSameAccount': '轉出與轉入帳戶不可相同',
+
+  'bulk.select': '選取',
+  'bulk.done': '完成',
+  'bulk.selectedCount': '已選取 {count} 筆',
+  'bulk.selectAll': '全選 {count} 筆',
+  'bulk.clear': '清除',
+  'bulk.apply': '套用',
+  'bulk.recategorise': '分類',
+  'bulk.changeDate': '日期',
+  'bulk.export': '匯出',
+  'bulk.deleteConfirm': '將選取的 {count} 筆紀錄移到垃圾桶？',
+  'bulk.updated': '已更新 {count} 筆紀錄',
+  'bulk.skippedKind': '，{count} 筆收支類型與分類不同，已略過',
+  'bulk.deleted': '已刪除 {count} 筆紀錄',
+  'bulk.failed': '批次操作失敗：{message}',
+
+  'tags.title': '標籤支出',
+  'tags.hint': '一筆紀錄有多個標籤時，會分別計入每個標籤',
+  'tags.count': '{count} 筆',
+  'tags.empty': '此區間沒有加上標籤的支出',
+  'tags.invalidRange': '結束日期需晚於開始日期',
+
+  'comparison.title': '支出比較',
+  'comparison.totalChange': '總支出變化',
+  'comparison.unchanged': '持平',
+  'comparison.empty': '兩個期間都沒有支出紀錄',
+
+  'chart.totalSpent': '總支出',
+  'chart.day': '{day} 日',
+  'chart.cumulative': '累計支出',
+  'chart.pace': '預算進度',
+
+  'settings.language': '語言',
+  'settings.profile': '個人資料',
+  'settings.displayName': '顯示名稱',
+  'settings.photoURL': '大頭貼網址',
+  'settings.saving': '儲存中...',
+  'settings.saveProfile': '儲存個人資料',
+  'settings.profileSaved': '個人資料已更新',
+  'settings.errorProfile': '更新失敗：{message}',
+  'settings.preferences': '偏好設定',
+  'settings.currency': '幣別',
+  'settings.defaultCategory': '預設支出分類',
+  'settings.firstCategory': '第一個分類',
+  'settings.password': '修改密碼',
+  'settings.currentPassword': '目前密碼',
+  'settings.newPassword': '新密碼 (至少 6 個字元)',
+  'settings.confirmPassword': '再次輸入新密碼',
+  'settings.updating': '更新中...',
+  'settings.updatePassword': '更新密碼',
+  'settings.googlePassword': '您使用 Google 帳號登入，請至 Google 帳戶管理密碼。',
+  'settings.passwordSaved': '密碼已更新',
+  'settings.errorPasswordMissing': '請輸入目前密碼與新密碼',
+  'settings.errorPasswordMismatch': '兩次輸入的新密碼不一致',
+  'settings.errorPassword': '密碼更新失敗：{message}',
+  'settings.deleteTitle': '刪除帳號',
+  'settings.deleteHint': '所有收支紀錄、分類、固定收支、儲蓄目標與設定都會永久刪除，無法復原。建議先到「資料」頁匯出備份。',
+  'settings.deleteConfirmText': '刪除帳號',
+  'settings.deleteConfirmPrompt': '請輸入「{text}」以確認',
+  'settings.errorDeletePassword': '請輸入密碼',
+  'settings.errorReauth': '身分驗證失敗：{message}',
+  'settings.deleting': '刪除中...',
+  'settings.deleteWithPassword': '永久刪除帳號',
+  'settings.deleteWithGoogle': '以 Google 驗證並刪除帳號',
+  'settings.dataCheck': '資料檢查',
+  'settings.dataCheckHint': '檢查所有收支紀錄並將舊版格式升級為目前版本。缺少日期或金額等格式錯誤的紀錄不會顯示在列表中，會列在下方。',
+  'settings.migrating': '檢查中...',
+  'settings.migrate': '檢查並升級全部紀錄',
+  'settings.migrateResult': '已檢查 {checked} 筆紀錄，升級 {upgraded} 筆舊版格式',
+  'settings.migrateInvalid': '，{count} 筆格式錯誤',
+  'settings.migrateAllValid': '，沒有格式錯誤',
+  'settings.errorMigrate': '檢查失敗：{message}',
+
+  'goals.subtitle': '例如 6 月前存到 15,000 買新筆電',
+  'goals.empty': '尚未設定儲蓄目標',
+  'goals.statusDone': '已達成',
+  'goals.statusOverdue': '已逾期',
+  'goals.statusOnTrack': '進度正常',
+  'goals.statusBehind': '進度落後',
+  'goals.deadlineOn': '期限 {date}',
+  'goals.autoFromSurplus': '自動存入預算結餘',
+  'goals.autoFromSurplusHint': '每期結束時，將沒花完的預算存入此目標；多個目標時平均分配。',
+  'goals.requiredMonthly': '還剩 {months} 個月，每月需存 {amount} 才能如期達成',
+  'goals.overdueShort': '已過期限，尚差 {amount}',
+  'goals.surplus': '預算結餘',
+  'goals.deposit': '存入',
+  'goals.withdraw': '取出',
+  'goals.depositOrWithdraw': '存入 / 取出',
+  'goals.add': '新增儲蓄目標',
+  'goals.edit': '編輯儲蓄目標',
+  'goals.namePlaceholder': '例如：新筆電、旅遊基金',
+  'goals.target': '目標金額',
+  'goals.deadline': '期限',
+  'goals.errorName': '請輸入目標名稱',
+  'goals.errorTarget': '請輸入有效的目標金額',
+  'goals.errorDeadline': '請選擇期限',
+  'goals.errorDeadlinePast': '期限需晚於今天',
+  'goals.errorWithdraw': '取出金額不可超過已存金額',
+  'goals.deleteConfirm': '刪除「{name}」目標？存入紀錄會一併刪除。',
+
+  'trash.subtitle': '刪除的紀錄保留 {days} 天，期間可隨時還原',
+  'trash.empty': '清空',
+  'trash.isEmpty': '垃圾桶是空的',
+  'trash.daysLeft': '{days} 天後永久刪除',
+  'trash.restore': '還原',
+  'trash.purge': '永久刪除',
+  'trash.purgeConfirm': '永久刪除「{description}」？此操作無法復原。',
+  'trash.emptyConfirm': '永久刪除垃圾桶中的 {count} 筆紀錄？此操作無法復原。',
+  'trash.errorLoad': '垃圾桶載入失敗：{message}',
+  'trash.errorEmpty': '清空失敗：{message}',
+
+  'categories.subtitle': '新增、重新命名、封存或調整分類順序',
+  'categories.expense': '支出分類',
+  'categories.income': '收入分類',
+  'categories.moveUp': '上移',
+  'categories.moveDown': '下移',
+  'categories.rename': '重新命名',
+  'categories.archived': '已封存 ({count})',
+  'categories.addExpense': '新增支出分類',
+  'categories.addIncome': '新增收入分類',
+  'categories.namePlaceholder': '例如：書籍/教材、社團',
+  'categories.icon': '圖示',
+  'categories.color': '顏色',
+  'categories.add': '新增分類',
+  'categories.errorName': '請輸入分類名稱',
+  'categories.errorDuplicate': '已有相同名稱的分類',
+  'categories.archive': '封存',
+  'categories.unarchive': '取消封存',
+
+  'data.subtitle': '以 CSV 備份紀錄、從其他記帳工具搬家，或匯入電子發票',
+  'data.exportTitle': '匯出 CSV',
+  'data.exportCount': '匯出 {count} 筆紀錄',
+  'data.importTitle': '匯入 CSV',
+  'data.chooseCsv': '選擇 CSV 檔案',
+  'data.columnMapping': '欄位對應',
+  'data.skipColumn': '（不匯入）',
+  'data.columnNumber': '第 {number} 欄',
+  'data.categoryMapping': '分類對應',
+  'data.preview': '預覽：可匯入 {valid}・重複 {duplicates}・錯誤 {errors}',
+  'data.rowNumber': '第 {number} 列',
+  'data.duplicateRow': '編號已存在，將略過',
+  'data.importing': '匯入中...',
+  'data.importCount': '匯入 {count} 筆紀錄',
+  'data.imported': '已匯入 {count} 筆，略過重複 {duplicates} 筆、錯誤 {errors} 筆',
+  'data.invoiceTitle': '匯入電子發票',
+  'data.invoiceHint': '從財政部電子發票平台下載「載具歸戶明細」CSV 後上傳',
+  'data.chooseInvoiceFile': '選擇載具明細檔案',
+  'data.splitLines': '依品項拆成多筆支出',
+  'data.invoiceSummary': '共 {total} 張・待匯入 {pending} 張',
+  'data.invoiceImported': '已匯入',
+  'data.invoiceVoided': '已作廢',
+  'data.invoiceZero': '金額為 0',
+  'data.importInvoices': '匯入 {count} 張發票',
+  'data.invoicesImported': '已匯入 {invoices} 張發票，共 {count} 筆支出',
+  'data.errorExportEmpty': '此區間沒有紀錄',
+  'data.errorNoRows': '檔案中沒有資料列',
+  'data.errorImport': '匯入失敗：{message}',
+  'data.errorNoInvoices': '找不到發票資料，請確認是載具歸戶明細的 CSV 檔',
+  'data.pickCategory': '請選擇分類',
+
+  'csv.fieldDate': '日期',
+  'csv.fieldAmount': '金額',
+  'csv.fieldCategory': '分類',
+  'csv.fieldDescription': '說明',
+  'csv.fieldId': '編號',
+  'csv.fieldType': '收支類型',
+  'csv.fieldTags': '標籤',
+  'csv.fieldAccount': '付款帳戶',
+  'csv.errorDate': '日期格式錯誤',
+  'csv.errorAmount': '金額必須大於 0',
+  'csv.errorCategory': '分類未對應',
+  'csv.errorType': '收支類型無法辨識',
+  'csv.errorId': '編號格式錯誤 (不可包含 /、不可為 . 或 ..、不可以 __ 開頭並結尾、最長 1500 位元組)',
+  'csv.errorAccount': '找不到付款帳戶',
+
+  'currency.TWD': '新台幣 (TWD)',
+  'currency.USD': '美元 (USD)',
+  'currency.JPY': '日圓 (JPY)',
+  'currency.EUR': '歐元 (EUR)',
+  'currency.HKD': '港幣 (HKD)',
+  'currency.CNY': '人民幣 (CNY)',
+
+  'account.errorWrongPassword': '密碼不正確。',
+  'account.errorWeakPassword': '新密碼至少需要 6 個字元。',
+  'account.errorRecentLogin': '為了安全，請重新驗證身分後再試一次。',
+  'account.errorCancelled': '已取消驗證。',
+  'account.errorUserMismatch': '請使用目前登入的 Google 帳號驗證。',
+
+  'schema.invalidVersion': '版本號碼格式錯誤',
+  'schema.newerVersion': '文件版本 {version} 比目前程式新，請重新整理頁面',
+  'schema.missingDate': '缺少日期',
+  'schema.invalidDate': '日期格式錯誤',
+  'schema.missingAmount': '缺少金額',
+  'schema.invalidAmount': '金額必須是大於 0 的數字',
+  'schema.missingCategory': '缺少分類',
+  'schema.invalidDescription': '說明格式錯誤',
+  'schema.invalidType': '收支類型錯誤',
+  'schema.invalidTags': '標籤格式錯誤',
+  'schema.invalidAccount': '付款帳戶格式錯誤',
+  'schema.invalidDeletedAt': '刪除時間格式錯誤',
+  'schema.invalidMonthlyBudget': '每期預算格式錯誤',
+  'schema.invalidCategoryBudget': '分類預算「{item}」格式錯誤',
+  'schema.invalidCategoryBudgets': '分類預算格式錯誤',
+  'schema.invalidBudgetCycle': '預算週期格式錯誤',
+  'schema.invalidRolloverSince': '結轉起始時間格式錯誤',
+  'schema.invalidPreference': '偏好設定「{key}」格式錯誤',
+  'schema.invalidPreferences': '偏好設定格式錯誤',
+
+  'pwa.updateAvailable': '有新版本可以使用',
+  'pwa.reload': '重新載入',
+  'pwa.later': '稍後再說',
+
+  'category.food': '餐飲',
+  'category.transport': '交通',
+  'category.housing': '居住',
+  'category.shopping': '購物',
+  'category.entertainment': '娛樂',
+  'category.clothing': '服飾',
+  'category.health': '健康',
+  'category.other': '其他',
+  'category.wage': '打工薪資',
+  'category.scholarship': '獎學金',
+  'category.allowance': '生活費',
+  'category.other_income': '其他收入',
+};
+
+export type MessageKey = keyof typeof zhTW;
+
+export default zhTW;
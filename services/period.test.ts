@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetCycle } from '../types';
+import { cyclePeriodOf, parsePeriodKey, periodFromKey, shiftCyclePeriod, startDayPeriod, yearAgoPeriod } from './period';
+
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d).getTime();
+const span = (period: { start: number; end: number } | null) => period && [period.start, period.end];
+
+describe('startDayPeriod', () => {
+  it('uses the month end when the start day does not exist', () => {
+    expect(span(startDayPeriod(2026, 0, 31))).toEqual([day(2026, 1, 31), day(2026, 2, 28)]);
+    expect(span(startDayPeriod(2026, 1, 31))).toEqual([day(2026, 2, 28), day(2026, 3, 31)]);
+    expect(span(startDayPeriod(2028, 1, 30))).toEqual([day(2028, 2, 29), day(2028, 3, 30)]);
+    expect(span(startDayPeriod(2026, 3, 29))).toEqual([day(2026, 4, 29), day(2026, 5, 29)]);
+  });
+
+  it('keys the period by its starting month across the year end', () => {
+    const period = startDayPeriod(2026, 11, 31);
+    expect(period.key).toBe('2026-12');
+    expect(span(period)).toEqual([day(2026, 12, 31), day(2027, 1, 31)]);
+  });
+});
+
+describe('cyclePeriodOf', () => {
+  const cycle: BudgetCycle = { kind: 'startDay', day: 31 };
+
+  it('finds the start-day period that contains the date', () => {
+    expect(cyclePeriodOf(cycle, day(2026, 2, 15)).key).toBe('2026-01');
+    expect(cyclePeriodOf(cycle, day(2026, 2, 28)).key).toBe('2026-02');
+    expect(cyclePeriodOf(cycle, day(2026, 3, 30)).key).toBe('2026-02');
+  });
+
+  it('falls back to the calendar month outside custom ranges', () => {
+    const custom: BudgetCycle = { kind: 'custom', ranges: [{ id: 's1', label: '上學期', start: day(2026, 9, 1), end: day(2027, 2, 1) }] };
+    expect(cyclePeriodOf(custom, day(2026, 10, 10)).key).toBe('custom-s1');
+    expect(cyclePeriodOf(custom, day(2026, 8, 10)).key).toBe('2026-08');
+  });
+});
+
+describe('shiftCyclePeriod', () => {
+  it('leaves no gaps between consecutive start-day periods', () => {
+    const cycle: BudgetCycle = { kind: 'startDay', day: 30 };
+    let period = startDayPeriod(2026, 0, 30);
+    for (let i = 0; i < 13; i++) {
+      const next = shiftCyclePeriod(cycle, period, 1)!;
+      expect(next.start).toBe(period.end);
+      period = next;
+    }
+  });
+
+  it('moves between custom ranges and stops at the last one', () => {
+    const custom: BudgetCycle = {
+      kind: 'custom',
+      ranges: [
+        { id: 's2', label: '下學期', start: day(2027, 2, 1), end: day(2027, 7, 1) },
+        { id: 's1', label: '上學期', start: day(2026, 9, 1), end: day(2027, 2, 1) },
+      ],
+    };
+    const first = cyclePeriodOf(custom, day(2026, 9, 1));
+    expect(shiftCyclePeriod(custom, first, 1)?.key).toBe('custom-s2');
+    expect(shiftCyclePeriod(custom, first, 2)).toBeNull();
+    expect(shiftCyclePeriod(custom, cyclePeriodOf(custom, day(2026, 8, 1)), 1)?.key).toBe('custom-s1');
+  });
+});
+
+describe('period keys', () => {
+  it('parses month keys and rebuilds start-day periods from them', () => {
+    expect(parsePeriodKey('2026-13')).toBeNull();
+    expect(span(periodFromKey({ kind: 'startDay', day: 31 }, '2026-02'))).toEqual([day(2026, 2, 28), day(2026, 3, 31)]);
+    expect(yearAgoPeriod({ kind: 'calendar' }, parsePeriodKey('2026-02')!).key).toBe('2025-02');
+  });
+});
@@ -0,0 +1,166 @@
+import { BudgetCycle, CustomCycleRange } from '../types';
+import { formatDate, t } from './i18n';
+
+// 報表統計區間，時間範圍為 [start, end)
+export interface Period {
+  key: string; // 例如 2026-09
+  label: string;
+  shortLabel: string; // 圖表等空間有限處使用，例如 9月
+  start: number;
+  end: number;
+  budget?: number; // 自訂區間的專屬預算
+}
+
+export const DEFAULT_BUDGET_CYCLE: BudgetCycle = { kind: 'calendar' };
+
+const monthKey = (y: number, m: number) => `${y}-${String(m + 1).padStart(2, '0')}`;
+
+export const monthPeriod = (year: number, month: number): Period => {
+  const startDate = new Date(year, month, 1);
+  const y = startDate.getFullYear();
+  const m = startDate.getMonth();
+  return {
+    key: monthKey(y, m),
+    label: formatDate(startDate, { year: 'numeric', month: 'long' }),
+    shortLabel: formatDate(startDate, { month: 'short' }),
+    start: startDate.getTime(),
+    end: new Date(y, m + 1, 1).getTime(),
+  };
+};
+
+// 取得某日期所在的月份區間
+export const periodOf = (date: Date | number = new Date()): Period => {
+  const d = new Date(date);
+  return monthPeriod(d.getFullYear(), d.getMonth());
+};
+
+// 往前 (負數) 或往後移動數個區間
+export const shiftPeriod = (period: Period, offset: number): Period => {
+  const d = new Date(period.start);
+  return monthPeriod(d.getFullYear(), d.getMonth() + offset);
+};
+
+// 解析 2026-09 形式的月份代碼，格式錯誤時回傳 null
+export const parsePeriodKey = (key: string): Period | null => {
+  const match = /^(\d{4})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const month = Number(match[2]) - 1;
+  if (month < 0 || month > 11) return null;
+  return monthPeriod(Number(match[1]), month);
+};
+
+// 某月的第 day 天，超過該月天數時以月底計
+const dayOfMonth = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+// 從 year 年 month 月的第 day 天起算、到下個月同一天前的區間，key 沿用起始月份
+export const startDayPeriod = (year: number, month: number, day: number): Period => {
+  const startDate = dayOfMonth(year, month, day);
+  const y = startDate.getFullYear();
+  const m = new Date(year, month, 1).getMonth();
+  const endDate = dayOfMonth(y, m + 1, day);
+  const lastDay = new Date(endDate.getTime() - 1);
+  return {
+    key: monthKey(y, m),
+    label: `${formatDate(startDate, { year: 'numeric', month: 'numeric', day: 'numeric' })} – ${formatDate(lastDay, { month: 'numeric', day: 'numeric' })}`,
+    shortLabel: formatDate(startDate, { month: 'numeric', day: 'numeric' }),
+    start: startDate.getTime(),
+    end: endDate.getTime(),
+  };
+};
+
+export const customPeriod = (range: CustomCycleRange): Period => ({
+  key: `custom-${range.id}`,
+  label: range.label,
+  shortLabel: range.label,
+  start: range.start,
+  end: range.end,
+  budget: range.budget,
+});
+
+const sortedRanges = (cycle: Extract<BudgetCycle, { kind: 'custom' }>) =>
+  [...cycle.ranges].sort((a, b) => a.start - b.start);
+
+// 週期的單位，用於「本月 / 本期」等文字
+export const cycleUnit = (cycle: BudgetCycle) => t(cycle.kind === 'calendar' ? 'period.unitMonth' : 'period.unitPeriod');
+
+// 取得某日期所在的預算週期；自訂區間沒有涵蓋的日期以日曆月計
+export const cyclePeriodOf = (cycle: BudgetCycle, date: Date | number = new Date()): Period => {
+  const ts = new Date(date).getTime();
+  const d = new Date(ts);
+  switch (cycle.kind) {
+    case 'startDay': {
+      const period = startDayPeriod(d.getFullYear(), d.getMonth(), cycle.day);
+      return ts < period.start ? startDayPeriod(d.getFullYear(), d.getMonth() - 1, cycle.day) : period;
+    }
+    case 'custom': {
+      const range = cycle.ranges.find(r => r.start <= ts && ts < r.end);
+      return range ? customPeriod(range) : periodOf(d);
+    }
+    default:
+      return periodOf(d);
+  }
+};
+
+// 往前或往後移動數個週期，自訂區間沒有更多區間時回傳 null
+export const shiftCyclePeriod = (cycle: BudgetCycle, period: Period, offset: number): Period | null => {
+  const d = new Date(period.start);
+  switch (cycle.kind) {
+    case 'startDay':
+      return startDayPeriod(d.getFullYear(), d.getMonth() + offset, cycle.day);
+    case 'custom': {
+      const ranges = sortedRanges(cycle);
+      const idx = ranges.findIndex(r => customPeriod(r).key === period.key);
+      if (idx >= 0) {
+        const target = ranges[idx + offset];
+        return target ? customPeriod(target) : null;
+      }
+      // 目前位於區間之外 (日曆月)，找最接近的區間
+      const candidates = offset < 0 ? ranges.filter(r => r.start < period.start) : ranges.filter(r => r.start > period.start);
+      const target = offset < 0 ? candidates[candidates.length + offset] : candidates[offset - 1];
+      return target ? customPeriod(target) : null;
+    }
+    default:
+      return shiftPeriod(period, offset);
+  }
+};
+
+// 去年同期；自訂區間直接將日期往前一年
+export const yearAgoPeriod = (cycle: BudgetCycle, period: Period): Period => {
+  if (cycle.kind !== 'custom') return shiftCyclePeriod(cycle, period, -12)!;
+  const shift = (ts: number) => {
+    const d = new Date(ts);
+    d.setFullYear(d.getFullYear() - 1);
+    return d.getTime();
+  };
+  return { key: `${period.key}-prev`, label: t('period.lastYear', { label: period.label }), shortLabel: period.shortLabel, start: shift(period.start), end: shift(period.end) };
+};
+
+// 在月份選擇器或年度總覽點選某月時要開啟的週期
+export const cycleMonthPeriod = (cycle: BudgetCycle, year: number, month: number): Period => {
+  switch (cycle.kind) {
+    case 'startDay': return startDayPeriod(year, month, cycle.day);
+    case 'custom': return cyclePeriodOf(cycle, new Date(year, month, 15));
+    default: return monthPeriod(year, month);
+  }
+};
+
+// 由網址中的週期代碼還原週期 (自訂區間為 custom-{id}，其餘為起始月份)，無法辨識時回傳 null
+export const periodFromKey = (cycle: BudgetCycle, key: string): Period | null => {
+  if (cycle.kind === 'custom') {
+    const range = cycle.ranges.find(r => customPeriod(r).key === key);
+    if (range) return customPeriod(range);
+  }
+  const month = parsePeriodKey(key);
+  if (!month) return null;
+  const d = new Date(month.start);
+  return cycleMonthPeriod(cycle, d.getFullYear(), d.getMonth());
+};
+
+export const describeCycle = (cycle: BudgetCycle) => {
+  switch (cycle.kind) {
+    case 'startDay': return t('period.cycleStartDay', { day: cycle.day });
+    case 'custom': return t('period.cycleCustom', { count: cycle.ranges.length });
+    default: return t('period.cycleCalendar');
+  }
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { RecurringRule } from '../types';
+import { dueOccurrences, occurrenceId, occurrencesBetween, ruleToExpense, upcomingFixedCosts } from './recurring';
+
+const at = (y: number, m: number, d: number, h = 9) => new Date(y, m - 1, d, h).getTime();
+
+const rule = (overrides: Partial<RecurringRule> = {}): RecurringRule => ({
+  id: 'rent',
+  type: 'expense',
+  amount: 12000,
+  item: 'Housing',
+  description: '房租',
+  frequency: 'monthly',
+  day: 31,
+  startDate: at(2026, 1, 1, 0),
+  ...overrides,
+});
+
+describe('occurrencesBetween', () => {
+  it('moves a monthly day past the month end to the last day', () => {
+    expect(occurrencesBetween(rule(), at(2026, 1, 1, 0), at(2026, 5, 1, 0))).toEqual([
+      at(2026, 1, 31), at(2026, 2, 28), at(2026, 3, 31), at(2026, 4, 30),
+    ]);
+    expect(occurrencesBetween(rule({ day: 29 }), at(2028, 2, 1, 0), at(2028, 3, 1, 0))).toEqual([at(2028, 2, 29)]);
+  });
+
+  it('steps weekly rules to the right weekday', () => {
+    // 2026/9/1 為星期二
+    const weekly = rule({ frequency: 'weekly', day: 5 });
+    expect(occurrencesBetween(weekly, at(2026, 9, 1, 0), at(2026, 9, 19, 0))).toEqual([at(2026, 9, 4), at(2026, 9, 11), at(2026, 9, 18)]);
+  });
+
+  it('stays within the start and end dates', () => {
+    const limited = rule({ day: 15, startDate: at(2026, 3, 16, 0), endDate: at(2026, 6, 15, 0) });
+    expect(occurrencesBetween(limited, at(2026, 1, 1, 0), at(2027, 1, 1, 0))).toEqual([at(2026, 4, 15), at(2026, 5, 15)]);
+  });
+});
+
+describe('dueOccurrences', () => {
+  it('continues after the last generated occurrence and skips paused rules', () => {
+    const generated = rule({ generatedThrough: at(2026, 2, 28) });
+    expect(dueOccurrences(generated, at(2026, 4, 30, 8))).toEqual([at(2026, 3, 31)]);
+    expect(dueOccurrences(generated, at(2026, 4, 30))).toEqual([at(2026, 3, 31), at(2026, 4, 30)]);
+    expect(dueOccurrences({ ...generated, paused: true }, at(2026, 4, 30))).toEqual([]);
+  });
+});
+
+describe('ruleToExpense', () => {
+  it('uses a stable id per rule and day', () => {
+    const expense = ruleToExpense(rule({ account: 'bank' }), at(2026, 2, 28), 'u1');
+    expect(expense).toMatchObject({ id: 'rec-rent-20260228', userId: 'u1', amount: 12000, account: 'bank' });
+    expect(occurrenceId('rent', at(2026, 2, 28, 23))).toBe(expense.id);
+  });
+});
+
+describe('upcomingFixedCosts', () => {
+  it('lists active expense rules by date', () => {
+    const rules = [
+      rule(),
+      rule({ id: 'phone', day: 5 }),
+      rule({ id: 'salary', type: 'income', day: 10 }),
+      rule({ id: 'gym', day: 1, paused: true }),
+    ];
+    expect(upcomingFixedCosts(rules, at(2026, 4, 1, 0), at(2026, 5, 1, 0)).map(c => [c.rule.id, c.timestamp])).toEqual([
+      ['phone', at(2026, 4, 5)],
+      ['rent', at(2026, 4, 30)],
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { Expense, RecurringRule } from '../types';
+import { formatDate, t } from './i18n';
+
+// 產生的紀錄固定記在當天早上九點
+const OCCURRENCE_HOUR = 9;
+
+const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 2024/1/7 為星期日，加上 day 天即為該星期幾，交由 Intl 依語言輸出名稱
+export const weekdayName = (day: number, style: 'short' | 'long' = 'short') => formatDate(new Date(2024, 0, 7 + day), { weekday: style });
+
+export const describeRule = (rule: RecurringRule) =>
+  rule.frequency === 'weekly' ? t('recurring.weekly', { weekday: weekdayName(rule.day) }) : t('recurring.monthly', { day: rule.day });
+
+export const isRuleEnded = (rule: RecurringRule, now = Date.now()) =>
+  rule.endDate !== undefined && rule.endDate <= now;
+
+export const isRuleActive = (rule: RecurringRule, now = Date.now()) =>
+  !rule.paused && !isRuleEnded(rule, now);
+
+// 規則在 [from, to) 區間內的發生時間；每月的日期超過月底時以月底計
+export const occurrencesBetween = (rule: RecurringRule, from: number, to: number): number[] => {
+  const begin = Math.max(from, startOfDay(rule.startDate));
+  const end = rule.endDate !== undefined ? Math.min(to, rule.endDate) : to;
+  const result: number[] = [];
+  if (begin >= end) return result;
+
+  const cursor = new Date(startOfDay(begin));
+  if (rule.frequency === 'weekly') {
+    cursor.setDate(cursor.getDate() + ((rule.day - cursor.getDay() + 7) % 7));
+    for (;;) {
+      const ts = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate(), OCCURRENCE_HOUR).getTime();
+      if (ts >= end) break;
+      if (ts >= begin) result.push(ts);
+      cursor.setDate(cursor.getDate() + 7);
+    }
+  } else {
+    for (let y = cursor.getFullYear(), m = cursor.getMonth(); ; m++) {
+      const lastDay = new Date(y, m + 1, 0).getDate();
+      const ts = new Date(y, m, Math.min(rule.day, lastDay), OCCURRENCE_HOUR).getTime();
+      if (ts >= end) break;
+      if (ts >= begin) result.push(ts);
+    }
+  }
+  return result;
+};
+
+// 截至 now 應產生但尚未產生的發生時間；暫停中的規則不補產生
+export const dueOccurrences = (rule: RecurringRule, now = Date.now()) => {
+  if (rule.paused) return [];
+  const from = rule.generatedThrough !== undefined ? rule.generatedThrough + 1 : rule.startDate;
+  return occurrencesBetween(rule, from, now + 1);
+};
+
+// 以規則與日期組成固定編號，多個裝置同時產生也只會寫入同一筆
+export const occurrenceId = (ruleId: string, ts: number) => {
+  const d = new Date(ts);
+  return `rec-${ruleId}-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+};
+
+export const ruleToExpense = (rule: RecurringRule, ts: number, userId: string): Expense => ({
+  id: occurrenceId(rule.id, ts),
+  userId,
+  type: rule.type,
+  amount: rule.amount,
+  item: rule.item,
+  description: rule.description,
+  timestamp: ts,
+  ...(rule.account && { account: rule.account }),
+});
+
+export interface UpcomingCost {
+  rule: RecurringRule;
+  timestamp: number;
+}
+
+// 區間內即將發生的固定支出，依日期排序
+export const upcomingFixedCosts = (rules: RecurringRule[], from: number, to: number): UpcomingCost[] =>
+  rules
+    .filter(rule => rule.type === 'expense' && isRuleActive(rule, from))
+    .flatMap(rule => occurrencesBetween(rule, from, to).map(timestamp => ({ rule, timestamp })))
+    .sort((a, b) => a.timestamp - b.timestamp);
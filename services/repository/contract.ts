@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetPeriodRecord, Expense, PaymentAccount, User } from '../../types';
+import { Repository, Unsubscribe, UserProfile } from './types';
+
+// 每個測試使用新的使用者；legacy 為預先存在的原始紀錄文件 (文件編號 → 內容)，有的話該使用者視為既有使用者
+export interface ContractContext {
+  repository: Repository;
+  user: User;
+}
+
+export type CreateContext = (legacy?: Record<string, Record<string, unknown>>) => Promise<ContractContext>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 8, 15, 12).getTime();
+
+// 等到訂閱回報符合條件的值；記憶體實作會在訂閱當下同步回報
+const nextValue = <T,>(subscribe: (onChange: (value: T) => void) => Unsubscribe, accept: (value: T) => boolean = () => true) =>
+  new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let unsubscribe: Unsubscribe | undefined;
+    const timer = setTimeout(() => { settled = true; unsubscribe?.(); reject(new Error('等待訂閱結果逾時')); }, 5000);
+    unsubscribe = subscribe(value => {
+      if (settled || !accept(value)) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(value);
+      unsubscribe?.();
+    });
+    if (settled) unsubscribe();
+  });
+
+const expenseFor = (user: User, id: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  userId: user.uid,
+  type: 'expense',
+  amount: 120,
+  item: 'Food',
+  description: '午餐',
+  timestamp: NOW,
+  account: 'cash',
+  ...overrides,
+});
+
+const codeOf = (promise: Promise<unknown>) =>
+  promise.then(() => 'ok', (err: unknown) => (typeof err === 'object' && err !== null && 'code' in err ? err.code : undefined));
+
+// Firebase 與記憶體實作共用的行為測試：新增、編輯、刪除與預算流程
+export const describeRepositoryContract = (name: string, createContext: CreateContext) => {
+  describe(`${name} repository`, () => {
+    it('creates the user profile with defaults on first sign-in', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const profile = await nextValue<UserProfile>(onChange => repository.users.watchProfile(user.uid, onChange));
+      expect(profile.monthlyBudget).toBe(10000);
+      expect(profile.categoryBudgets).toEqual({});
+      expect(profile.preferences).toEqual({});
+      expect(profile.displayName).toBe(user.displayName);
+      expect(profile.photoURL).toBeUndefined();
+    });
+
+    it('adds an expense and reads it back by id, range and subscription', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const expense = expenseFor(user, repository.expenses.newId(user.uid), { tags: ['旅行'] });
+      await repository.expenses.save(user.uid, expense);
+
+      expect(await repository.expenses.get(user.uid, expense.id)).toEqual(expense);
+      expect(await repository.expenses.listRange(user.uid, NOW - DAY_MS, NOW + DAY_MS)).toEqual([expense]);
+      expect(await repository.expenses.listRange(user.uid, NOW + 1, NOW + DAY_MS)).toEqual([]);
+      const live = await nextValue<Expense[]>(onChange => repository.expenses.watchSince(user.uid, NOW - DAY_MS, onChange), list => list.length > 0);
+      expect(live).toEqual([expense]);
+    });
+
+    it('pages older expenses from newest to oldest', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const expenses = [0, 1, 2].map(i => expenseFor(user, repository.expenses.newId(user.uid), { timestamp: NOW - i * DAY_MS }));
+      await repository.expenses.saveMany(user.uid, expenses);
+
+      const first = await repository.expenses.listBefore(user.uid, NOW + 1, 2, null);
+      expect(first.expenses.map(e => e.id)).toEqual([expenses[0].id, expenses[1].id]);
+      const second = await repository.expenses.listBefore(user.uid, NOW + 1, 2, first.cursor);
+      expect(second.expenses.map(e => e.id)).toEqual([expenses[2].id]);
+    });
+
+    it('edits an expense and rejects edits to a missing one', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const expense = expenseFor(user, repository.expenses.newId(user.uid));
+      await repository.expenses.save(user.uid, expense);
+
+      await repository.expenses.update(user.uid, expense.id, { amount: 80, description: '晚餐', tags: [] });
+      expect(await repository.expenses.get(user.uid, expense.id)).toEqual({ ...expense, amount: 80, description: '晚餐', tags: [] });
+      expect(await codeOf(repository.expenses.update(user.uid, 'missing', { amount: 1 }))).toBe('not-found');
+    });
+
+    it('moves an expense to the trash, restores it and deletes it for good', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const expense = expenseFor(user, repository.expenses.newId(user.uid));
+      await repository.expenses.save(user.uid, expense);
+
+      await repository.expenses.update(user.uid, expense.id, { deletedAt: NOW + 1000 });
+      expect((await repository.expenses.listTrashed(user.uid)).map(e => e.id)).toEqual([expense.id]);
+
+      await repository.expenses.restore(user.uid, expense.id);
+      expect(await repository.expenses.listTrashed(user.uid)).toEqual([]);
+      expect(await repository.expenses.get(user.uid, expense.id)).toEqual(expense);
+
+      await repository.expenses.remove(user.uid, expense.id);
+      expect(await repository.expenses.get(user.uid, expense.id)).toBeNull();
+      expect(await codeOf(repository.expenses.restore(user.uid, expense.id))).toBe('not-found');
+    });
+
+    it('updates and removes expenses in bulk', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const expenses = [0, 1].map(i => expenseFor(user, repository.expenses.newId(user.uid), { timestamp: NOW - i * DAY_MS }));
+      await repository.expenses.saveMany(user.uid, expenses);
+
+      await repository.expenses.updateMany(user.uid, expenses.map(e => ({ id: e.id, changes: { item: 'Transport' } })));
+      const updated = await repository.expenses.listRange(user.uid, NOW - 2 * DAY_MS, NOW + 1);
+      expect(updated.map(e => e.item)).toEqual(['Transport', 'Transport']);
+      expect(await codeOf(repository.expenses.updateMany(user.uid, [{ id: 'missing', changes: { amount: 1 } }]))).toBe('not-found');
+
+      await repository.expenses.removeMany(user.uid, expenses.map(e => e.id));
+      expect(await repository.expenses.listRange(user.uid, NOW - 2 * DAY_MS, NOW + 1)).toEqual([]);
+    });
+
+    it('stores the period budget, category budgets and budget cycle', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      await repository.budgets.setMonthlyBudget(user.uid, 8000);
+      await repository.budgets.setCategoryBudget(user.uid, 'Food', 3000);
+      await repository.budgets.setCategoryBudget(user.uid, 'Transport', 500);
+      await repository.budgets.setCategoryBudget(user.uid, 'Transport', null);
+      await repository.budgets.setBudgetCycle(user.uid, { kind: 'startDay', day: 5 });
+
+      const profile = await nextValue<UserProfile>(onChange => repository.users.watchProfile(user.uid, onChange), p => p.monthlyBudget === 8000);
+      expect(profile.categoryBudgets).toEqual({ Food: 3000 });
+      expect(profile.budgetCycle).toEqual({ kind: 'startDay', day: 5 });
+
+      const record = { key: '2026-08', label: '2026 年 8 月', start: NOW - 30 * DAY_MS, end: NOW, budget: 8000 };
+      await repository.budgets.savePeriodRecord(user.uid, record);
+      const records = await nextValue<BudgetPeriodRecord[]>(onChange => repository.budgets.watchPeriodRecords(user.uid, onChange), list => list.length > 0);
+      expect(records).toEqual([record]);
+    });
+
+    it('upgrades legacy expenses on the first sign-in and reports invalid ones', async () => {
+      const { repository, user } = await createContext({
+        legacy: { amount: '120', item: 'Food', timestamp: { seconds: NOW / 1000, nanoseconds: 0 } },
+        broken: { amount: 50, item: 'Food', description: '' },
+      });
+      // 舊版的時間不是數字，依日期查詢時查不到
+      expect(await repository.expenses.listRange(user.uid, NOW - DAY_MS, NOW + DAY_MS)).toEqual([]);
+
+      await repository.users.ensureProfile(user);
+      const [upgraded] = await repository.expenses.listRange(user.uid, NOW - DAY_MS, NOW + DAY_MS);
+      expect(upgraded).toMatchObject({ id: 'legacy', amount: 120, description: '', timestamp: NOW });
+
+      const report = await repository.expenses.migrateAll(user.uid);
+      expect(report).toMatchObject({ checked: 2, upgraded: 0 });
+      expect(report.invalid.map(d => d.id)).toEqual(['broken']);
+      expect(report.invalid[0].errors).toEqual([{ key: 'schema.missingDate' }]);
+    });
+
+    it('seeds the default account only while there is none', async () => {
+      const { repository, user } = await createContext();
+      await repository.users.ensureProfile(user);
+      const cash = { id: 'cash', name: '現金', kind: 'cash' as const, openingBalance: 0, openingDate: NOW, order: 0 };
+      await repository.accounts.seedDefault(user.uid, cash);
+      await repository.accounts.seedDefault(user.uid, { ...cash, id: 'other', name: '其他' });
+      const accounts = await nextValue<PaymentAccount[]>(onChange => repository.accounts.watch(user.uid, onChange), list => list.length > 0);
+      expect(accounts).toEqual([cash]);
+    });
+  });
+};
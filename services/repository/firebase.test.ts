@@ -0,0 +1,33 @@
+import { afterAll, describe } from 'vitest';
+import { deleteApp, initializeApp } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, doc, getFirestore, setDoc } from 'firebase/firestore';
+import { describeRepositoryContract } from './contract';
+import { createFirebaseRepository } from './firebase';
+
+// 需要 Firestore Emulator：npm run test:emulator 會啟動 Emulator 並設定 FIRESTORE_EMULATOR_HOST
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+describe.skipIf(!emulatorHost)('firebase (emulator)', () => {
+  const app = initializeApp({ projectId: 'demo-expense-tracker', apiKey: 'demo-key' }, 'repository-contract');
+  const db = getFirestore(app);
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+  }
+  const repository = createFirebaseRepository(db, getAuth(app));
+  let nextUser = 1;
+
+  afterAll(() => deleteApp(app));
+
+  // 既有使用者以註冊頁舊版的文件格式建立，紀錄直接寫入原始文件
+  describeRepositoryContract('firebase', async (legacy) => {
+    const uid = `contract-${Date.now()}-${nextUser++}`;
+    const user = { uid, email: `${uid}@example.com`, displayName: '小明' };
+    if (legacy) {
+      await setDoc(doc(db, 'users', uid), { email: user.email, createdAt: Date.now(), lastLogin: Date.now() });
+      await Promise.all(Object.entries(legacy).map(([id, data]) => setDoc(doc(db, 'users', uid, 'expenses', id), data)));
+    }
+    return { repository, user };
+  });
+});
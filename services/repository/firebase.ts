@@ -0,0 +1,354 @@
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  getDocsFromServer,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+  QueryDocumentSnapshot,
+  DocumentData,
+  DocumentReference,
+  runTransaction
+} from 'firebase/firestore';
+import { Auth, deleteUser, getRedirectResult, onAuthStateChanged, signOut, updateProfile } from 'firebase/auth';
+import { AccountTransfer, BudgetPeriodRecord, Category, Expense, PaymentAccount, RecurringRule, SavingsGoal } from '../../types';
+import { t } from '../i18n';
+import { InvalidDocument, MigrationReport, Repository } from './types';
+import { EXPENSE_SCHEMA_VERSION, buildUserDocument, clearInvalidDocument, parseExpense, parseUserDocument, reportInvalidDocument, toExpenseDocument } from './schema';
+
+// Firestore 單一批次最多 500 筆寫入
+const BATCH_SIZE = 400;
+
+// Firestore 不接受 undefined 欄位，寫入前移除
+const withoutUndefined = <T extends object>(data: T) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+
+// 資料結構：users/{uid} 存預算設定，expenses、categories、recurring、periods、goals、accounts 與 transfers 為子集合
+export const createFirebaseRepository = (db: Firestore, auth: Auth): Repository => {
+  const expensesRef = (uid: string) => collection(db, 'users', uid, 'expenses');
+  const categoriesRef = (uid: string) => collection(db, 'users', uid, 'categories');
+  const recurringRef = (uid: string) => collection(db, 'users', uid, 'recurring');
+  const periodsRef = (uid: string) => collection(db, 'users', uid, 'periods');
+  const goalsRef = (uid: string) => collection(db, 'users', uid, 'goals');
+  const accountsRef = (uid: string) => collection(db, 'users', uid, 'accounts');
+  const transfersRef = (uid: string) => collection(db, 'users', uid, 'transfers');
+
+  // 驗證讀到的紀錄：無效的回報後略過，舊版的在背景寫回目前版本
+  const readExpenses = (uid: string, docs: Array<{ id: string; ref: DocumentReference; data: () => DocumentData | undefined }>) => {
+    const expenses: Expense[] = [];
+    const upgrades: Expense[] = [];
+    docs.forEach(fbDoc => {
+      const result = parseExpense(fbDoc.id, fbDoc.data() || {}, uid);
+      if (!result.value) {
+        reportInvalidDocument({ path: fbDoc.ref.path, id: fbDoc.id, errors: result.errors });
+        return;
+      }
+      clearInvalidDocument(fbDoc.ref.path);
+      expenses.push(result.value);
+      if (result.upgraded) upgrades.push(result.value);
+    });
+    if (upgrades.length > 0) {
+      writeUpgrades(uid, upgrades).catch(err => console.error('[Schema] 舊版紀錄升級失敗:', err));
+    }
+    return expenses;
+  };
+
+  // 以 merge 寫回，保留驗證範圍外的欄位
+  const writeUpgrades = async (uid: string, expenses: Expense[]) => {
+    for (let i = 0; i < expenses.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      expenses.slice(i, i + BATCH_SIZE).forEach(expense =>
+        batch.set(doc(expensesRef(uid), expense.id), withoutUndefined(toExpenseDocument(expense)), { merge: true }));
+      await batch.commit();
+    }
+  };
+
+  // 依文件編號分頁，才能讀到缺少 timestamp 或時間不是數字而依日期查詢不到的文件；
+  // 只讀伺服器資料，離線時失敗而不會只檢查到快取中的部分
+  const migrateAllExpenses = async (uid: string): Promise<MigrationReport> => {
+    const report = { checked: 0, upgraded: 0, invalid: [] as InvalidDocument[] };
+    let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
+    for (;;) {
+      const q = cursor
+        ? query(expensesRef(uid), orderBy(documentId()), startAfter(cursor), limit(BATCH_SIZE))
+        : query(expensesRef(uid), orderBy(documentId()), limit(BATCH_SIZE));
+      const snapshot = await getDocsFromServer(q);
+      if (snapshot.empty) break;
+      const upgrades: Expense[] = [];
+      snapshot.docs.forEach(fbDoc => {
+        const result = parseExpense(fbDoc.id, fbDoc.data(), uid);
+        if (!result.value) {
+          const invalid = { path: fbDoc.ref.path, id: fbDoc.id, errors: result.errors };
+          report.invalid.push(invalid);
+          reportInvalidDocument(invalid);
+          return;
+        }
+        clearInvalidDocument(fbDoc.ref.path);
+        if (result.upgraded) upgrades.push(result.value);
+      });
+      await writeUpgrades(uid, upgrades);
+      report.checked += snapshot.size;
+      report.upgraded += upgrades.length;
+      cursor = snapshot.docs[snapshot.docs.length - 1];
+    }
+    return report;
+  };
+
+  const currentUser = () => {
+    if (!auth.currentUser) throw Object.assign(new Error(t('common.notSignedIn')), { code: 'auth/no-current-user' });
+    return auth.currentUser;
+  };
+
+  return {
+    auth: {
+      watch(onChange) {
+        // 雖然主推 Popup，但仍檢查是否有 Redirect 遺留結果
+        getRedirectResult(auth).catch(() => {});
+        return onAuthStateChanged(auth, (fbUser) => {
+          onChange(fbUser ? {
+            uid: fbUser.uid,
+            email: fbUser.email || '',
+            displayName: fbUser.displayName || undefined,
+            photoURL: fbUser.photoURL || undefined,
+          } : null);
+        });
+      },
+      signOut: () => signOut(auth),
+      updateProfile: (changes) =>
+        updateProfile(currentUser(), { displayName: changes.displayName ?? null, photoURL: changes.photoURL ?? null }),
+      deleteUser: () => deleteUser(currentUser()),
+    },
+
+    users: {
+      async ensureProfile(user) {
+        const userDocRef = doc(db, 'users', user.uid);
+        const userDoc = await getDoc(userDocRef);
+        if (!userDoc.exists()) {
+          await setDoc(userDocRef, buildUserDocument(user));
+          return;
+        }
+        // 登入時順便將舊版使用者文件升級為目前版本
+        const data = userDoc.data();
+        const { upgraded } = parseUserDocument(data);
+        await updateDoc(userDocRef, { ...(upgraded ? withoutUndefined(upgraded) : {}), lastLogin: Date.now() });
+        // 舊版紀錄依日期查詢不到，讀取時無法升級，每個使用者先整批升級一次，完成後記下版本
+        if (data.expenseSchemaVersion !== EXPENSE_SCHEMA_VERSION) {
+          await migrateAllExpenses(user.uid);
+          await updateDoc(userDocRef, { expenseSchemaVersion: EXPENSE_SCHEMA_VERSION });
+        }
+      },
+      watchProfile(uid, onChange, onError) {
+        return onSnapshot(doc(db, 'users', uid), (snapshot) => {
+          if (!snapshot.exists()) return;
+          const { profile, errors } = parseUserDocument(snapshot.data());
+          if (errors.length > 0) reportInvalidDocument({ path: snapshot.ref.path, id: uid, errors });
+          else clearInvalidDocument(snapshot.ref.path);
+          onChange(profile);
+        }, onError);
+      },
+      updateProfile: (uid, changes) =>
+        updateDoc(doc(db, 'users', uid), { displayName: changes.displayName ?? null, photoURL: changes.photoURL ?? null }),
+      setPreferences: (uid, preferences) =>
+        updateDoc(doc(db, 'users', uid), { preferences: withoutUndefined(preferences) }),
+      // 用戶端無法直接刪除整個集合，逐批讀取後刪除
+      async deleteAllData(uid) {
+        for (const ref of [expensesRef(uid), categoriesRef(uid), recurringRef(uid), periodsRef(uid), goalsRef(uid), accountsRef(uid), transfersRef(uid)]) {
+          for (;;) {
+            const snapshot = await getDocs(query(ref, limit(BATCH_SIZE)));
+            if (snapshot.empty) break;
+            const batch = writeBatch(db);
+            snapshot.docs.forEach(fbDoc => batch.delete(fbDoc.ref));
+            await batch.commit();
+          }
+        }
+        await deleteDoc(doc(db, 'users', uid));
+      },
+    },
+
+    budgets: {
+      setMonthlyBudget: (uid, amount) => updateDoc(doc(db, 'users', uid), { monthlyBudget: amount }),
+      setCategoryBudget: (uid, item, limitValue) =>
+        updateDoc(doc(db, 'users', uid), { [`categoryBudgets.${item}`]: limitValue ?? deleteField() }),
+      setBudgetCycle: (uid, cycle) =>
+        updateDoc(doc(db, 'users', uid), {
+          budgetCycle: cycle.kind === 'custom' ? { ...cycle, ranges: cycle.ranges.map(withoutUndefined) } : cycle
+        }),
+      setRolloverSince: (uid, since) =>
+        updateDoc(doc(db, 'users', uid), { rolloverSince: since ?? deleteField() }),
+      watchPeriodRecords(uid, onChange, onError) {
+        return onSnapshot(periodsRef(uid), (snapshot) => {
+          onChange(snapshot.docs.map(fbDoc => fbDoc.data() as BudgetPeriodRecord));
+        }, onError);
+      },
+      savePeriodRecord: (uid, record) => setDoc(doc(periodsRef(uid), record.key), record),
+    },
+
+    expenses: {
+      newId: (uid) => doc(expensesRef(uid)).id,
+      async get(uid, id) {
+        const snapshot = await getDoc(doc(expensesRef(uid), id));
+        return snapshot.exists() ? readExpenses(uid, [snapshot])[0] ?? null : null;
+      },
+      save: (uid, expense) => setDoc(doc(expensesRef(uid), expense.id), withoutUndefined(toExpenseDocument(expense))),
+      update: (uid, id, changes) => updateDoc(doc(expensesRef(uid), id), withoutUndefined(changes)),
+      remove: (uid, id) => deleteDoc(doc(expensesRef(uid), id)),
+      restore: (uid, id) => updateDoc(doc(expensesRef(uid), id), { deletedAt: deleteField() }),
+      async saveMany(uid, expenses) {
+        for (let i = 0; i < expenses.length; i += BATCH_SIZE) {
+          const batch = writeBatch(db);
+          expenses.slice(i, i + BATCH_SIZE).forEach(expense => batch.set(doc(expensesRef(uid), expense.id), withoutUndefined(toExpenseDocument(expense))));
+          await batch.commit();
+        }
+      },
+      async updateMany(uid, updates) {
+        for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+          const batch = writeBatch(db);
+          updates.slice(i, i + BATCH_SIZE).forEach(({ id, changes }) => batch.update(doc(expensesRef(uid), id), withoutUndefined(changes)));
+          await batch.commit();
+        }
+      },
+      async removeMany(uid, ids) {
+        for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+          const batch = writeBatch(db);
+          ids.slice(i, i + BATCH_SIZE).forEach(id => batch.delete(doc(expensesRef(uid), id)));
+          await batch.commit();
+        }
+      },
+      watchSince(uid, start, onChange, onError) {
+        const q = query(expensesRef(uid), where('timestamp', '>=', start), orderBy('timestamp', 'desc'));
+        return onSnapshot(q, (snapshot) => onChange(readExpenses(uid, snapshot.docs)), onError);
+      },
+      async listBefore(uid, before, pageSize, cursor) {
+        const constraints = [where('timestamp', '<', before), orderBy('timestamp', 'desc')];
+        const q = cursor
+          ? query(expensesRef(uid), ...constraints, startAfter(cursor as QueryDocumentSnapshot<DocumentData>), limit(pageSize))
+          : query(expensesRef(uid), ...constraints, limit(pageSize));
+        const snapshot = await getDocs(q);
+        const last = snapshot.docs[snapshot.docs.length - 1];
+        return { expenses: readExpenses(uid, snapshot.docs), cursor: last ?? null };
+      },
+      async listRange(uid, start, end) {
+        const q = query(
+          expensesRef(uid),
+          where('timestamp', '>=', start),
+          where('timestamp', '<', end),
+          orderBy('timestamp', 'desc')
+        );
+        const snapshot = await getDocs(q);
+        return readExpenses(uid, snapshot.docs);
+      },
+      async listTrashed(uid) {
+        const q = query(expensesRef(uid), where('deletedAt', '>', 0), orderBy('deletedAt', 'desc'));
+        const snapshot = await getDocs(q);
+        return readExpenses(uid, snapshot.docs);
+      },
+      migrateAll: migrateAllExpenses,
+    },
+
+    categories: {
+      watch(uid, onChange, onError) {
+        return onSnapshot(categoriesRef(uid), (snapshot) => {
+          onChange(snapshot.docs.map(fbDoc => ({ ...fbDoc.data(), id: fbDoc.id } as Category)));
+        }, onError);
+      },
+      async save(uid, category) {
+        const ref = category.id ? doc(categoriesRef(uid), category.id) : doc(categoriesRef(uid));
+        await setDoc(ref, withoutUndefined({ ...category, id: ref.id }));
+      },
+      // 內建分類也一併寫入，之後排序才會以使用者設定為準
+      async reorder(uid, ordered) {
+        const batch = writeBatch(db);
+        ordered.forEach((category, idx) => {
+          batch.set(doc(categoriesRef(uid), category.id), withoutUndefined({ ...category, order: idx }));
+        });
+        await batch.commit();
+      },
+    },
+
+    recurring: {
+      watch(uid, onChange, onError) {
+        return onSnapshot(recurringRef(uid), (snapshot) => {
+          onChange(snapshot.docs.map(fbDoc => ({ ...fbDoc.data(), id: fbDoc.id } as RecurringRule)));
+        }, onError);
+      },
+      async save(uid, rule) {
+        const ref = rule.id ? doc(recurringRef(uid), rule.id) : doc(recurringRef(uid));
+        await setDoc(ref, withoutUndefined({ ...rule, id: ref.id }));
+      },
+      remove: (uid, id) => deleteDoc(doc(recurringRef(uid), id)),
+      async materialize(uid, ruleId, expenses, generatedThrough) {
+        const batch = writeBatch(db);
+        expenses.forEach(expense => batch.set(doc(expensesRef(uid), expense.id), withoutUndefined(toExpenseDocument(expense))));
+        batch.update(doc(recurringRef(uid), ruleId), { generatedThrough });
+        await batch.commit();
+      },
+    },
+
+    goals: {
+      watch(uid, onChange, onError) {
+        return onSnapshot(goalsRef(uid), (snapshot) => {
+          onChange(snapshot.docs.map(fbDoc => ({ contributions: [], ...fbDoc.data(), id: fbDoc.id } as SavingsGoal)));
+        }, onError);
+      },
+      async save(uid, goal) {
+        const ref = goal.id ? doc(goalsRef(uid), goal.id) : doc(goalsRef(uid));
+        await setDoc(ref, withoutUndefined({ ...goal, id: ref.id, contributions: goal.contributions.map(withoutUndefined) }));
+      },
+      remove: (uid, id) => deleteDoc(doc(goalsRef(uid), id)),
+      // 以交易讀取後再寫入，多個裝置同時存入同一期結餘也只會記一次
+      async addContribution(uid, goalId, contribution) {
+        const ref = doc(goalsRef(uid), goalId);
+        await runTransaction(db, async (transaction) => {
+          const snapshot = await transaction.get(ref);
+          if (!snapshot.exists()) return;
+          const contributions: SavingsGoal['contributions'] = snapshot.data().contributions || [];
+          if (contributions.some(c => c.id === contribution.id)) return;
+          transaction.update(ref, { contributions: [...contributions, withoutUndefined(contribution)] });
+        });
+      },
+    },
+
+    accounts: {
+      watch(uid, onChange, onError) {
+        return onSnapshot(accountsRef(uid), (snapshot) => {
+          onChange(snapshot.docs.map(fbDoc => ({ ...fbDoc.data(), id: fbDoc.id } as PaymentAccount)));
+        }, onError);
+      },
+      async save(uid, account) {
+        const ref = account.id ? doc(accountsRef(uid), account.id) : doc(accountsRef(uid));
+        await setDoc(ref, withoutUndefined({ ...account, id: ref.id }));
+      },
+      // 離線快取可能不完整，只以伺服器結果判斷；固定編號讓多個裝置同時建立也只有一個
+      async seedDefault(uid, account) {
+        const existing = await getDocsFromServer(query(accountsRef(uid), limit(1)));
+        if (!existing.empty) return;
+        await setDoc(doc(accountsRef(uid), account.id), withoutUndefined(account));
+      },
+    },
+
+    transfers: {
+      watch(uid, onChange, onError) {
+        return onSnapshot(transfersRef(uid), (snapshot) => {
+          onChange(snapshot.docs.map(fbDoc => ({ ...fbDoc.data(), id: fbDoc.id } as AccountTransfer)));
+        }, onError);
+      },
+      async save(uid, transfer) {
+        const ref = transfer.id ? doc(transfersRef(uid), transfer.id) : doc(transfersRef(uid));
+        await setDoc(ref, withoutUndefined({ ...transfer, id: ref.id }));
+      },
+      remove: (uid, id) => deleteDoc(doc(transfersRef(uid), id)),
+    },
+  };
+};
@@ -0,0 +1,10 @@
+import { auth, db } from '../firebase';
+import { createFirebaseRepository } from './firebase';
+
+export * from './types';
+export { watchInvalidDocuments } from './schema';
+export { createFirebaseRepository } from './firebase';
+export { createMemoryRepository } from './memory';
+
+// App 預設使用的 Firebase 實作
+export const defaultRepository = createFirebaseRepository(db, auth);
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { User } from '../../types';
+import { describeRepositoryContract } from './contract';
+import { createMemoryRepository } from './memory';
+
+const user: User = { uid: 'user-1', email: 'student@example.com', displayName: '小明' };
+
+describeRepositoryContract('memory', async (legacy) => ({
+  repository: createMemoryRepository(legacy ? { expenses: { [user.uid]: legacy } } : {}),
+  user,
+}));
+
+describe('memory auth', () => {
+  it('reports the seeded user and signs out', async () => {
+    const repository = createMemoryRepository({ user });
+    const states: Array<User | null> = [];
+    const unsubscribe = repository.auth.watch(current => states.push(current));
+    await repository.auth.updateProfile({ displayName: '小華' });
+    await repository.auth.signOut();
+    unsubscribe();
+    expect(states).toEqual([user, null]);
+    await expect(repository.auth.deleteUser()).rejects.toMatchObject({ code: 'auth/no-current-user' });
+  });
+});
@@ -0,0 +1,377 @@
+import { AccountTransfer, BudgetPeriodRecord, Category, Expense, PaymentAccount, RecurringRule, SavingsGoal, User } from '../../types';
+import { t } from '../i18n';
+import { ExpenseChanges, InvalidDocument, MigrationReport, Repository, UserProfile } from './types';
+import { DEFAULT_MONTHLY_BUDGET, EXPENSE_SCHEMA_VERSION, clearInvalidDocument, parseExpense, reportInvalidDocument, toExpenseDocument } from './schema';
+
+// 與 Firestore 相同，紀錄以原始文件存放，讀取時才驗證與升級
+type StoredDocument = Record<string, unknown>;
+
+interface MemoryUser {
+  registered: boolean; // 是否已建立使用者文件 (ensureProfile)
+  expenseSchemaVersion?: number; // 全部收支紀錄已升級到的版本
+  profile: UserProfile & { email: string; createdAt: number; lastLogin: number };
+  expenses: Map<string, StoredDocument>;
+  categories: Map<string, Category>;
+  recurring: Map<string, RecurringRule>;
+  periods: Map<string, BudgetPeriodRecord>;
+  goals: Map<string, SavingsGoal>;
+  accounts: Map<string, PaymentAccount>;
+  transfers: Map<string, AccountTransfer>;
+}
+
+// 預先放入的資料，例如測試用的舊版格式紀錄；有資料的使用者視為既有使用者
+export interface MemorySeed {
+  user?: User; // 已登入的使用者，未設定時為登出狀態
+  expenses?: Record<string, Record<string, StoredDocument>>; // uid → 文件編號 → 原始文件
+}
+
+type Listener = () => void;
+
+const notFound = (path: string) => Object.assign(new Error(t('common.notFound', { path })), { code: 'not-found' });
+const notSignedIn = () => Object.assign(new Error(t('common.notSignedIn')), { code: 'auth/no-current-user' });
+
+const byNewest = (a: Expense, b: Expense) => b.timestamp - a.timestamp;
+
+// Firestore 不保存 undefined 欄位
+const withoutUndefined = <T extends object>(data: T) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+
+// 資料只存在記憶體中，寫入後同步通知訂閱者；供本機開發與測試使用
+export const createMemoryRepository = (seed: MemorySeed = {}): Repository => {
+  const users = new Map<string, MemoryUser>();
+  const listeners = new Map<string, Set<Listener>>();
+  const authListeners = new Set<(user: User | null) => void>();
+  let signedIn: User | null = seed.user ?? null;
+  let nextId = 1;
+
+  const userOf = (uid: string) => {
+    let data = users.get(uid);
+    if (!data) {
+      data = {
+        registered: false,
+        profile: { email: '', createdAt: Date.now(), lastLogin: Date.now(), monthlyBudget: DEFAULT_MONTHLY_BUDGET, categoryBudgets: {}, preferences: {} },
+        expenses: new Map(),
+        categories: new Map(),
+        recurring: new Map(),
+        periods: new Map(),
+        goals: new Map(),
+        accounts: new Map(),
+        transfers: new Map(),
+      };
+      users.set(uid, data);
+    }
+    return data;
+  };
+
+  const subscribe = (uid: string, listener: Listener) => {
+    if (!listeners.has(uid)) listeners.set(uid, new Set());
+    listeners.get(uid)!.add(listener);
+    listener();
+    return () => { listeners.get(uid)?.delete(listener); };
+  };
+
+  const notify = (uid: string) => listeners.get(uid)?.forEach(listener => listener());
+
+  Object.entries(seed.expenses ?? {}).forEach(([uid, docs]) => {
+    const data = userOf(uid);
+    data.registered = true;
+    Object.entries(docs).forEach(([id, raw]) => data.expenses.set(id, { ...raw }));
+  });
+
+  const setAuthUser = (user: User | null) => {
+    signedIn = user;
+    authListeners.forEach(listener => listener(user));
+  };
+
+  const pathOf = (uid: string, id: string) => `users/${uid}/expenses/${id}`;
+
+  // 與 Firestore 的查詢一樣只比對數字格式的欄位，驗證後略過無效的紀錄並升級舊版紀錄
+  const readExpenses = (uid: string, match: (raw: StoredDocument, id: string) => boolean) => {
+    const stored = userOf(uid).expenses;
+    const expenses: Expense[] = [];
+    stored.forEach((raw, id) => {
+      if (!match(raw, id)) return;
+      const result = parseExpense(id, raw, uid);
+      if (!result.value) {
+        reportInvalidDocument({ path: pathOf(uid, id), id, errors: result.errors });
+        return;
+      }
+      clearInvalidDocument(pathOf(uid, id));
+      if (result.upgraded) stored.set(id, { ...raw, ...withoutUndefined(toExpenseDocument(result.value)) });
+      expenses.push(result.value);
+    });
+    return expenses.sort(byNewest);
+  };
+
+  const inRange = (start: number, end = Infinity) => (raw: StoredDocument) =>
+    typeof raw.timestamp === 'number' && raw.timestamp >= start && raw.timestamp < end;
+
+  const migrateAllExpenses = async (uid: string): Promise<MigrationReport> => {
+    const stored = userOf(uid).expenses;
+    const report = { checked: stored.size, upgraded: 0, invalid: [] as InvalidDocument[] };
+    stored.forEach((raw, id) => {
+      const result = parseExpense(id, raw, uid);
+      if (!result.value) {
+        const invalid = { path: pathOf(uid, id), id, errors: result.errors };
+        report.invalid.push(invalid);
+        reportInvalidDocument(invalid);
+        return;
+      }
+      clearInvalidDocument(pathOf(uid, id));
+      if (!result.upgraded) return;
+      stored.set(id, { ...raw, ...withoutUndefined(toExpenseDocument(result.value)) });
+      report.upgraded++;
+    });
+    if (report.upgraded > 0) notify(uid);
+    return report;
+  };
+
+  return {
+    auth: {
+      watch(onChange) {
+        authListeners.add(onChange);
+        onChange(signedIn);
+        return () => { authListeners.delete(onChange); };
+      },
+      async signOut() {
+        setAuthUser(null);
+      },
+      // 與 Firebase 相同，更新登入資料不會觸發登入狀態通知
+      async updateProfile(changes) {
+        if (!signedIn) throw notSignedIn();
+        signedIn = { ...signedIn, displayName: changes.displayName, photoURL: changes.photoURL };
+      },
+      async deleteUser() {
+        if (!signedIn) throw notSignedIn();
+        setAuthUser(null);
+      },
+    },
+
+    users: {
+      async ensureProfile(user) {
+        const data = userOf(user.uid);
+        const now = Date.now();
+        if (!data.registered) {
+          data.registered = true;
+          data.expenseSchemaVersion = EXPENSE_SCHEMA_VERSION;
+          Object.assign(data.profile, { email: user.email, displayName: user.displayName, photoURL: user.photoURL, createdAt: now, lastLogin: now });
+          notify(user.uid);
+          return;
+        }
+        data.profile.lastLogin = now;
+        notify(user.uid);
+        if (data.expenseSchemaVersion !== EXPENSE_SCHEMA_VERSION) {
+          await migrateAllExpenses(user.uid);
+          data.expenseSchemaVersion = EXPENSE_SCHEMA_VERSION;
+        }
+      },
+      // 與 Firestore 相同，使用者文件建立前不回報
+      watchProfile(uid, onChange) {
+        return subscribe(uid, () => {
+          if (!userOf(uid).registered) return;
+          const { monthlyBudget, categoryBudgets, budgetCycle, rolloverSince, displayName, photoURL, preferences } = userOf(uid).profile;
+          onChange({ monthlyBudget, categoryBudgets: { ...categoryBudgets }, budgetCycle, rolloverSince, displayName, photoURL, preferences: { ...preferences } });
+        });
+      },
+      async updateProfile(uid, changes) {
+        const profile = userOf(uid).profile;
+        profile.displayName = changes.displayName;
+        profile.photoURL = changes.photoURL;
+        notify(uid);
+      },
+      async setPreferences(uid, preferences) {
+        userOf(uid).profile.preferences = { ...preferences };
+        notify(uid);
+      },
+      async deleteAllData(uid) {
+        users.delete(uid);
+        notify(uid);
+      },
+    },
+
+    budgets: {
+      async setMonthlyBudget(uid, amount) {
+        userOf(uid).profile.monthlyBudget = amount;
+        notify(uid);
+      },
+      async setCategoryBudget(uid, item, limit) {
+        const budgets = userOf(uid).profile.categoryBudgets;
+        if (limit === null) delete budgets[item];
+        else budgets[item] = limit;
+        notify(uid);
+      },
+      async setBudgetCycle(uid, cycle) {
+        userOf(uid).profile.budgetCycle = cycle;
+        notify(uid);
+      },
+      async setRolloverSince(uid, since) {
+        userOf(uid).profile.rolloverSince = since ?? undefined;
+        notify(uid);
+      },
+      watchPeriodRecords(uid, onChange) {
+        return subscribe(uid, () => onChange([...userOf(uid).periods.values()]));
+      },
+      async savePeriodRecord(uid, record) {
+        userOf(uid).periods.set(record.key, { ...record });
+        notify(uid);
+      },
+    },
+
+    expenses: {
+      newId: () => `mem-${nextId++}`,
+      async get(uid, id) {
+        return readExpenses(uid, (_, docId) => docId === id)[0] ?? null;
+      },
+      async save(uid, expense) {
+        userOf(uid).expenses.set(expense.id, withoutUndefined(toExpenseDocument(expense)));
+        notify(uid);
+      },
+      async update(uid, id, changes: ExpenseChanges) {
+        const expenses = userOf(uid).expenses;
+        const current = expenses.get(id);
+        if (!current) throw notFound(pathOf(uid, id));
+        expenses.set(id, { ...current, ...withoutUndefined(changes) });
+        notify(uid);
+      },
+      async remove(uid, id) {
+        userOf(uid).expenses.delete(id);
+        notify(uid);
+      },
+      async restore(uid, id) {
+        const expenses = userOf(uid).expenses;
+        const current = expenses.get(id);
+        if (!current) throw notFound(pathOf(uid, id));
+        const { deletedAt, ...restored } = current;
+        expenses.set(id, restored);
+        notify(uid);
+      },
+      async saveMany(uid, expenses) {
+        const stored = userOf(uid).expenses;
+        expenses.forEach(expense => stored.set(expense.id, withoutUndefined(toExpenseDocument(expense))));
+        notify(uid);
+      },
+      async updateMany(uid, updates) {
+        const stored = userOf(uid).expenses;
+        const missing = updates.find(({ id }) => !stored.has(id));
+        if (missing) throw notFound(pathOf(uid, missing.id));
+        updates.forEach(({ id, changes }) => stored.set(id, { ...stored.get(id)!, ...withoutUndefined(changes) }));
+        notify(uid);
+      },
+      async removeMany(uid, ids) {
+        const stored = userOf(uid).expenses;
+        ids.forEach(id => stored.delete(id));
+        notify(uid);
+      },
+      watchSince(uid, start, onChange) {
+        return subscribe(uid, () => onChange(readExpenses(uid, inRange(start))));
+      },
+      async listBefore(uid, before, pageSize, cursor) {
+        const older = readExpenses(uid, inRange(-Infinity, before));
+        const offset = typeof cursor === 'number' ? cursor : 0;
+        const page = older.slice(offset, offset + pageSize);
+        return { expenses: page, cursor: page.length > 0 ? offset + page.length : null };
+      },
+      async listRange(uid, start, end) {
+        return readExpenses(uid, inRange(start, end));
+      },
+      async listTrashed(uid) {
+        return readExpenses(uid, raw => typeof raw.deletedAt === 'number' && raw.deletedAt > 0)
+          .sort((a, b) => b.deletedAt! - a.deletedAt!);
+      },
+      migrateAll: migrateAllExpenses,
+    },
+
+    categories: {
+      watch(uid, onChange) {
+        return subscribe(uid, () => onChange([...userOf(uid).categories.values()]));
+      },
+      async save(uid, category) {
+        const id = category.id || `cat-${nextId++}`;
+        userOf(uid).categories.set(id, { ...category, id });
+        notify(uid);
+      },
+      async reorder(uid, ordered) {
+        const stored = userOf(uid).categories;
+        ordered.forEach((category, idx) => stored.set(category.id, { ...category, order: idx }));
+        notify(uid);
+      },
+    },
+
+    recurring: {
+      watch(uid, onChange) {
+        return subscribe(uid, () => onChange([...userOf(uid).recurring.values()]));
+      },
+      async save(uid, rule) {
+        const id = rule.id || `rule-${nextId++}`;
+        userOf(uid).recurring.set(id, { ...rule, id });
+        notify(uid);
+      },
+      async remove(uid, id) {
+        userOf(uid).recurring.delete(id);
+        notify(uid);
+      },
+      async materialize(uid, ruleId, expenses, generatedThrough) {
+        const data = userOf(uid);
+        const rule = data.recurring.get(ruleId);
+        if (!rule) throw notFound(`users/${uid}/recurring/${ruleId}`);
+        expenses.forEach(expense => data.expenses.set(expense.id, withoutUndefined(toExpenseDocument(expense))));
+        data.recurring.set(ruleId, { ...rule, generatedThrough });
+        notify(uid);
+      },
+    },
+
+    goals: {
+      watch(uid, onChange) {
+        return subscribe(uid, () => onChange([...userOf(uid).goals.values()]));
+      },
+      async save(uid, goal) {
+        const id = goal.id || `goal-${nextId++}`;
+        userOf(uid).goals.set(id, { ...goal, id });
+        notify(uid);
+      },
+      async remove(uid, id) {
+        userOf(uid).goals.delete(id);
+        notify(uid);
+      },
+      async addContribution(uid, goalId, contribution) {
+        const goals = userOf(uid).goals;
+        const goal = goals.get(goalId);
+        if (!goal || goal.contributions.some(c => c.id === contribution.id)) return;
+        goals.set(goalId, { ...goal, contributions: [...goal.contributions, contribution] });
+        notify(uid);
+      },
+    },
+
+    accounts: {
+      watch(uid, onChange) {
+        return subscribe(uid, () => onChange([...userOf(uid).accounts.values()]));
+      },
+      async save(uid, account) {
+        const id = account.id || `account-${nextId++}`;
+        userOf(uid).accounts.set(id, { ...account, id });
+        notify(uid);
+      },
+      async seedDefault(uid, account) {
+        const accounts = userOf(uid).accounts;
+        if (accounts.size > 0) return;
+        accounts.set(account.id, { ...account });
+        notify(uid);
+      },
+    },
+
+    transfers: {
+      watch(uid, onChange) {
+        return subscribe(uid, () => onChange([...userOf(uid).transfers.values()]));
+      },
+      async save(uid, transfer) {
+        const id = transfer.id || `transfer-${nextId++}`;
+        userOf(uid).transfers.set(id, { ...transfer, id });
+        notify(uid);
+      },
+      async remove(uid, id) {
+        userOf(uid).transfers.delete(id);
+        notify(uid);
+      },
+    },
+  };
+};
@@ -0,0 +1,228 @@
+import { BudgetCycle, Expense, User, UserPreferences } from '../../types';
+import { InvalidDocument, SchemaError, UserProfile } from './types';
+
+// 文件格式版本：寫入時標上 schemaVersion，讀取時依序套用遷移升級到目前版本
+export const EXPENSE_SCHEMA_VERSION = 1;
+export const USER_SCHEMA_VERSION = 1;
+
+export const DEFAULT_MONTHLY_BUDGET = 10000;
+
+type RawDocument = Record<string, unknown>;
+
+// MIGRATIONS[n] 將第 n 版升級為第 n + 1 版；沒有 schemaVersion 的舊文件視為第 0 版
+type Migration = (data: RawDocument) => RawDocument;
+
+// value 為 null 時文件無效，原因列在 errors
+export interface ParseResult<T> {
+  value: T | null;
+  upgraded: boolean;
+  errors: SchemaError[];
+}
+
+const invalidResult = (errors: SchemaError[]) => ({ value: null, upgraded: false, errors });
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// 合理的時間：1970 之後、Date 可表示的範圍內
+const isValidTime = (value: unknown): value is number => isFiniteNumber(value) && value > 0 && value <= 8.64e15;
+
+// 舊資料的時間可能是 Firestore Timestamp、{seconds} 物件、秒數或日期字串，統一為毫秒；無法辨識時原樣保留交給驗證回報
+const toMillis = (value: unknown): unknown => {
+  if (isRecord(value)) {
+    if (typeof value.toMillis === 'function') return (value.toMillis as () => number)();
+    if (isFiniteNumber(value.seconds)) return value.seconds * 1000 + Math.floor((isFiniteNumber(value.nanoseconds) ? value.nanoseconds : 0) / 1e6);
+    return value;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return toMillis(numeric);
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? value : parsed;
+  }
+  // 小於 1e11 的數字不可能是毫秒 (1973 年以前)，視為秒數
+  if (isFiniteNumber(value) && value > 0 && value < 1e11) return value * 1000;
+  return value;
+};
+
+const toAmount = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const numeric = Number(value.replace(/[,\s]/g, ''));
+  return value.trim() && Number.isFinite(numeric) ? numeric : value;
+};
+
+const runMigrations = (raw: RawDocument, migrations: Migration[], current: number): ParseResult<RawDocument> => {
+  const version = raw.schemaVersion === undefined ? 0 : raw.schemaVersion;
+  if (!Number.isInteger(version) || (version as number) < 0) return invalidResult([{ key: 'schema.invalidVersion' }]);
+  if ((version as number) > current) return invalidResult([{ key: 'schema.newerVersion', params: { version: version as number } }]);
+  let data = raw;
+  for (let v = version as number; v < current; v++) data = migrations[v](data);
+  return { value: { ...data, schemaVersion: current }, upgraded: version !== current, errors: [] };
+};
+
+const EXPENSE_MIGRATIONS: Migration[] = [
+  // 0 → 1：時間與金額統一為數字，補上空白說明
+  (data) => ({
+    ...data,
+    timestamp: toMillis(data.timestamp),
+    amount: toAmount(data.amount),
+    description: data.description ?? '',
+    ...(data.deletedAt !== undefined ? { deletedAt: toMillis(data.deletedAt) } : {}),
+  }),
+];
+
+// 驗證並升級收支紀錄文件；日期缺漏或錯誤的紀錄不再以現在時間代替，而是回報為無效
+export const parseExpense = (id: string, raw: RawDocument, uid: string): ParseResult<Expense> => {
+  const migrated = runMigrations(raw, EXPENSE_MIGRATIONS, EXPENSE_SCHEMA_VERSION);
+  const data = migrated.value;
+  if (!data) return invalidResult(migrated.errors);
+  const errors: SchemaError[] = [];
+
+  if (data.timestamp === undefined || data.timestamp === null) errors.push({ key: 'schema.missingDate' });
+  else if (!isValidTime(data.timestamp)) errors.push({ key: 'schema.invalidDate' });
+  if (data.amount === undefined || data.amount === null) errors.push({ key: 'schema.missingAmount' });
+  else if (!isFiniteNumber(data.amount) || data.amount <= 0) errors.push({ key: 'schema.invalidAmount' });
+  if (typeof data.item !== 'string' || !data.item) errors.push({ key: 'schema.missingCategory' });
+  if (typeof data.description !== 'string') errors.push({ key: 'schema.invalidDescription' });
+  if (data.type !== undefined && data.type !== 'expense' && data.type !== 'income') errors.push({ key: 'schema.invalidType' });
+  if (data.tags !== undefined && !(Array.isArray(data.tags) && data.tags.every(tag => typeof tag === 'string'))) errors.push({ key: 'schema.invalidTags' });
+  if (data.account !== undefined && typeof data.account !== 'string') errors.push({ key: 'schema.invalidAccount' });
+  if (data.deletedAt !== undefined && !isValidTime(data.deletedAt)) errors.push({ key: 'schema.invalidDeletedAt' });
+  if (errors.length > 0) return invalidResult(errors);
+
+  const expense: Expense = {
+    id,
+    userId: typeof data.userId === 'string' && data.userId ? data.userId : uid,
+    amount: data.amount as number,
+    item: data.item as string,
+    description: data.description as string,
+    timestamp: data.timestamp as number,
+  };
+  if (data.type !== undefined) expense.type = data.type as Expense['type'];
+  if (data.tags !== undefined) expense.tags = data.tags as string[];
+  if (data.account !== undefined) expense.account = data.account as string;
+  if (data.deletedAt !== undefined) expense.deletedAt = data.deletedAt as number;
+  return { value: expense, upgraded: migrated.upgraded, errors: [] };
+};
+
+// 寫入 Firestore 的收支紀錄文件
+export const toExpenseDocument = (expense: Expense) => ({ ...expense, schemaVersion: EXPENSE_SCHEMA_VERSION });
+
+// 新使用者文件，註冊與登入時建立文件都使用這個格式
+export const buildUserDocument = (user: User, now = Date.now()) => ({
+  schemaVersion: USER_SCHEMA_VERSION,
+  expenseSchemaVersion: EXPENSE_SCHEMA_VERSION, // 全部收支紀錄已升級到的版本，新使用者沒有舊紀錄
+  email: user.email,
+  displayName: user.displayName ?? null,
+  photoURL: user.photoURL ?? null,
+  createdAt: now,
+  lastLogin: now,
+  monthlyBudget: DEFAULT_MONTHLY_BUDGET,
+  categoryBudgets: {},
+  preferences: {},
+});
+
+const USER_MIGRATIONS: Migration[] = [
+  // 0 → 1：註冊頁建立的文件缺少預算與偏好欄位，時間統一為毫秒
+  (data) => ({
+    ...data,
+    createdAt: toMillis(data.createdAt),
+    lastLogin: toMillis(data.lastLogin),
+    monthlyBudget: data.monthlyBudget === undefined ? DEFAULT_MONTHLY_BUDGET : toAmount(data.monthlyBudget),
+    categoryBudgets: data.categoryBudgets ?? {},
+    preferences: data.preferences ?? {},
+  }),
+];
+
+const isBudgetCycle = (value: unknown): value is BudgetCycle => {
+  if (!isRecord(value)) return false;
+  if (value.kind === 'calendar') return true;
+  if (value.kind === 'startDay') return Number.isInteger(value.day) && (value.day as number) >= 1 && (value.day as number) <= 31;
+  if (value.kind === 'custom') {
+    return Array.isArray(value.ranges) && value.ranges.every(range =>
+      isRecord(range) && typeof range.id === 'string' && typeof range.label === 'string'
+      && isValidTime(range.start) && isValidTime(range.end) && range.start < range.end
+      && (range.budget === undefined || (isFiniteNumber(range.budget) && range.budget >= 0)));
+  }
+  return false;
+};
+
+export interface UserDocumentResult {
+  profile: UserProfile;
+  upgraded: RawDocument | null; // 需要寫回的新版文件，已是最新版時為 null
+  errors: SchemaError[];
+}
+
+// 使用者文件無效的欄位改用預設值並回報，不讓整個 App 無法使用
+export const parseUserDocument = (raw: RawDocument): UserDocumentResult => {
+  const migrated = runMigrations(raw, USER_MIGRATIONS, USER_SCHEMA_VERSION);
+  const data = migrated.value;
+  if (!data) return { profile: { categoryBudgets: {}, preferences: {} }, upgraded: null, errors: migrated.errors };
+  const errors: SchemaError[] = [];
+  const profile: UserProfile = { categoryBudgets: {}, preferences: {} };
+
+  if (isFiniteNumber(data.monthlyBudget) && data.monthlyBudget >= 0) profile.monthlyBudget = data.monthlyBudget;
+  else errors.push({ key: 'schema.invalidMonthlyBudget' });
+
+  if (isRecord(data.categoryBudgets)) {
+    Object.entries(data.categoryBudgets).forEach(([item, value]) => {
+      if (isFiniteNumber(value) && value > 0) profile.categoryBudgets[item] = value;
+      else errors.push({ key: 'schema.invalidCategoryBudget', params: { item } });
+    });
+  } else {
+    errors.push({ key: 'schema.invalidCategoryBudgets' });
+  }
+
+  if (data.budgetCycle !== undefined) {
+    if (isBudgetCycle(data.budgetCycle)) profile.budgetCycle = data.budgetCycle;
+    else errors.push({ key: 'schema.invalidBudgetCycle' });
+  }
+  if (data.rolloverSince !== undefined) {
+    if (isValidTime(data.rolloverSince)) profile.rolloverSince = data.rolloverSince;
+    else errors.push({ key: 'schema.invalidRolloverSince' });
+  }
+  if (typeof data.displayName === 'string') profile.displayName = data.displayName;
+  if (typeof data.photoURL === 'string') profile.photoURL = data.photoURL;
+
+  if (isRecord(data.preferences)) {
+    (['currency', 'defaultCategory', 'language'] as Array<keyof UserPreferences>).forEach(key => {
+      const value = (data.preferences as RawDocument)[key];
+      if (value === undefined) return;
+      if (typeof value === 'string') profile.preferences[key] = value;
+      else errors.push({ key: 'schema.invalidPreference', params: { key } });
+    });
+  } else {
+    errors.push({ key: 'schema.invalidPreferences' });
+  }
+
+  return { profile, upgraded: migrated.upgraded ? data : null, errors };
+};
+
+// 讀取時發現的無效文件，依路徑記錄；之後讀到有效版本 (例如已修正) 時移除
+const invalidDocuments = new Map<string, InvalidDocument>();
+const invalidListeners = new Set<(documents: InvalidDocument[]) => void>();
+
+const notifyInvalid = () => {
+  const documents = [...invalidDocuments.values()];
+  invalidListeners.forEach(listener => listener(documents));
+};
+
+export const reportInvalidDocument = (document: InvalidDocument) => {
+  const previous = invalidDocuments.get(document.path);
+  if (previous && JSON.stringify(previous.errors) === JSON.stringify(document.errors)) return;
+  console.error('[Schema] 文件格式錯誤:', document.path, document.errors);
+  invalidDocuments.set(document.path, document);
+  notifyInvalid();
+};
+
+export const clearInvalidDocument = (path: string) => {
+  if (invalidDocuments.delete(path)) notifyInvalid();
+};
+
+export const watchInvalidDocuments = (listener: (documents: InvalidDocument[]) => void) => {
+  invalidListeners.add(listener);
+  listener([...invalidDocuments.values()]);
+  return () => { invalidListeners.delete(listener); };
+};
@@ -0,0 +1,156 @@
+import { AccountTransfer, BudgetCycle, BudgetPeriodRecord, Category, Expense, GoalContribution, PaymentAccount, RecurringRule, SavingsGoal, User, UserPreferences } from '../../types';
+import { MessageKey } from '../locales/zh-TW';
+
+// 資料存取層：App 只依賴這些介面，實作可以是 Firebase 或記憶體
+
+export type Unsubscribe = () => void;
+export type ErrorHandler = (error: Error) => void;
+
+// 目前的登入狀態；登入、註冊與重新驗證 (services/account) 需要 Firebase Auth 的彈窗與憑證，仍直接使用 Firebase
+export interface AuthRepository {
+  // 訂閱後先回報目前狀態，未登入時為 null
+  watch(onChange: (user: User | null) => void): Unsubscribe;
+  signOut(): Promise<void>;
+  updateProfile(changes: { displayName?: string; photoURL?: string }): Promise<void>;
+  // 刪除登入帳號，敏感操作需先重新驗證
+  deleteUser(): Promise<void>;
+}
+
+export interface UserProfile {
+  monthlyBudget?: number;
+  categoryBudgets: Record<string, number>;
+  budgetCycle?: BudgetCycle;
+  rolloverSince?: number; // 啟用結轉模式時，從這個時間所在的週期開始累計
+  displayName?: string;
+  photoURL?: string;
+  preferences: UserPreferences;
+}
+
+export interface UserRepository {
+  // 登入後確保使用者文件存在，並更新最後登入時間；收支紀錄尚未全部升級到目前版本時執行一次 migrateAll
+  ensureProfile(user: User): Promise<void>;
+  watchProfile(uid: string, onChange: (profile: UserProfile) => void, onError?: ErrorHandler): Unsubscribe;
+  updateProfile(uid: string, changes: { displayName?: string; photoURL?: string }): Promise<void>;
+  setPreferences(uid: string, preferences: UserPreferences): Promise<void>;
+  // 刪除使用者文件與所有子集合，用於刪除帳號
+  deleteAllData(uid: string): Promise<void>;
+}
+
+export interface BudgetRepository {
+  setMonthlyBudget(uid: string, amount: number): Promise<void>;
+  // limit 為 null 時移除該分類的預算
+  setCategoryBudget(uid: string, item: string, limit: number | null): Promise<void>;
+  setBudgetCycle(uid: string, cycle: BudgetCycle): Promise<void>;
+  // since 為 null 時關閉結轉模式
+  setRolloverSince(uid: string, since: number | null): Promise<void>;
+  watchPeriodRecords(uid: string, onChange: (records: BudgetPeriodRecord[]) => void, onError?: ErrorHandler): Unsubscribe;
+  savePeriodRecord(uid: string, record: BudgetPeriodRecord): Promise<void>;
+}
+
+export type ExpenseChanges = Partial<Omit<Expense, 'id' | 'userId'>>;
+
+// 分頁游標由實作自行定義，呼叫端只負責原樣傳回
+export type PageCursor = unknown;
+
+export interface ExpenseUpdate {
+  id: string;
+  changes: ExpenseChanges;
+}
+
+export interface ExpensePage {
+  expenses: Expense[];
+  cursor: PageCursor | null;
+}
+
+// 無法通過驗證的文件，不顯示在畫面上，改列出供使用者處理
+// 文件格式錯誤的原因，以訊息代碼記錄，顯示時才依目前語言翻譯
+export interface SchemaError {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+export interface InvalidDocument {
+  path: string; // 例如 users/{uid}/expenses/{id}
+  id: string;
+  errors: SchemaError[];
+}
+
+// 一次性檢查並升級全部紀錄的結果
+export interface MigrationReport {
+  checked: number;
+  upgraded: number;
+  invalid: InvalidDocument[];
+}
+
+export interface ExpenseRepository {
+  newId(uid: string): string;
+  // 不存在時回傳 null
+  get(uid: string, id: string): Promise<Expense | null>;
+  save(uid: string, expense: Expense): Promise<void>;
+  // 文件不存在時以 code 'not-found' 的錯誤拒絕
+  update(uid: string, id: string, changes: ExpenseChanges): Promise<void>;
+  remove(uid: string, id: string): Promise<void>;
+  // 從垃圾桶還原 (移除 deletedAt)，文件不存在時以 code 'not-found' 的錯誤拒絕
+  restore(uid: string, id: string): Promise<void>;
+  saveMany(uid: string, expenses: Expense[]): Promise<void>;
+  // 批次更新多筆紀錄，任一文件不存在時以 code 'not-found' 的錯誤拒絕
+  updateMany(uid: string, updates: ExpenseUpdate[]): Promise<void>;
+  removeMany(uid: string, ids: string[]): Promise<void>;
+  // 即時訂閱 timestamp >= start 的紀錄，由新到舊
+  watchSince(uid: string, start: number, onChange: (expenses: Expense[]) => void, onError?: ErrorHandler): Unsubscribe;
+  // timestamp < before 的紀錄，由新到舊分頁
+  listBefore(uid: string, before: number, pageSize: number, cursor: PageCursor | null): Promise<ExpensePage>;
+  listRange(uid: string, start: number, end: number): Promise<Expense[]>;
+  // 垃圾桶中的紀錄，依刪除時間由新到舊
+  listTrashed(uid: string): Promise<Expense[]>;
+  // 逐批讀取全部紀錄 (包含缺少日期、查詢不到的文件)，將舊版文件升級為目前版本並回報無效的文件
+  migrateAll(uid: string): Promise<MigrationReport>;
+}
+
+export interface CategoryRepository {
+  watch(uid: string, onChange: (stored: Category[]) => void, onError?: ErrorHandler): Unsubscribe;
+  save(uid: string, category: Omit<Category, 'id'> & { id?: string }): Promise<void>;
+  reorder(uid: string, ordered: Category[]): Promise<void>;
+}
+
+export interface RecurringRepository {
+  watch(uid: string, onChange: (rules: RecurringRule[]) => void, onError?: ErrorHandler): Unsubscribe;
+  save(uid: string, rule: Omit<RecurringRule, 'id'> & { id?: string }): Promise<void>;
+  remove(uid: string, id: string): Promise<void>;
+  // 寫入到期的紀錄並更新規則的 generatedThrough，兩者一起成功或失敗
+  materialize(uid: string, ruleId: string, expenses: Expense[], generatedThrough: number): Promise<void>;
+}
+
+export interface GoalRepository {
+  watch(uid: string, onChange: (goals: SavingsGoal[]) => void, onError?: ErrorHandler): Unsubscribe;
+  save(uid: string, goal: Omit<SavingsGoal, 'id'> & { id?: string }): Promise<void>;
+  remove(uid: string, id: string): Promise<void>;
+  // 已有相同編號的存入紀錄時不重複加入
+  addContribution(uid: string, goalId: string, contribution: GoalContribution): Promise<void>;
+}
+
+export interface AccountRepository {
+  watch(uid: string, onChange: (accounts: PaymentAccount[]) => void, onError?: ErrorHandler): Unsubscribe;
+  // 帳戶不刪除，停用時改為封存，既有紀錄仍可對應
+  save(uid: string, account: Omit<PaymentAccount, 'id'> & { id?: string }): Promise<void>;
+  // 還沒有任何帳戶時建立預設帳戶，以伺服器上的資料判斷，離線時失敗而不建立
+  seedDefault(uid: string, account: PaymentAccount): Promise<void>;
+}
+
+export interface TransferRepository {
+  watch(uid: string, onChange: (transfers: AccountTransfer[]) => void, onError?: ErrorHandler): Unsubscribe;
+  save(uid: string, transfer: Omit<AccountTransfer, 'id'> & { id?: string }): Promise<void>;
+  remove(uid: string, id: string): Promise<void>;
+}
+
+export interface Repository {
+  auth: AuthRepository;
+  users: UserRepository;
+  budgets: BudgetRepository;
+  expenses: ExpenseRepository;
+  categories: CategoryRepository;
+  recurring: RecurringRepository;
+  goals: GoalRepository;
+  accounts: AccountRepository;
+  transfers: TransferRepository;
+}
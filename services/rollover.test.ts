@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Expense } from '../types';
+import { monthPeriod } from './period';
+import { periodsToClose, rolloverHistory, savedThisYear } from './rollover';
+
+const CALENDAR = { kind: 'calendar' as const };
+
+const spend = (id: string, amount: number, month: number): Expense => ({
+  id, userId: 'u1', type: 'expense', amount, item: 'Food', description: '', timestamp: new Date(2026, month, 10).getTime(),
+});
+
+const expenses = [spend('jan', 8000, 0), spend('feb', 9000, 1), spend('apr', 1000, 3)];
+const february = monthPeriod(2026, 1);
+const records = [{ key: february.key, label: february.label, start: february.start, end: february.end, budget: 5000 }];
+const since = new Date(2026, 0, 5).getTime();
+const april = monthPeriod(2026, 3);
+
+describe('rolloverHistory', () => {
+  it('carries the surplus or overspending into the next period', () => {
+    const rows = rolloverHistory(CALENDAR, expenses, records, 10000, since, april);
+    expect(rows.map(r => [r.period.key, r.budget, r.carryIn, r.available, r.carryOut, r.closed])).toEqual([
+      ['2026-01', 10000, 0, 10000, 2000, true],
+      ['2026-02', 5000, 2000, 7000, -2000, true],
+      ['2026-03', 10000, -2000, 8000, 8000, true],
+      ['2026-04', 10000, 8000, 18000, 17000, false],
+    ]);
+  });
+
+  it('does not carry what was set aside for goals', () => {
+    const rows = rolloverHistory(CALENDAR, expenses, records, 10000, since, april, new Map([['2026-03', 3000]]));
+    expect(rows[2]).toMatchObject({ setAside: 3000, carryOut: 5000 });
+    expect(rows[3].carryIn).toBe(5000);
+  });
+});
+
+describe('periodsToClose', () => {
+  it('snapshots closed periods that have no record yet', () => {
+    const rows = rolloverHistory(CALENDAR, expenses, records, 10000, since, april);
+    expect(periodsToClose(rows, records).map(r => [r.key, r.budget])).toEqual([['2026-01', 10000], ['2026-03', 10000]]);
+  });
+});
+
+describe('savedThisYear', () => {
+  it('sums budget minus spending of this year\'s closed periods', () => {
+    const rows = rolloverHistory(CALENDAR, expenses, records, 10000, since, april);
+    expect(savedThisYear(rows, april.start)).toBe(2000 - 4000 + 10000);
+  });
+});
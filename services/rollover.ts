@@ -0,0 +1,61 @@
+import { BudgetCycle, BudgetPeriodRecord, Expense } from '../types';
+import { Period, cyclePeriodOf, shiftCyclePeriod } from './period';
+import { summarizePeriod } from './stats';
+
+// 最多往回計算的週期數，避免設定錯誤時無限迴圈
+const MAX_PERIODS = 120;
+
+export interface RolloverRow {
+  period: Period;
+  budget: number;
+  spent: number;
+  carryIn: number; // 上期結轉，負數代表上期超支
+  available: number; // 本期可用 = 預算 + 上期結轉
+  setAside: number; // 存入儲蓄目標的結餘
+  carryOut: number; // 結轉到下期
+  closed: boolean;
+}
+
+// 從 since 所在的週期逐期計算到 current；已結束的週期以快照的預算為準，存入儲蓄目標的結餘不再結轉
+export const rolloverHistory = (
+  cycle: BudgetCycle,
+  expenses: Expense[],
+  records: BudgetPeriodRecord[],
+  defaultBudget: number,
+  since: number,
+  current: Period,
+  setAside: Map<string, number> = new Map()
+): RolloverRow[] => {
+  const recordByKey = new Map(records.map(r => [r.key, r]));
+  const rows: RolloverRow[] = [];
+  let period: Period | null = cyclePeriodOf(cycle, since);
+  let carry = 0;
+
+  while (period && period.start <= current.start && rows.length < MAX_PERIODS) {
+    const closed = period.end <= current.start;
+    const budget = (closed ? recordByKey.get(period.key)?.budget : undefined) ?? period.budget ?? defaultBudget;
+    const spent = summarizePeriod(expenses, period.start, period.end).total;
+    const available = budget + carry;
+    const saved = setAside.get(period.key) || 0;
+    rows.push({ period, budget, spent, carryIn: carry, available, setAside: saved, carryOut: available - spent - saved, closed });
+    carry = available - spent - saved;
+    period = shiftCyclePeriod(cycle, period, 1);
+  }
+  return rows;
+};
+
+// 已結束但尚未留下預算快照的週期
+export const periodsToClose = (rows: RolloverRow[], records: BudgetPeriodRecord[]): BudgetPeriodRecord[] => {
+  const recorded = new Set(records.map(r => r.key));
+  return rows
+    .filter(row => row.closed && !recorded.has(row.period.key))
+    .map(({ period, budget }) => ({ key: period.key, label: period.label, start: period.start, end: period.end, budget }));
+};
+
+// 今年已結束的週期累計省下的金額 (預算 - 支出，超支為負)
+export const savedThisYear = (rows: RolloverRow[], now = Date.now()) => {
+  const year = new Date(now).getFullYear();
+  return rows
+    .filter(row => row.closed && new Date(row.period.start).getFullYear() === year)
+    .reduce((sum, row) => sum + row.budget - row.spent, 0);
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute, routePath } from './router';
+
+describe('parseRoute', () => {
+  it('reads static, edit and report paths', () => {
+    expect(parseRoute('/')).toEqual({ view: 'DASHBOARD' });
+    expect(parseRoute('/settings/')).toEqual({ view: 'SETTINGS' });
+    expect(parseRoute('/expenses/a%2Fb/edit')).toEqual({ view: 'EDIT_EXPENSE', expenseId: 'a/b' });
+    expect(parseRoute('/report/2026-09')).toEqual({ view: 'REPORT', periodKey: '2026-09' });
+    expect(parseRoute('/report')).toEqual({ view: 'REPORT', periodKey: undefined });
+  });
+
+  it('keeps next only on public views', () => {
+    expect(parseRoute('/login', '?next=%2Fgoals')).toEqual({ view: 'LOGIN', next: '/goals' });
+    expect(parseRoute('/goals', '?next=%2Fsettings')).toEqual({ view: 'GOALS' });
+  });
+
+  it('returns null for unknown or malformed paths', () => {
+    expect(parseRoute('/nope')).toBeNull();
+    expect(parseRoute('/expenses/%E0/edit')).toBeNull();
+    expect(parseRoute('/report/%')).toBeNull();
+  });
+});
+
+describe('routePath', () => {
+  it('round-trips through parseRoute', () => {
+    const routes = [
+      { view: 'EDIT_EXPENSE' as const, expenseId: 'id with space/slash' },
+      { view: 'REPORT' as const, periodKey: 'custom-115-1' },
+      { view: 'REGISTER' as const, next: '/expenses/new' },
+    ];
+    routes.forEach(route => {
+      const [pathname, search] = routePath(route).split('?');
+      expect(parseRoute(pathname, search ? `?${search}` : '')).toEqual(route);
+    });
+  });
+});
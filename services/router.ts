@@ -0,0 +1,69 @@
+import { AppView } from '../types';
+
+// 網址對應的畫面；next 為登入後要回到的路徑
+export interface Route {
+  view: AppView;
+  expenseId?: string; // EDIT_EXPENSE
+  periodKey?: string; // REPORT，例如 2026-09 或 custom-xxx
+  next?: string; // LOGIN、REGISTER
+}
+
+const STATIC_PATHS: Partial<Record<AppView, string>> = {
+  LOGIN: '/login',
+  REGISTER: '/register',
+  WELCOME: '/welcome',
+  DASHBOARD: '/',
+  ADD_EXPENSE: '/expenses/new',
+  CATEGORIES: '/categories',
+  DATA: '/data',
+  RECURRING: '/recurring',
+  GOALS: '/goals',
+  TRASH: '/trash',
+  SETTINGS: '/settings',
+  ACCOUNTS: '/accounts',
+};
+
+const PUBLIC_VIEWS: AppView[] = ['LOGIN', 'REGISTER'];
+
+export const isPublicView = (view: AppView) => PUBLIC_VIEWS.includes(view);
+
+// 無法辨識的網址 (包含編碼錯誤，例如 /expenses/%E0) 回傳 null，由呼叫端導回首頁
+export const parseRoute = (pathname: string, search = ''): Route | null => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+
+  const editMatch = segments.length === 3 && segments[0] === 'expenses' && segments[2] === 'edit';
+  if (editMatch) return { view: 'EDIT_EXPENSE', expenseId: segments[1] };
+  if (segments[0] === 'report' && segments.length <= 2) return { view: 'REPORT', periodKey: segments[1] };
+
+  const view = (Object.keys(STATIC_PATHS) as AppView[]).find(v => STATIC_PATHS[v] === path);
+  if (!view) return null;
+  const next = isPublicView(view) ? new URLSearchParams(search).get('next') || undefined : undefined;
+  return next ? { view, next } : { view };
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.view) {
+    case 'EDIT_EXPENSE':
+      return route.expenseId ? `/expenses/${encodeURIComponent(route.expenseId)}/edit` : '/';
+    case 'REPORT':
+      return route.periodKey ? `/report/${encodeURIComponent(route.periodKey)}` : '/report';
+    default: {
+      const path = STATIC_PATHS[route.view] || '/';
+      return route.next ? `${path}?next=${encodeURIComponent(route.next)}` : path;
+    }
+  }
+};
+
+// 登入後的目的地；只接受站內路徑，避免被導向外部網站
+export const routeAfterLogin = (next?: string): Route => {
+  if (!next || !next.startsWith('/') || next.startsWith('//')) return { view: 'WELCOME' };
+  const url = new URL(next, window.location.origin);
+  const route = parseRoute(url.pathname, url.search);
+  return route && !isPublicView(route.view) ? route : { view: 'WELCOME' };
+};
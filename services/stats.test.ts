@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { budgetUsage, findOverBudget } from './stats';
+
+describe('budgetUsage', () => {
+  it('reports the share of a positive budget', () => {
+    expect(budgetUsage(2500, 10000)).toEqual({ percent: 25, over: false });
+    expect(budgetUsage(12000, 10000)).toEqual({ percent: 120, over: true });
+  });
+
+  it('shows any spending against a zero or negative budget as over budget', () => {
+    expect(budgetUsage(0, 0)).toEqual({ percent: 0, over: false });
+    expect(budgetUsage(300, 0)).toEqual({ percent: 100, over: true });
+    expect(budgetUsage(0, -500)).toEqual({ percent: 100, over: true });
+  });
+});
+
+describe('findOverBudget', () => {
+  it('ignores categories without a limit', () => {
+    expect(findOverBudget({ Food: 3200, Transport: 100 }, { Food: 3000, Transport: 0 })).toEqual([{ item: 'Food', spent: 3200, limit: 3000 }]);
+  });
+});
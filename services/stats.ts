@@ -0,0 +1,82 @@
+import { Expense } from '../types';
+
+// 舊資料沒有 type 欄位，一律視為支出
+export const isIncome = (expense: Expense) => expense.type === 'income';
+
+// 統計區間內各分類的支出金額
+export const spendingByCategory = (expenses: Expense[], start: number, end: number) => {
+  const totals: Record<string, number> = {};
+  expenses.forEach(e => {
+    if (isIncome(e) || e.timestamp < start || e.timestamp >= end) return;
+    totals[e.item] = (totals[e.item] || 0) + e.amount;
+  });
+  return totals;
+};
+
+export interface BudgetOverrun {
+  item: string;
+  spent: number;
+  limit: number;
+}
+
+// 找出已超過分類預算的項目
+export const findOverBudget = (spending: Record<string, number>, budgets: Record<string, number>): BudgetOverrun[] => {
+  return Object.entries(budgets)
+    .filter(([item, limit]) => limit > 0 && (spending[item] || 0) > limit)
+    .map(([item, limit]) => ({ item, spent: spending[item] || 0, limit }));
+};
+
+// 預算使用比例；預算為 0 或因結轉超支而為負數時無法計算比例，超支即以 100% 顯示
+export const budgetUsage = (spent: number, budget: number) => {
+  const over = spent > budget;
+  if (budget <= 0) return { percent: over ? 100 : 0, over };
+  return { percent: (spent / budget) * 100, over };
+};
+
+export interface PeriodSummary {
+  total: number; // 支出總額
+  income: number;
+  net: number;
+  byCategory: Record<string, number>; // 各分類支出
+}
+
+// 彙總區間內的收入、支出與分類支出
+export const summarizePeriod = (expenses: Expense[], start: number, end: number): PeriodSummary => {
+  let income = 0;
+  expenses.forEach(e => {
+    if (isIncome(e) && e.timestamp >= start && e.timestamp < end) income += e.amount;
+  });
+  const byCategory = spendingByCategory(expenses, start, end);
+  const total = Object.values(byCategory).reduce((sum, v) => sum + v, 0);
+  return { total, income, net: income - total, byCategory };
+};
+
+export interface PacePoint {
+  label: string; // 日期 (日)
+  spent: number | null; // 累計支出，未來日期為 null
+  pace: number; // 依預算平均分配的累計金額
+}
+
+// 逐日累計支出，並與平均花用預算的進度線對照
+export const dailyCumulative = (expenses: Expense[], start: number, end: number, budget: number): PacePoint[] => {
+  const days: number[] = [];
+  for (let d = new Date(start); d.getTime() < end; d.setDate(d.getDate() + 1)) days.push(d.getTime());
+
+  const daily = new Array(days.length).fill(0);
+  expenses.forEach(e => {
+    if (isIncome(e) || e.timestamp < start || e.timestamp >= end) return;
+    const idx = days.findIndex((dayStart, i) => e.timestamp >= dayStart && (i === days.length - 1 || e.timestamp < days[i + 1]));
+    if (idx >= 0) daily[idx] += e.amount;
+  });
+
+  const now = Date.now();
+  let running = 0;
+  return days.map((dayStart, i) => {
+    running += daily[i];
+    return {
+      label: `${new Date(dayStart).getDate()}`,
+      spent: dayStart <= now ? running : null,
+      pace: Math.round((budget * (i + 1)) / days.length),
+    };
+  });
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Expense } from '../types';
+import { MAX_TAG_LENGTH, collectTags, hasTag, normalizeTag, normalizeTags, spendingByTag } from './tags';
+
+const expense = (id: string, amount: number, tags: string[], day = 10, income = false): Expense => ({
+  id, userId: 'u1', type: income ? 'income' : 'expense', amount, item: 'Food', description: '', timestamp: new Date(2026, 8, day).getTime(), tags,
+});
+
+describe('normalizeTags', () => {
+  it('trims, drops the leading # and collapses spaces', () => {
+    expect(normalizeTag('  ##畢業   旅行 ')).toBe('畢業 旅行');
+    expect(normalizeTag('x'.repeat(30))).toHaveLength(MAX_TAG_LENGTH);
+  });
+
+  it('removes empty and case-insensitive duplicates, keeping the first spelling', () => {
+    expect(normalizeTags(['Trip', '#trip', ' ', 'TRIP ', '聚餐'])).toEqual(['Trip', '聚餐']);
+  });
+});
+
+describe('collectTags', () => {
+  it('orders tags by use, ignoring case', () => {
+    const expenses = [expense('a', 1, ['聚餐', 'Trip']), expense('b', 1, ['trip']), expense('c', 1, ['Book'])];
+    expect(collectTags(expenses)).toEqual(['Trip', 'Book', '聚餐']);
+    expect(hasTag(expenses[1], 'TRIP')).toBe(true);
+  });
+});
+
+describe('spendingByTag', () => {
+  it('counts each spending once per tag within the range', () => {
+    const expenses = [
+      expense('a', 300, ['Trip', '聚餐']),
+      expense('b', 200, ['trip']),
+      expense('c', 5000, ['Trip'], 10, true),
+      expense('d', 900, ['Trip'], 30),
+    ];
+    expect(spendingByTag(expenses, new Date(2026, 8, 1).getTime(), new Date(2026, 8, 30).getTime())).toEqual([
+      { tag: 'Trip', total: 500, count: 2 },
+      { tag: '聚餐', total: 300, count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { Expense } from '../types';
+import { isIncome } from './stats';
+
+export const MAX_TAG_LENGTH = 20;
+
+// 去除前後空白與開頭的 #，連續空白合併為一個
+export const normalizeTag = (raw: string) =>
+  raw.trim().replace(/^#+/, '').replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim();
+
+// 正規化並去除重複 (不分大小寫)，保留第一次出現的寫法
+export const normalizeTags = (raw: string[]) => {
+  const seen = new Set<string>();
+  return raw.map(normalizeTag).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const expenseTags = (expense: Expense) => expense.tags ?? [];
+
+export const hasTag = (expense: Expense, tag: string) =>
+  expenseTags(expense).some(existing => existing.toLowerCase() === tag.toLowerCase());
+
+// 用過的標籤，依使用次數由多到少，用於自動完成與篩選
+export const collectTags = (expenses: Expense[]) => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  expenses.forEach(e => expenseTags(e).forEach(tag => {
+    const key = tag.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { tag, count: 1 });
+  }));
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)).map(e => e.tag);
+};
+
+export interface TagSpending {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+// 統計區間內各標籤的支出；一筆紀錄有多個標籤時每個標籤都會計入
+export const spendingByTag = (expenses: Expense[], start: number, end: number): TagSpending[] => {
+  const totals = new Map<string, TagSpending>();
+  expenses.forEach(e => {
+    if (isIncome(e) || e.timestamp < start || e.timestamp >= end) return;
+    expenseTags(e).forEach(tag => {
+      const key = tag.toLowerCase();
+      const entry = totals.get(key) ?? { tag, total: 0, count: 0 };
+      entry.total += e.amount;
+      entry.count++;
+      totals.set(key, entry);
+    });
+  });
+  return [...totals.values()].sort((a, b) => b.total - a.total);
+};
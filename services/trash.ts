@@ -0,0 +1,15 @@
+import { Expense } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 移到垃圾桶的紀錄保留天數，之後開啟 App 時永久刪除
+export const TRASH_RETENTION_DAYS = 30;
+
+export const isTrashed = (expense: Expense) => expense.deletedAt !== undefined;
+
+export const isTrashExpired = (expense: Expense, now = Date.now()) =>
+  isTrashed(expense) && now - expense.deletedAt! >= TRASH_RETENTION_DAYS * DAY_MS;
+
+// 距離永久刪除還有幾天 (至少 1 天)
+export const trashDaysLeft = (expense: Expense, now = Date.now()) =>
+  Math.max(Math.ceil((expense.deletedAt! + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS), 1);
@@ -0,0 +1,28 @@
+import type { Config } from 'tailwindcss';
+import forms from '@tailwindcss/forms';
+import containerQueries from '@tailwindcss/container-queries';
+
+export default {
+  content: ['./index.html', './*.tsx', './{components,hooks,pages,services}/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      colors: {
+        primary: "#135bec",
+        "primary-dark": "#1E40AF",
+        "primary-light": "#EFF6FF",
+        "primary-soft": "#DBEAFE",
+        background: "#F8FAFC",
+        surface: "#FFFFFF",
+        "text-main": "#1E3A8A",
+        "text-muted": "#60A5FA",
+        "border-light": "#BFDBFE"
+      },
+      // Noto Sans TC 未隨程式打包，未安裝時中文改用系統字型
+      fontFamily: {
+        sans: ['Noto Sans TC', 'Manrope', 'PingFang TC', 'Microsoft JhengHei', 'sans-serif'],
+        display: ['Manrope', 'Noto Sans TC', 'PingFang TC', 'Microsoft JhengHei', 'sans-serif']
+      }
+    }
+  },
+  plugins: [forms, containerQueries],
+} satisfies Config;
@@ -10,6 +10,16 @@ export enum ExpenseItem {
   OTHER = 'other'
 }
 
+export enum IncomeItem {
+  WAGE = 'wage',
+  SCHOLARSHIP = 'scholarship',
+  ALLOWANCE = 'allowance',
+  OTHER_INCOME = 'other_income'
+}
+
+// 收支類型：支出或收入
+export type TransactionType = 'expense' | 'income';
+
 export interface User {
   uid: string;
   email: string;
@@ -20,10 +30,126 @@ export interface User {
 export interface Expense {
   id: string; // 獨一無二的編號
   userId: string;
+  type?: TransactionType; // 收支類型，舊資料未設定時視為支出
   amount: number;
-  item: ExpenseItem; // 支出項目 (存儲英文代碼)
+  item: string; // 分類編號 (內建分類沿用 ExpenseItem / IncomeItem 英文代碼)
   description: string;
   timestamp: number; // 統一為數字格式
+  tags?: string[]; // 自由標籤，例如「畢業旅行」，可跨分類統計
+  account?: string; // 付款帳戶編號，舊資料未設定
+  deletedAt?: number; // 移到垃圾桶的時間，保留 30 天後永久刪除
+}
+
+// 表單送出的收支內容
+export interface ExpenseDraft {
+  type: TransactionType;
+  amount: number;
+  item: string;
+  description: string;
+  timestamp: number;
+  tags: string[];
+  account: string;
+}
+
+// 使用者自訂分類，存於 users/{uid}/categories
+export interface Category {
+  id: string;
+  kind: TransactionType;
+  label: string;
+  icon: string; // Material Symbols 圖示名稱
+  color: string;
+  order: number;
+  archived?: boolean;
+}
+
+// 固定收支規則，存於 users/{uid}/recurring
+export type RecurringFrequency = 'monthly' | 'weekly';
+
+export interface RecurringRule {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  item: string;
+  description: string;
+  frequency: RecurringFrequency;
+  day: number; // 每月第幾天 (1-31，超過月底以月底計) 或星期幾 (0 = 週日)
+  startDate: number; // 從這一天起產生
+  endDate?: number; // 結束後不再產生
+  paused?: boolean;
+  generatedThrough?: number; // 已產生到的時間點，之後才補產生
+  account?: string; // 產生的紀錄使用的付款帳戶
+}
+
+// 預算週期：日曆月、每月固定日期起算，或自訂區間 (例如學期)，存於 users/{uid}.budgetCycle
+export interface CustomCycleRange {
+  id: string;
+  label: string;
+  start: number;
+  end: number; // 不含，為結束日隔天 00:00
+  budget?: number; // 這個區間的預算，未設定時沿用每期預算
+}
+
+export type BudgetCycle =
+  | { kind: 'calendar' }
+  | { kind: 'startDay'; day: number }
+  | { kind: 'custom'; ranges: CustomCycleRange[] };
+
+// 已結束週期的預算快照，存於 users/{uid}/periods/{key}；支出金額由紀錄即時計算
+export interface BudgetPeriodRecord {
+  key: string;
+  label: string;
+  start: number;
+  end: number;
+  budget: number;
+}
+
+// 使用者偏好，存於 users/{uid} 的 preferences 欄位
+export interface UserPreferences {
+  currency?: string; // 顯示金額使用的幣別代碼，例如 TWD
+  defaultCategory?: string; // 新增支出時預先選取的分類
+  language?: string; // 介面語言，例如 zh-TW、en；未設定時依瀏覽器語言
+}
+
+// 儲蓄目標，存於 users/{uid}/goals
+export interface GoalContribution {
+  id: string; // 預算結餘自動存入時為 surplus-{週期 key}，避免重複存入
+  amount: number;
+  timestamp: number;
+  source: 'manual' | 'surplus';
+  periodKey?: string; // 來自哪一期的結餘
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  target: number;
+  deadline: number;
+  createdAt: number;
+  autoFromSurplus: boolean; // 每期結束時自動存入預算結餘
+  contributions: GoalContribution[];
+}
+
+// 付款帳戶 (現金、金融卡、悠遊卡等)，存於 users/{uid}/accounts
+export type AccountKind = 'cash' | 'bank' | 'stored_value' | 'other';
+
+export interface PaymentAccount {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: number; // openingDate 當時的餘額
+  openingDate: number; // 從這天起的收支與轉帳才計入餘額
+  order: number;
+  archived?: boolean;
+}
+
+// 帳戶間的轉帳 (例如從現金儲值到悠遊卡)，存於 users/{uid}/transfers
+export interface AccountTransfer {
+  id: string;
+  from: string;
+  to: string;
+  amount: number;
+  timestamp: number;
+  note?: string;
 }
 
-export type AppView = 'LOGIN' | 'REGISTER' | 'WELCOME' | 'DASHBOARD' | 'REPORT' | 'ADD_EXPENSE' | 'EDIT_EXPENSE';
+export type AppView = 'LOGIN' | 'REGISTER' | 'WELCOME' | 'DASHBOARD' | 'REPORT' | 'ADD_EXPENSE' | 'EDIT_EXPENSE' | 'CATEGORIES' | 'DATA' | 'RECURRING' | 'GOALS' | 'TRASH' | 'SETTINGS' | 'ACCOUNTS';